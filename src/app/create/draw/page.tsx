@@ -3,12 +3,16 @@
 import { useState, useCallback, useMemo } from 'react';
 import Link from 'next/link';
 import { DrawingCanvas } from '@/components/canvas/DrawingCanvas';
-import { GlyphPreview } from '@/components/canvas/GlyphPreview';
+import { GlyphPreview, type AnchorMarker } from '@/components/canvas/GlyphPreview';
+import { GlyphRevisionDrawer } from '@/components/canvas/GlyphRevisionDrawer';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { HistoryPanel } from '@/components/history/HistoryPanel';
 import { useFontStore } from '@/stores/fontStore';
 import { svgPathToOpentypePath, calculateAdvanceWidth } from '@/lib/canvas/PathConverter';
-import { ALL_CHARACTERS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import { ALL_CHARACTERS, POSITIONAL_FORMS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import { getAnchorNames, getGlyphAnchor, isLetter } from '@/lib/font/Anchors';
+import type { AnchorName, PositionalForm } from '@/types';
 import {
   ChevronLeft,
   ChevronRight,
@@ -17,18 +21,34 @@ import {
   ArrowRight,
   Pencil,
   Eye,
+  Copy,
+  Anchor,
+  History,
 } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 
-type CharacterCategory = 'all' | 'uppercase' | 'lowercase' | 'numbers' | 'punctuation' | 'accented' | 'symbols';
+type CharacterCategory = 'all' | 'uppercase' | 'lowercase' | 'numbers' | 'punctuation' | 'accented' | 'marks' | 'symbols';
 
 export default function DrawPage() {
-  const { glyphs, setGlyphPath, clearGlyph, currentCharacterIndex, setCurrentCharacterIndex } =
-    useFontStore();
+  const {
+    glyphs,
+    settings,
+    setGlyph,
+    setGlyphPath,
+    addGlyphAlternate,
+    setGlyphAnchor,
+    setGlyphForm,
+    clearGlyph,
+    currentCharacterIndex,
+    setCurrentCharacterIndex,
+  } = useFontStore();
 
   const [category, setCategory] = useState<CharacterCategory>('all');
   const [currentSvgPath, setCurrentSvgPath] = useState('');
   const [viewMode, setViewMode] = useState<'draw' | 'preview'>('draw');
+  const [activeAnchor, setActiveAnchor] = useState<AnchorName | null>(null);
+  const [form, setForm] = useState<PositionalForm | 'default'>('default');
+  const [showRevisions, setShowRevisions] = useState(false);
 
   // Filter characters by category
   const filteredCharacters = useMemo(() => {
@@ -40,6 +60,7 @@ export default function DrawPage() {
       numbers: ['number'],
       punctuation: ['punctuation'],
       accented: ['accented'],
+      marks: ['mark'],
       symbols: ['symbol'],
     };
     return ALL_CHARACTERS.filter((c) =>
@@ -48,6 +69,9 @@ export default function DrawPage() {
   }, [category]);
 
   const currentChar = filteredCharacters[currentCharacterIndex] || filteredCharacters[0];
+  // Positional forms exist for letters only; the selection carries over to the next letter
+  const hasForms = currentChar ? isLetter(currentChar.unicode) : false;
+  const activeForm = hasForms ? form : 'default';
 
   // Progress calculation
   const completedCount = Object.values(glyphs).filter((g) => g.isComplete).length;
@@ -66,20 +90,38 @@ export default function DrawPage() {
     const opentypePath = svgPathToOpentypePath(currentSvgPath);
     const advanceWidth = calculateAdvanceWidth(opentypePath);
 
-    setGlyphPath(currentChar.unicode, opentypePath);
+    if (activeForm === 'default') {
+      setGlyphPath(currentChar.unicode, opentypePath);
+    } else {
+      setGlyphForm(currentChar.unicode, activeForm, opentypePath, advanceWidth);
+    }
 
     // Auto-advance to next character
     if (currentCharacterIndex < filteredCharacters.length - 1) {
       setCurrentCharacterIndex(currentCharacterIndex + 1);
       setCurrentSvgPath('');
     }
-  }, [currentChar, currentSvgPath, currentCharacterIndex, filteredCharacters.length, setGlyphPath, setCurrentCharacterIndex]);
+  }, [currentChar, currentSvgPath, activeForm, currentCharacterIndex, filteredCharacters.length, setGlyphPath, setGlyphForm, setCurrentCharacterIndex]);
+
+  // Keep the default form and store the drawing as another variant of the character
+  const handleSaveAlternate = useCallback(() => {
+    if (!currentChar || !currentSvgPath) return;
+
+    const opentypePath = svgPathToOpentypePath(currentSvgPath);
+    addGlyphAlternate(currentChar.unicode, opentypePath, calculateAdvanceWidth(opentypePath));
+    setCurrentSvgPath('');
+  }, [currentChar, currentSvgPath, addGlyphAlternate]);
 
+  // Clearing a positional form only removes that form
   const handleClear = useCallback(() => {
     if (!currentChar) return;
-    clearGlyph(currentChar.unicode);
+    if (activeForm === 'default') {
+      clearGlyph(currentChar.unicode);
+    } else {
+      setGlyphForm(currentChar.unicode, activeForm, null);
+    }
     setCurrentSvgPath('');
-  }, [currentChar, clearGlyph]);
+  }, [currentChar, activeForm, clearGlyph, setGlyphForm]);
 
   const handlePrev = useCallback(() => {
     if (currentCharacterIndex > 0) {
@@ -95,8 +137,23 @@ export default function DrawPage() {
     }
   }, [currentCharacterIndex, filteredCharacters.length, setCurrentCharacterIndex]);
 
-  const isCurrentComplete = currentChar ? glyphs[currentChar.unicode]?.isComplete : false;
   const currentGlyph = currentChar ? glyphs[currentChar.unicode] : null;
+  const formGlyph = activeForm === 'default' ? null : currentGlyph?.forms?.[activeForm];
+  const isCurrentComplete = activeForm === 'default' ? Boolean(currentGlyph?.isComplete) : Boolean(formGlyph);
+  const alternateCount = currentGlyph?.alternates?.length ?? 0;
+  const formCount = Object.keys(currentGlyph?.forms ?? {}).length;
+
+  // Anchors marks attach to (and letters join through), placed by clicking the saved glyph
+  const anchorNames = currentChar ? getAnchorNames(currentChar.unicode, settings.cursive) : [];
+  const anchorMarkers: AnchorMarker[] =
+    activeForm === 'default' && currentGlyph?.isComplete && currentGlyph.path
+      ? anchorNames.map((name) => ({
+          name,
+          point: getGlyphAnchor(currentGlyph, name, settings.metrics),
+          placed: Boolean(currentGlyph.anchors?.[name]),
+          active: name === activeAnchor,
+        }))
+      : [];
 
   return (
     <div className="min-h-screen bg-neutral-50">
@@ -117,6 +174,7 @@ export default function DrawPage() {
             </div>
 
             <div className="flex items-center gap-4">
+              <HistoryPanel />
               <Progress value={progressPercent} className="w-32" />
               <span className="text-sm text-neutral-600">{progressPercent}%</span>
               <Link href="/edit">
@@ -137,7 +195,7 @@ export default function DrawPage() {
             <div className="bg-white rounded-lg border border-neutral-200 p-4 sticky top-24">
               <h2 className="font-medium text-neutral-900 mb-3">Categories</h2>
               <div className="flex flex-col gap-1 mb-4">
-                {(['all', 'uppercase', 'lowercase', 'numbers', 'punctuation', 'accented', 'symbols'] as CharacterCategory[]).map(
+                {(['all', 'uppercase', 'lowercase', 'numbers', 'punctuation', 'accented', 'marks', 'symbols'] as CharacterCategory[]).map(
                   (cat) => (
                     <button
                       key={cat}
@@ -204,6 +262,16 @@ export default function DrawPage() {
                         Completed
                       </span>
                     )}
+                    {alternateCount > 0 && (
+                      <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">
+                        {alternateCount} alternate{alternateCount === 1 ? '' : 's'}
+                      </span>
+                    )}
+                    {formCount > 0 && (
+                      <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full">
+                        {formCount} positional form{formCount === 1 ? '' : 's'}
+                      </span>
+                    )}
                   </div>
                   <p className="text-sm text-neutral-500 mt-1">
                     {currentChar?.name} (U+{currentChar?.unicode.toString(16).toUpperCase().padStart(4, '0')})
@@ -233,6 +301,34 @@ export default function DrawPage() {
                 </div>
               </div>
 
+              {/* Positional form selector */}
+              {hasForms && (
+                <div className="flex justify-center mb-4">
+                  <div className="inline-flex rounded-lg border border-neutral-200 p-1">
+                    {[{ value: 'default', name: 'Default' } as const, ...POSITIONAL_FORMS].map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => {
+                          setForm(option.value);
+                          setCurrentSvgPath('');
+                        }}
+                        className={cn(
+                          'px-3 py-1 text-sm font-medium rounded-md transition-colors',
+                          activeForm === option.value
+                            ? 'bg-neutral-900 text-white'
+                            : 'text-neutral-600 hover:text-neutral-900'
+                        )}
+                      >
+                        {option.name}
+                        {option.value !== 'default' && currentGlyph?.forms?.[option.value] && (
+                          <Check className="inline ml-1 w-3 h-3" />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* View mode toggle */}
               {isCurrentComplete && (
                 <div className="flex justify-center mb-4">
@@ -269,6 +365,7 @@ export default function DrawPage() {
               <div className="flex justify-center mb-6">
                 {viewMode === 'draw' || !isCurrentComplete ? (
                   <DrawingCanvas
+                    key={`${currentChar?.unicode}-${activeForm}-${alternateCount}`}
                     width={400}
                     height={400}
                     character={currentChar?.character}
@@ -277,19 +374,77 @@ export default function DrawPage() {
                   />
                 ) : (
                   <GlyphPreview
-                    path={currentGlyph?.path || null}
+                    path={(formGlyph ?? currentGlyph)?.path || null}
                     width={400}
                     height={400}
                     showGuides={true}
                     guideCharacter={currentChar?.character}
+                    anchors={anchorMarkers}
+                    onPlaceAnchor={
+                      currentChar && activeAnchor && anchorNames.includes(activeAnchor)
+                        ? (point) => setGlyphAnchor(currentChar.unicode, activeAnchor, point)
+                        : undefined
+                    }
                   />
                 )}
               </div>
 
+              {/* Anchor editor */}
+              {viewMode === 'preview' && isCurrentComplete && currentChar && activeForm === 'default' && (
+                <div className="mb-6 flex flex-col items-center gap-2">
+                  <div className="flex items-center gap-2">
+                    <Anchor className="w-4 h-4 text-neutral-500" />
+                    {anchorMarkers.map((marker) => (
+                      <div key={marker.name} className="flex items-center">
+                        <button
+                          onClick={() => setActiveAnchor(activeAnchor === marker.name ? null : (marker.name as AnchorName))}
+                          className={cn(
+                            'px-3 py-1 text-sm font-medium rounded-l-md border transition-colors',
+                            activeAnchor === marker.name
+                              ? 'bg-red-500 border-red-500 text-white'
+                              : 'border-neutral-200 text-neutral-700 hover:bg-neutral-100'
+                          )}
+                        >
+                          {marker.name} ({marker.point.x}, {marker.point.y})
+                        </button>
+                        <button
+                          onClick={() => setGlyphAnchor(currentChar.unicode, marker.name as AnchorName, null)}
+                          disabled={!marker.placed}
+                          className="px-2 py-1 text-sm rounded-r-md border border-l-0 border-neutral-200 text-neutral-500 hover:bg-neutral-100 disabled:opacity-40"
+                          title="Use the automatic position"
+                        >
+                          Auto
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    {activeAnchor
+                      ? `Click the glyph to place the ${activeAnchor} anchor.`
+                      : settings.cursive && hasForms
+                      ? 'Anchors position accents on this glyph; entry and exit join it to its neighbours. Hollow anchors are placed automatically; select one to move it.'
+                      : 'Anchors position accents on this glyph. Hollow anchors are placed automatically; select one to move it.'}
+                  </p>
+                </div>
+              )}
+
+              {/* Overlap removal opt-out */}
+              {viewMode === 'preview' && isCurrentComplete && currentChar && (
+                <label className="mb-6 flex items-center justify-center gap-2 text-sm text-neutral-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!currentGlyph?.keepOverlaps}
+                    onChange={(e) => setGlyph(currentChar.unicode, { keepOverlaps: !e.target.checked })}
+                    className="w-4 h-4 rounded border-neutral-300"
+                  />
+                  Merge overlapping strokes on export
+                </label>
+              )}
+
               {/* Action buttons */}
               <div className="flex justify-center gap-4">
                 <Button variant="outline" onClick={handleClear}>
-                  Clear
+                  {activeForm === 'default' ? 'Clear' : 'Remove Form'}
                 </Button>
                 {viewMode === 'draw' && (
                   <Button onClick={handleSave} disabled={!currentSvgPath}>
@@ -297,12 +452,24 @@ export default function DrawPage() {
                     <ChevronRight className="ml-2 w-4 h-4" />
                   </Button>
                 )}
+                {viewMode === 'draw' && isCurrentComplete && activeForm === 'default' && (
+                  <Button variant="outline" onClick={handleSaveAlternate} disabled={!currentSvgPath}>
+                    <Copy className="mr-2 w-4 h-4" />
+                    Save as Alternate
+                  </Button>
+                )}
                 {viewMode === 'preview' && isCurrentComplete && (
                   <Button variant="outline" onClick={() => setViewMode('draw')}>
                     <Pencil className="mr-2 w-4 h-4" />
                     Redraw
                   </Button>
                 )}
+                {activeForm === 'default' && (
+                  <Button variant="ghost" onClick={() => setShowRevisions(true)} title="Saved versions of this glyph">
+                    <History className="mr-2 w-4 h-4" />
+                    Versions
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -314,11 +481,17 @@ export default function DrawPage() {
                 <li>• Keep lowercase letters within the x-height (green line)</li>
                 <li>• Uppercase should reach the cap height (purple line)</li>
                 <li>• Letters like p, g, y should extend to the descender (red line)</li>
+                <li>• Save extra drawings as alternates so repeated letters vary in running text</li>
+                <li>• For joined script, draw initial, medial, final or isolated forms of letters that change shape within a word</li>
               </ul>
             </div>
           </div>
         </div>
       </div>
+
+      {showRevisions && currentChar && (
+        <GlyphRevisionDrawer unicode={currentChar.unicode} onClose={() => setShowRevisions(false)} />
+      )}
     </div>
   );
 }
@@ -6,12 +6,14 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Slider } from '@/components/ui/slider';
 import { useFontStore } from '@/stores/fontStore';
-import { processTemplatePage, type ProcessingResult } from '@/lib/image/TemplateProcessor';
+import { processTemplatePage, type GlyphTraceMode, type ProcessingResult } from '@/lib/image/TemplateProcessor';
 import { getTemplateCoordinates, DEFAULT_TEMPLATE_CONFIG } from '@/lib/template/TemplateDefinition';
 import { ProcessingDebugOverlay } from '@/components/debug/ProcessingDebugOverlay';
 import { MonolineDebugView } from '@/components/debug/MonolineDebugView';
+import { HistoryPanel } from '@/components/history/HistoryPanel';
 import type { PdfPage } from '@/lib/image/PdfParser';
 import { ALL_CHARACTERS } from '@/lib/constants/characters';
+import type { PenShape, StrokeEnd } from '@/types';
 import {
   Home,
   Upload,
@@ -30,11 +32,23 @@ import { cn } from '@/lib/utils/cn';
 type ProcessingState = 'idle' | 'loading' | 'ready' | 'processing' | 'done' | 'error';
 type FileType = 'image' | 'pdf';
 
+function imageDataToBlob(imageData: ImageData): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), 'image/png')
+  );
+}
+
 export default function UploadPage() {
-  const { glyphs, setGlyphPath } = useFontStore();
+  const { glyphs, settings, setSettings, setGlyphPath, addGlyphAlternate, addScan, transaction } =
+    useFontStore();
 
   // File state
   const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
   const [pdfPages, setPdfPages] = useState<PdfPage[]>([]);
   const [currentPdfPage, setCurrentPdfPage] = useState(0);
   const [fileType, setFileType] = useState<FileType>('image');
@@ -52,6 +66,8 @@ export default function UploadPage() {
   const [morphOpenSize, setMorphOpenSize] = useState(2);
   const [minComponentArea, setMinComponentArea] = useState(80);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [templateSet, setTemplateSet] = useState<'required' | 'alternates'>('required');
+  const [traceMode, setTraceMode] = useState<GlyphTraceMode>('outline');
 
   // Debug state
   const [processingResult, setProcessingResult] = useState<ProcessingResult | null>(null);
@@ -76,6 +92,7 @@ export default function UploadPage() {
     setCurrentPdfPage(0);
     setProcessingResult(null);
     setOriginalImageData(null);
+    setSourceFile(file);
 
     try {
       if (file.type === 'application/pdf') {
@@ -168,12 +185,15 @@ export default function UploadPage() {
           cellsPerRow: 8,
           rowsPerPage: 10,
         },
-        characterSet: 'required',
+        characterSet: templateSet,
         pageNumber: currentPdfPage,
         subtractThreshold,
         morphologyCloseSize: morphCloseSize,
         morphologyOpenSize: morphOpenSize,
         minComponentArea,
+        curveTolerance: settings.curveFitTolerance,
+        mode: traceMode,
+        pen: settings.monolinePen,
         onProgress: (stage, progress) => {
           setProgressStage(stage);
           setProgressPercent(progress);
@@ -188,16 +208,50 @@ export default function UploadPage() {
         return;
       }
 
-      // Save glyphs to store (including advanceWidth from template normalization)
+      // Save glyphs to store (including advanceWidth from template normalization),
+      // undone together as one step
       let savedCount = 0;
-      for (const glyph of result.glyphs) {
-        setGlyphPath(glyph.character.unicode, glyph.opentypePath, glyph.advanceWidth);
-        savedCount++;
-      }
+      const scanId = `scan_${Date.now()}`;
+      const page = fileType === 'pdf' ? currentPdfPage + 1 : undefined;
+      const source = { type: 'scan', scanId, page } as const;
+      transaction(page ? `Apply scan page ${page}` : 'Apply scan', () => {
+        // Cells of the alternates template repeat letters: each repeat becomes an alternate
+        for (const glyph of result.glyphs) {
+          const { unicode } = glyph.character;
+          if (templateSet === 'alternates') {
+            addGlyphAlternate(unicode, glyph.opentypePath, glyph.advanceWidth, glyph.skeleton, source);
+          } else {
+            setGlyphPath(unicode, glyph.opentypePath, glyph.advanceWidth, glyph.skeleton, source);
+          }
+          savedCount++;
+        }
+      });
 
       setProcessedCount(savedCount);
 
       if (savedCount > 0) {
+        // The project keeps the scan (photos as uploaded, PDF pages as rendered) and each cell
+        try {
+          const crops = await Promise.all(
+            result.glyphs.map(async (glyph) => ({
+              unicode: glyph.character.unicode,
+              scanId,
+              alternate: templateSet === 'alternates',
+              image: await imageDataToBlob(glyph.cellImageData),
+            }))
+          );
+          await addScan(
+            {
+              id: scanId,
+              name: page ? `${sourceFile?.name ?? 'Scan'} (page ${page})` : sourceFile?.name ?? 'Scan',
+              image: fileType === 'image' && sourceFile ? sourceFile : await imageDataToBlob(imageData),
+              addedAt: Date.now(),
+            },
+            crops
+          );
+        } catch (err) {
+          console.error('[Upload] Failed to keep the scan:', err);
+        }
         setState('done');
       } else {
         setError('No characters detected. Make sure the template is filled out correctly.');
@@ -208,7 +262,7 @@ export default function UploadPage() {
       setError(err instanceof Error ? err.message : 'Failed to process');
       setState('error');
     }
-  }, [getCurrentImageData, currentPdfPage, subtractThreshold, morphCloseSize, morphOpenSize, minComponentArea, setGlyphPath]);
+  }, [getCurrentImageData, currentPdfPage, templateSet, subtractThreshold, morphCloseSize, morphOpenSize, minComponentArea, settings.curveFitTolerance, traceMode, settings.monolinePen, setGlyphPath, addGlyphAlternate, addScan, transaction, fileType, sourceFile]);
 
   const handleReset = useCallback(() => {
     setImage(null);
@@ -219,6 +273,7 @@ export default function UploadPage() {
     setProcessedCount(0);
     setProcessingResult(null);
     setOriginalImageData(null);
+    setSourceFile(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -264,6 +319,7 @@ export default function UploadPage() {
             </div>
 
             <div className="flex items-center gap-4">
+              <HistoryPanel />
               <Progress value={totalProgressPercent} className="w-32" />
               <span className="text-sm text-neutral-600">{totalProgressPercent}%</span>
               <Link href="/edit">
@@ -409,6 +465,126 @@ export default function UploadPage() {
               {/* Hidden processing canvas */}
               <canvas ref={canvasRef} className="hidden" />
 
+              {/* Template type */}
+              <div className="mb-4 flex items-center gap-2 text-sm">
+                <span className="text-neutral-600">Template:</span>
+                {(['required', 'alternates'] as const).map((set) => (
+                  <button
+                    key={set}
+                    onClick={() => setTemplateSet(set)}
+                    className={cn(
+                      'px-3 py-1 rounded-md font-medium transition-colors',
+                      templateSet === set
+                        ? 'bg-neutral-900 text-white'
+                        : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+                    )}
+                  >
+                    {set === 'required' ? 'Basic Characters' : 'Alternates'}
+                  </button>
+                ))}
+              </div>
+
+              {/* Outline tracing or monoline strokes */}
+              <div className="mb-4 flex items-center gap-2 text-sm">
+                <span className="text-neutral-600">Glyphs:</span>
+                {(['outline', 'monoline'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setTraceMode(mode)}
+                    className={cn(
+                      'px-3 py-1 rounded-md font-medium transition-colors',
+                      traceMode === mode
+                        ? 'bg-neutral-900 text-white'
+                        : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+                    )}
+                  >
+                    {mode === 'outline' ? 'Trace Outlines' : 'Monoline Strokes'}
+                  </button>
+                ))}
+              </div>
+
+              {/* Pen for monoline strokes */}
+              {traceMode === 'monoline' && (
+                <div className="mb-6 p-4 bg-neutral-50 rounded-lg">
+                  <p className="text-xs text-neutral-500 mb-4">
+                    Follows the centre of each stroke and redraws it with the pen below, for an even weight whatever was used to write.
+                  </p>
+                  <div className="grid grid-cols-3 gap-4 mb-4">
+                    <label className="text-sm">
+                      <span className="block font-medium text-neutral-700 mb-1">Nib</span>
+                      <select
+                        value={settings.monolinePen.shape}
+                        onChange={(e) =>
+                          setSettings({ monolinePen: { ...settings.monolinePen, shape: e.target.value as PenShape } })
+                        }
+                        disabled={state === 'processing'}
+                        className="w-full px-2 py-1 border border-neutral-300 rounded-md bg-white"
+                      >
+                        <option value="round">Round</option>
+                        <option value="ellipse">Elliptical</option>
+                        <option value="broad">Broad nib</option>
+                      </select>
+                    </label>
+                    <label className="text-sm">
+                      <span className="block font-medium text-neutral-700 mb-1">Caps</span>
+                      <select
+                        value={settings.monolinePen.cap}
+                        onChange={(e) =>
+                          setSettings({ monolinePen: { ...settings.monolinePen, cap: e.target.value as StrokeEnd } })
+                        }
+                        disabled={state === 'processing'}
+                        className="w-full px-2 py-1 border border-neutral-300 rounded-md bg-white"
+                      >
+                        <option value="round">Round</option>
+                        <option value="square">Square</option>
+                      </select>
+                    </label>
+                    <label className="text-sm">
+                      <span className="block font-medium text-neutral-700 mb-1">Joins</span>
+                      <select
+                        value={settings.monolinePen.join}
+                        onChange={(e) =>
+                          setSettings({ monolinePen: { ...settings.monolinePen, join: e.target.value as StrokeEnd } })
+                        }
+                        disabled={state === 'processing'}
+                        className="w-full px-2 py-1 border border-neutral-300 rounded-md bg-white"
+                      >
+                        <option value="round">Round</option>
+                        <option value="square">Square</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-2">
+                      Pen Width: {settings.monolinePen.width} units
+                    </label>
+                    <Slider
+                      value={[settings.monolinePen.width]}
+                      onValueChange={(v) => setSettings({ monolinePen: { ...settings.monolinePen, width: v[0] } })}
+                      min={10}
+                      max={200}
+                      step={5}
+                      disabled={state === 'processing'}
+                    />
+                  </div>
+                  {settings.monolinePen.shape !== 'round' && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-neutral-700 mb-2">
+                        Pen Angle: {settings.monolinePen.angle}°
+                      </label>
+                      <Slider
+                        value={[settings.monolinePen.angle]}
+                        onValueChange={(v) => setSettings({ monolinePen: { ...settings.monolinePen, angle: v[0] } })}
+                        min={-90}
+                        max={90}
+                        step={5}
+                        disabled={state === 'processing'}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Advanced settings */}
               <div className="mb-6">
                 <button
@@ -438,6 +614,22 @@ export default function UploadPage() {
                         Lower values capture lighter strokes, higher values reduce noise.
                       </p>
                     </div>
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-neutral-700 mb-2">
+                        Curve Fitting Tolerance: {settings.curveFitTolerance} units
+                      </label>
+                      <Slider
+                        value={[settings.curveFitTolerance]}
+                        onValueChange={(v) => setSettings({ curveFitTolerance: v[0] })}
+                        min={0.5}
+                        max={10}
+                        step={0.5}
+                        disabled={state === 'processing'}
+                      />
+                      <p className="text-xs text-neutral-500 mt-1">
+                        Lower values follow the scan more closely, higher values give fewer, smoother curves.
+                      </p>
+                    </div>
                   </div>
                 )}
               </div>
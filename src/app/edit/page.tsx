@@ -4,16 +4,75 @@ import { useState, useMemo } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { GlyphPreview } from '@/components/canvas/GlyphPreview';
+import { ProjectSwitcher } from '@/components/projects/ProjectSwitcher';
+import { HistoryPanel } from '@/components/history/HistoryPanel';
 import { useFontStore } from '@/stores/fontStore';
-import { ALL_CHARACTERS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
-import { Home, Pencil, Check, X, ArrowRight, Filter } from 'lucide-react';
+import { ALL_CHARACTERS, REQUIRED_CHARACTERS, STYLISTIC_SET_COUNT } from '@/lib/constants/characters';
+import { buildCompositeGlyphs } from '@/lib/font/Composites';
+import { getStylisticSetTag } from '@/lib/font/GlyphSubstitution';
+import type { GlyphCleanupReport } from '@/lib/font/OutlineCleanup';
+import {
+  autoSidebearings,
+  createSpacingModel,
+  getSidebearings,
+  type GlyphSpacingReport,
+} from '@/lib/font/Spacing';
+import {
+  DEFAULT_KERNING_THRESHOLD,
+  suggestKerning,
+  type AutoKerningResult,
+  type KerningSuggestion,
+} from '@/lib/font/AutoKerning';
+import type { Sidebearings } from '@/types';
+import {
+  Home,
+  Pencil,
+  Check,
+  X,
+  ArrowRight,
+  Filter,
+  Layers,
+  Star,
+  Trash2,
+  Sparkles,
+  MoveHorizontal,
+  FoldHorizontal,
+} from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 
 type FilterMode = 'all' | 'complete' | 'incomplete' | 'required';
 
+function pairKey(pair: { left: number | string; right: number | string }): string {
+  return `${pair.left}|${pair.right}`;
+}
+
 export default function EditPage() {
-  const { glyphs, clearGlyph, setCurrentCharacterIndex } = useFontStore();
+  const {
+    glyphs,
+    settings,
+    kerning,
+    clearGlyph,
+    setCurrentCharacterIndex,
+    removeGlyphAlternate,
+    promoteGlyphAlternate,
+    setGlyphAlternateSet,
+    cleanupOutlines,
+    autoSpace,
+    setGlyphSpacingOverride,
+    setSettings,
+    acceptKerningSuggestions,
+  } = useFontStore();
   const [filter, setFilter] = useState<FilterMode>('all');
+  const [alternatesUnicode, setAlternatesUnicode] = useState<number | null>(null);
+  const [cleanupReport, setCleanupReport] = useState<GlyphCleanupReport[] | null>(null);
+  const [spacingUnicode, setSpacingUnicode] = useState<number | null>(null);
+  const [spacingReport, setSpacingReport] = useState<GlyphSpacingReport[] | null>(null);
+  const [kerningThreshold, setKerningThreshold] = useState(DEFAULT_KERNING_THRESHOLD);
+  const [kerningSuggestions, setKerningSuggestions] = useState<AutoKerningResult | null>(null);
+  // Suggestions unticked in the review list, by pairKey
+  const [rejectedPairs, setRejectedPairs] = useState<Set<string>>(new Set());
 
   // Progress calculation
   const completedCount = Object.values(glyphs).filter((g) => g.isComplete).length;
@@ -36,6 +95,92 @@ export default function EditPage() {
     }
   }, [filter, glyphs]);
 
+  // Accented characters built from a drawn base letter and mark
+  const composedUnicodes = useMemo(
+    () => new Set(buildCompositeGlyphs(glyphs, settings.metrics).map((g) => g.unicode)),
+    [glyphs, settings.metrics]
+  );
+
+  const alternatesChar = ALL_CHARACTERS.find((c) => c.unicode === alternatesUnicode);
+  const alternatesGlyph = alternatesUnicode !== null ? glyphs[alternatesUnicode] : undefined;
+  const alternates = alternatesGlyph?.alternates ?? [];
+
+  const spacingChar = ALL_CHARACTERS.find((c) => c.unicode === spacingUnicode);
+  const spacingGlyph = spacingUnicode !== null ? glyphs[spacingUnicode] : undefined;
+
+  // Side bearings the glyph has now and would get from auto spacing before its override
+  const spacingPreview = useMemo(() => {
+    if (!spacingGlyph?.isComplete || !spacingGlyph.path) return null;
+    const model = createSpacingModel(glyphs, settings.metrics, settings.spacingTightness);
+    return {
+      current: getSidebearings(spacingGlyph.path, spacingGlyph.advanceWidth),
+      auto: autoSidebearings(spacingGlyph.path, spacingGlyph.unicode, model),
+    };
+  }, [spacingGlyph, glyphs, settings.metrics, settings.spacingTightness]);
+
+  const handleSpacingOverride = (side: keyof Sidebearings, value: string) => {
+    if (spacingUnicode === null) return;
+    const override = { ...spacingGlyph?.spacingOverride, [side]: value === '' ? undefined : Number(value) };
+    setGlyphSpacingOverride(spacingUnicode, override);
+  };
+
+  // Rewrites every drawn outline, so ask first
+  const handleCleanupOutlines = () => {
+    if (!window.confirm('Clean up the outlines of every drawn glyph? This replaces the stored outlines.')) return;
+    const report = cleanupOutlines();
+    setCleanupReport(
+      report.sort((a, b) => b.pointsBefore - b.pointsAfter - (a.pointsBefore - a.pointsAfter))
+    );
+  };
+
+  // Moves every drawn outline and changes its advance width, so ask first
+  const handleAutoSpace = () => {
+    if (!window.confirm('Respace every drawn glyph and ligature from its shape? Side bearings fixed on a glyph are kept.')) return;
+    const report = autoSpace();
+    setSpacingReport(
+      report.sort(
+        (a, b) =>
+          Math.abs(b.after.left - b.before.left) + Math.abs(b.after.right - b.before.right) -
+          (Math.abs(a.after.left - a.before.left) + Math.abs(a.after.right - a.before.right))
+      )
+    );
+  };
+
+  // Suggestions only; nothing changes until they are accepted
+  const handleAutoKerning = (threshold = kerningThreshold) => {
+    const model = createSpacingModel(glyphs, settings.metrics, settings.spacingTightness);
+    setKerningSuggestions(suggestKerning(glyphs, kerning, model, threshold));
+    setRejectedPairs(new Set());
+  };
+
+  const handleAcceptKerning = () => {
+    if (!kerningSuggestions) return;
+    const accepted = kerningSuggestions.pairs
+      .filter((pair) => !rejectedPairs.has(pairKey(pair)))
+      .map(({ left, right, value }) => ({ left, right, value }));
+    acceptKerningSuggestions(kerningSuggestions.classes, accepted);
+    setKerningSuggestions(null);
+  };
+
+  const toggleKerningPair = (pair: KerningSuggestion) =>
+    setRejectedPairs((rejected) => {
+      const next = new Set(rejected);
+      if (!next.delete(pairKey(pair))) next.add(pairKey(pair));
+      return next;
+    });
+
+  // A glyph as its character, a class as its name in brackets
+  const kerningSideLabel = (side: number | string) => {
+    if (typeof side === 'number') return String.fromCodePoint(side);
+    const kerningClass = [...kerning.classes, ...(kerningSuggestions?.classes ?? [])].find((c) => c.id === side);
+    return kerningClass ? `[${kerningClass.name}]` : side;
+  };
+  const kerningSideMembers = (side: number | string) => {
+    if (typeof side === 'number') return undefined;
+    const kerningClass = [...kerning.classes, ...(kerningSuggestions?.classes ?? [])].find((c) => c.id === side);
+    return kerningClass?.members.map((u) => String.fromCodePoint(u)).join(' ');
+  };
+
   const handleEditGlyph = (unicode: number) => {
     const index = ALL_CHARACTERS.findIndex((c) => c.unicode === unicode);
     if (index !== -1) {
@@ -62,6 +207,8 @@ export default function EditPage() {
             </div>
 
             <div className="flex items-center gap-4">
+              <HistoryPanel />
+              <ProjectSwitcher />
               <Progress value={progressPercent} className="w-32" />
               <span className="text-sm text-neutral-600">{progressPercent}%</span>
 
@@ -107,9 +254,169 @@ export default function EditPage() {
                 </button>
               ))}
             </div>
+            <Button
+              variant="outline"
+              className="ml-auto"
+              onClick={handleCleanupOutlines}
+              disabled={completedCount === 0}
+              title="Remove redundant points, merge short segments into curves, add extrema and fix contour directions"
+            >
+              <Sparkles className="mr-2 w-4 h-4" />
+              Clean Up Outlines
+            </Button>
+            <div className="flex items-center gap-2" title="How closely auto spacing sets glyphs">
+              <span className="text-xs font-medium text-neutral-600">Tightness</span>
+              <Slider
+                value={[settings.spacingTightness]}
+                onValueChange={(v) => setSettings({ spacingTightness: v[0] })}
+                min={0}
+                max={100}
+                step={5}
+                className="w-24"
+              />
+              <span className="text-xs text-neutral-600 w-6 text-right">{settings.spacingTightness}</span>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleAutoSpace}
+              disabled={completedCount === 0}
+              title="Set side bearings from each glyph's shape, measured against n, o, H and O"
+            >
+              <MoveHorizontal className="mr-2 w-4 h-4" />
+              Auto Spacing
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleAutoKerning()}
+              disabled={completedCount === 0}
+              title="Suggest kerning from the white space between every pair of drawn glyphs"
+            >
+              <FoldHorizontal className="mr-2 w-4 h-4" />
+              Auto Kerning
+            </Button>
           </div>
         </div>
 
+        {/* Spacing report */}
+        {spacingReport && (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="font-medium text-neutral-900">Auto Spacing</h2>
+                <p className="text-sm text-neutral-500">
+                  Respaced {spacingReport.length} outlines. Side bearings are shown as left / right, in font units.
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setSpacingReport(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-x-6 gap-y-1 max-h-64 overflow-y-auto text-sm">
+              {spacingReport.map((entry) => (
+                <div key={entry.name} className="flex justify-between gap-2">
+                  <span className="text-neutral-700 truncate">{entry.name}</span>
+                  <span className="text-neutral-500 tabular-nums">
+                    {entry.before.left}/{entry.before.right} → {entry.after.left}/{entry.after.right}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Cleanup report */}
+        {cleanupReport && (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="font-medium text-neutral-900">Outline Cleanup</h2>
+                <p className="text-sm text-neutral-500">
+                  Removed {cleanupReport.reduce((sum, entry) => sum + entry.pointsBefore - entry.pointsAfter, 0)} points
+                  from {cleanupReport.length} outlines. Outlines that gained points got them at their extrema.
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setCleanupReport(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-x-6 gap-y-1 max-h-64 overflow-y-auto text-sm">
+              {cleanupReport.map((entry) => (
+                <div key={entry.name} className="flex justify-between gap-2">
+                  <span className="text-neutral-700 truncate">{entry.name}</span>
+                  <span className="text-neutral-500 tabular-nums">
+                    {entry.pointsBefore} → {entry.pointsAfter} ({entry.pointsAfter - entry.pointsBefore})
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Kerning suggestions */}
+        {kerningSuggestions && (
+          <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="font-medium text-neutral-900">Auto Kerning</h2>
+                <p className="text-sm text-neutral-500">
+                  {kerningSuggestions.pairs.length} pairs suggested
+                  {kerningSuggestions.classes.length > 0 &&
+                    `, using ${kerningSuggestions.classes.length} new classes of glyphs that kern alike`}
+                  . Untick any you don&apos;t want; accepted pairs replace existing ones.
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2" title="Smallest adjustment to suggest, in font units">
+                  <span className="text-xs font-medium text-neutral-600">Threshold</span>
+                  <Slider
+                    value={[kerningThreshold]}
+                    onValueChange={(v) => setKerningThreshold(v[0])}
+                    onValueCommit={(v) => handleAutoKerning(v[0])}
+                    min={5}
+                    max={50}
+                    step={5}
+                    className="w-24"
+                  />
+                  <span className="text-xs text-neutral-600 w-6 text-right">{kerningThreshold}</span>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={handleAcceptKerning}
+                  disabled={kerningSuggestions.pairs.length === rejectedPairs.size}
+                >
+                  <Check className="mr-2 w-3 h-3" />
+                  Accept {kerningSuggestions.pairs.length - rejectedPairs.size}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setKerningSuggestions(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-x-6 gap-y-1 max-h-64 overflow-y-auto text-sm">
+              {kerningSuggestions.pairs.map((pair) => (
+                <label key={pairKey(pair)} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!rejectedPairs.has(pairKey(pair))}
+                    onChange={() => toggleKerningPair(pair)}
+                    className="w-3 h-3"
+                  />
+                  <span
+                    className="text-neutral-700 truncate flex-1"
+                    title={[kerningSideMembers(pair.left), kerningSideMembers(pair.right)].filter(Boolean).join(' | ')}
+                  >
+                    {kerningSideLabel(pair.left)} {kerningSideLabel(pair.right)}
+                  </span>
+                  <span className="text-neutral-500 tabular-nums">
+                    {pair.current !== 0 && `${pair.current} → `}
+                    {pair.value}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Glyph grid */}
         <div className="bg-white rounded-lg border border-neutral-200 p-6">
           {filteredCharacters.length === 0 ? (
@@ -122,6 +429,8 @@ export default function EditPage() {
                 const glyph = glyphs[char.unicode];
                 const isComplete = glyph?.isComplete;
                 const isRequired = char.required;
+                const isComposed = composedUnicodes.has(char.unicode);
+                const alternateCount = glyph?.alternates?.length ?? 0;
 
                 return (
                   <div
@@ -130,6 +439,8 @@ export default function EditPage() {
                       'relative group aspect-square rounded-lg border-2 flex flex-col items-center justify-center transition-all',
                       isComplete
                         ? 'border-green-200 bg-green-50'
+                        : isComposed
+                        ? 'border-blue-200 bg-blue-50'
                         : isRequired
                         ? 'border-amber-200 bg-amber-50'
                         : 'border-neutral-200 bg-white'
@@ -144,6 +455,13 @@ export default function EditPage() {
                       ) : null}
                     </div>
 
+                    {/* Alternates count */}
+                    {alternateCount > 0 && (
+                      <span className="absolute top-1 left-1 px-1 rounded bg-blue-100 text-[10px] font-medium text-blue-700">
+                        +{alternateCount}
+                      </span>
+                    )}
+
                     {/* Character display */}
                     <span className="text-2xl font-serif mb-1">
                       {char.character === ' ' ? '␣' : char.character}
@@ -163,6 +481,26 @@ export default function EditPage() {
                           <Pencil className="w-3 h-3" />
                         </Button>
                       </Link>
+                      {isComplete && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => setAlternatesUnicode(char.unicode)}
+                          title="Alternates"
+                        >
+                          <Layers className="w-3 h-3" />
+                        </Button>
+                      )}
+                      {isComplete && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => setSpacingUnicode(char.unicode)}
+                          title="Spacing"
+                        >
+                          <MoveHorizontal className="w-3 h-3" />
+                        </Button>
+                      )}
                       {isComplete && (
                         <Button
                           size="sm"
@@ -180,12 +518,140 @@ export default function EditPage() {
           )}
         </div>
 
+        {/* Alternates panel */}
+        {alternatesChar && alternatesGlyph?.isComplete && (
+          <div className="mt-6 bg-white rounded-lg border border-neutral-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="font-medium text-neutral-900">
+                  Alternates for {alternatesChar.character}
+                </h2>
+                <p className="text-sm text-neutral-500">
+                  Repeated letters cycle through these forms in running text (calt feature).
+                  Assign an alternate to a stylistic set to use it only when that set is turned on.
+                  Draw more on the draw page or upload the alternates template.
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setAlternatesUnicode(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <div className="flex flex-col items-center gap-2">
+                <GlyphPreview path={alternatesGlyph.path} width={120} height={120} showGuides={false} />
+                <span className="text-xs font-medium text-neutral-700">Default</span>
+              </div>
+              {alternates.map((alternate, index) => (
+                <div key={alternate.id} className="flex flex-col items-center gap-2">
+                  <GlyphPreview path={alternate.path} width={120} height={120} showGuides={false} />
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-neutral-500 mr-1">Alt {index + 1}</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => promoteGlyphAlternate(alternatesChar.unicode, alternate.id)}
+                      title="Make default"
+                    >
+                      <Star className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => removeGlyphAlternate(alternatesChar.unicode, alternate.id)}
+                      title="Delete alternate"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                  <select
+                    value={alternate.stylisticSet ?? (alternate.random ? 'rand' : 0)}
+                    onChange={(e) =>
+                      setGlyphAlternateSet(
+                        alternatesChar.unicode,
+                        alternate.id,
+                        e.target.value === 'rand' ? 'rand' : Number(e.target.value) || null
+                      )
+                    }
+                    className="w-[120px] px-2 py-1 text-xs border border-neutral-300 rounded bg-white"
+                    title="Stylistic set"
+                  >
+                    <option value={0}>Cycled (calt)</option>
+                    <option value="rand">Random (rand)</option>
+                    {Array.from({ length: STYLISTIC_SET_COUNT }, (_, i) => i + 1).map((set) => (
+                      <option key={set} value={set}>
+                        {getStylisticSetTag(set)}
+                        {settings.stylisticSetNames[set] ? ` ${settings.stylisticSetNames[set]}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {alternates.length === 0 && (
+                <div className="flex items-center text-sm text-neutral-500">
+                  No alternates yet
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Spacing panel */}
+        {spacingChar && spacingGlyph?.isComplete && spacingPreview && (
+          <div className="mt-6 bg-white rounded-lg border border-neutral-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="font-medium text-neutral-900">
+                  Spacing for {spacingChar.character}
+                </h2>
+                <p className="text-sm text-neutral-500">
+                  Auto spacing sets side bearings from the glyph&apos;s shape. Fix a side to keep it when
+                  the font is respaced; leave it blank to use the computed value.
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setSpacingUnicode(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <GlyphPreview path={spacingGlyph.path} width={120} height={120} showGuides={false} />
+              <div className="space-y-3 text-sm">
+                {(['left', 'right'] as const).map((side) => (
+                  <div key={side} className="flex items-center gap-3">
+                    <span className="w-10 font-medium text-neutral-700 capitalize">{side}</span>
+                    <span className="w-24 text-neutral-500 tabular-nums">Now {spacingPreview.current[side]}</span>
+                    <span className="w-24 text-neutral-500 tabular-nums">
+                      Auto {spacingPreview.auto ? spacingPreview.auto[side] : '–'}
+                    </span>
+                    <input
+                      type="number"
+                      value={spacingGlyph.spacingOverride?.[side] ?? ''}
+                      onChange={(e) => handleSpacingOverride(side, e.target.value)}
+                      placeholder="Auto"
+                      className="w-20 px-2 py-1 border border-neutral-300 rounded"
+                    />
+                  </div>
+                ))}
+                <Button size="sm" variant="outline" onClick={() => autoSpace([spacingChar.unicode])}>
+                  <MoveHorizontal className="mr-2 w-3 h-3" />
+                  Respace {spacingChar.character}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Legend */}
         <div className="mt-4 flex items-center gap-6 text-sm text-neutral-500">
           <span className="flex items-center gap-2">
             <span className="w-4 h-4 rounded border-2 border-green-200 bg-green-50" />
             Complete
           </span>
+          <span className="flex items-center gap-2">
+            <span className="w-4 h-4 rounded border-2 border-blue-200 bg-blue-50" />
+            Composed from base + mark (draw it to override)
+          </span>
           <span className="flex items-center gap-2">
             <span className="w-4 h-4 rounded border-2 border-amber-200 bg-amber-50" />
             Required (incomplete)
@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { HydrationGate } from "@/components/storage/HydrationGate";
+import { HistoryShortcuts } from "@/components/history/HistoryShortcuts";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -27,7 +29,10 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <HydrationGate>
+          <HistoryShortcuts />
+          {children}
+        </HydrationGate>
       </body>
     </html>
   );
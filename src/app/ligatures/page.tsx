@@ -4,6 +4,7 @@ import { useState, useCallback } from 'react';
 import Link from 'next/link';
 import { DrawingCanvas } from '@/components/canvas/DrawingCanvas';
 import { Button } from '@/components/ui/button';
+import { HistoryPanel } from '@/components/history/HistoryPanel';
 import { useFontStore } from '@/stores/fontStore';
 import { svgPathToOpentypePath, calculateAdvanceWidth } from '@/lib/canvas/PathConverter';
 import { COMMON_LIGATURES } from '@/lib/constants/characters';
@@ -11,7 +12,7 @@ import { Home, Plus, Trash2, Check, ArrowRight, ArrowLeft } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 
 export default function LigaturesPage() {
-  const { ligatures, addLigature, removeLigature, setLigaturePath } = useFontStore();
+  const { ligatures, addLigature, removeLigature, setLigaturePath, setLigatureFeature } = useFontStore();
   const [customSequence, setCustomSequence] = useState('');
   const [selectedLigature, setSelectedLigature] = useState<string | null>(null);
   const [currentSvgPath, setCurrentSvgPath] = useState('');
@@ -62,6 +63,7 @@ export default function LigaturesPage() {
             </div>
 
             <div className="flex items-center gap-4">
+              <HistoryPanel />
               <Link href="/edit">
                 <Button variant="outline">
                   <ArrowLeft className="mr-2 w-4 h-4" />
@@ -165,6 +167,20 @@ export default function LigaturesPage() {
                             Needs drawing
                           </span>
                         )}
+                        <button
+                          onClick={() =>
+                            setLigatureFeature(lig.id, lig.feature === 'dlig' ? 'liga' : 'dlig')
+                          }
+                          className={cn(
+                            'px-2 py-1 text-xs rounded-full transition-colors',
+                            lig.feature === 'dlig'
+                              ? 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                              : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+                          )}
+                          title="Standard ligatures are always applied, discretionary ones only when the dlig feature is turned on"
+                        >
+                          {lig.feature === 'dlig' ? 'Discretionary' : 'Standard'}
+                        </button>
                       </div>
                       <div className="flex items-center gap-2">
                         <Button
@@ -1,5 +1,5 @@
 import Link from 'next/link';
-import { Pencil, Upload, Type, FileText, Download } from 'lucide-react';
+import { Pencil, Upload, Type, FileText, Download, FolderOpen } from 'lucide-react';
 
 export default function Home() {
   return (
@@ -14,6 +14,13 @@ export default function Home() {
             Transform your handwriting into a custom font. Draw characters or
             upload a sample, and download your personalized OTF/TTF font file.
           </p>
+          <Link
+            href="/projects"
+            className="inline-flex items-center gap-2 mt-6 text-neutral-700 hover:text-neutral-900 hover:underline underline-offset-4"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Your projects
+          </Link>
         </div>
 
         {/* Method Selection */}
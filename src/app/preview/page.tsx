@@ -4,9 +4,30 @@ import { useState, useMemo, useCallback, useEffect } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import { KerningEditor } from '@/components/kerning/KerningEditor';
+import { HintingComparison } from '@/components/preview/HintingComparison';
+import { ProjectSwitcher } from '@/components/projects/ProjectSwitcher';
+import { HistoryPanel } from '@/components/history/HistoryPanel';
 import { useFontStore } from '@/stores/fontStore';
-import { buildFont, downloadFont } from '@/lib/font/FontBuilder';
-import { ALL_CHARACTERS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import {
+  buildFont,
+  downloadFont,
+  exportAsOTF,
+  exportAsTTF,
+  getCleanupReport,
+  getVariableFontInfo,
+  type FontExportFormat,
+} from '@/lib/font/FontBuilder';
+import { weightName } from '@/lib/font/Variations';
+import { italicStyleName } from '@/lib/font/FontInfo';
+import { downloadWebKit } from '@/lib/font/WebKit';
+import { getStylisticSetTag } from '@/lib/font/GlyphSubstitution';
+import {
+  ALL_CHARACTERS,
+  REQUIRED_CHARACTERS,
+  WEIGHT_CLASSES,
+  WIDTH_CLASSES,
+} from '@/lib/constants/characters';
 import {
   Home,
   Download,
@@ -15,13 +36,33 @@ import {
   Settings,
   Check,
   AlertTriangle,
+  Globe,
+  Shuffle,
+  FoldHorizontal,
+  Grid3x3,
 } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
+import type { FontMetadata, SlantOutput } from '@/types';
+
+type MetadataTextField = Exclude<keyof FontMetadata, 'weightClass' | 'widthClass'>;
 
-type ExportFormat = 'otf' | 'ttf';
+// Free-text metadata written to the name table (vendor ID goes to OS/2)
+const METADATA_FIELDS: Array<{ key: MetadataTextField; label: string; placeholder?: string; multiline?: boolean }> = [
+  { key: 'version', label: 'Version', placeholder: '1.000' },
+  { key: 'vendorId', label: 'Vendor ID', placeholder: '4 letters, e.g. ABCD' },
+  { key: 'designer', label: 'Designer' },
+  { key: 'designerUrl', label: 'Designer URL', placeholder: 'https://' },
+  { key: 'manufacturer', label: 'Manufacturer' },
+  { key: 'vendorUrl', label: 'Vendor URL', placeholder: 'https://' },
+  { key: 'copyright', label: 'Copyright', placeholder: '© Your Name' },
+  { key: 'trademark', label: 'Trademark' },
+  { key: 'license', label: 'License', placeholder: 'e.g. SIL Open Font License 1.1', multiline: true },
+  { key: 'licenseUrl', label: 'License URL', placeholder: 'https://' },
+  { key: 'description', label: 'Description', multiline: true },
+];
 
 export default function PreviewPage() {
-  const { settings, setSettings, glyphs, ligatures } = useFontStore();
+  const { settings, setSettings, setMetadata, setStylisticSetName, glyphs, ligatures, kerning } = useFontStore();
   const [sampleText, setSampleText] = useState(
     'A B C D E F G H I J K L M N O P Q R S T U V W X Y Z\na b c d e f g h i j k l m n o p q r s t u v w x y z\n0 1 2 3 4 5 6 7 8 9 ! @ # $ % ^ & * ( )'
   );
@@ -29,6 +70,34 @@ export default function PreviewPage() {
   const [showSettings, setShowSettings] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [fontDataUrl, setFontDataUrl] = useState<string | null>(null);
+  const [enabledSets, setEnabledSets] = useState<number[]>([]);
+  // Browsers shaping with HarfBuzz randomize by default; the toggle turns it off
+  const [randomize, setRandomize] = useState(true);
+  // Position on the weight axis of a variable font; null follows the default master
+  const [previewWeight, setPreviewWeight] = useState<number | null>(null);
+  // Degrees leaned right on the slant axis of a variable font
+  const [previewSlant, setPreviewSlant] = useState(0);
+
+  // Stylistic sets that have at least one alternate assigned
+  const usedStylisticSets = useMemo(() => {
+    const sets = new Set<number>();
+    for (const glyph of Object.values(glyphs)) {
+      for (const alternate of glyph.alternates ?? []) {
+        if (alternate.stylisticSet) sets.add(alternate.stylisticSet);
+      }
+    }
+    return Array.from(sets).sort((a, b) => a - b);
+  }, [glyphs]);
+
+  const hasRandomAlternates = Object.values(glyphs).some((glyph) =>
+    glyph.alternates?.some((alternate) => alternate.random && !alternate.stylisticSet)
+  );
+
+  const fontFeatureSettings =
+    [
+      ...enabledSets.filter((set) => usedStylisticSets.includes(set)).map((set) => `"${getStylisticSetTag(set)}"`),
+      ...(randomize ? [] : ['"rand" 0']),
+    ].join(', ') || 'normal';
 
   // Progress calculation
   const completedCount = Object.values(glyphs).filter((g) => g.isComplete).length;
@@ -39,16 +108,42 @@ export default function PreviewPage() {
   const canExport = requiredCompletedCount >= Math.floor(requiredTotal * 0.5); // At least 50% of required
 
   // Build font preview
-  const font = useMemo(() => {
+  const { font, buildError } = useMemo(() => {
     try {
-      return buildFont(settings, glyphs, ligatures);
+      return { font: buildFont(settings, glyphs, ligatures, kerning), buildError: null };
     } catch (error) {
       console.error('Failed to build font:', error);
-      return null;
+      return {
+        font: null,
+        buildError: error instanceof Error ? error.message : 'Failed to build font',
+      };
     }
-  }, [settings, glyphs, ligatures]);
+  }, [settings, glyphs, ligatures, kerning]);
+
+  // Points removed by outline cleanup across the whole font
+  const cleanupSummary = useMemo(() => {
+    const report = font ? getCleanupReport(font) : [];
+    return {
+      glyphCount: report.length,
+      removed: report.reduce((sum, entry) => sum + entry.pointsBefore - entry.pointsAfter, 0),
+    };
+  }, [font]);
 
-  // Generate font data URL for CSS @font-face
+  // Weight axis, when monoline glyphs are swept at several pen widths, and slant axis
+  const variableInfo = useMemo(() => (font ? getVariableFontInfo(font) : null), [font]);
+  const weightRange = variableInfo?.weight ?? null;
+  const weight = weightRange
+    ? Math.min(weightRange.max, Math.max(weightRange.min, previewWeight ?? weightRange.default))
+    : null;
+  const slantRange = variableInfo?.slant ?? null;
+  const slant = slantRange ? Math.min(-slantRange.min, Math.max(0, previewSlant)) : null;
+  const fontVariationSettings =
+    [
+      ...(weight !== null ? [`"wght" ${weight}`] : []),
+      ...(slant !== null ? [`"slnt" ${-slant}`] : []),
+    ].join(', ') || undefined;
+
+  // Generate font data URL for CSS @font-face (the axis is only in the TrueType export)
   useEffect(() => {
     if (!font) {
       setFontDataUrl(null);
@@ -56,8 +151,9 @@ export default function PreviewPage() {
     }
 
     try {
-      const arrayBuffer = font.toArrayBuffer();
-      const blob = new Blob([arrayBuffer], { type: 'font/opentype' });
+      const variable = getVariableFontInfo(font) !== null;
+      const arrayBuffer = variable ? exportAsTTF(font) : exportAsOTF(font);
+      const blob = new Blob([arrayBuffer], { type: variable ? 'font/ttf' : 'font/opentype' });
       const url = URL.createObjectURL(blob);
       setFontDataUrl(url);
 
@@ -69,12 +165,12 @@ export default function PreviewPage() {
   }, [font]);
 
   const handleExport = useCallback(
-    async (format: ExportFormat) => {
+    async (format: FontExportFormat) => {
       if (!font) return;
 
       setIsExporting(true);
       try {
-        downloadFont(font, settings.familyName.replace(/\s+/g, '-'), format);
+        await downloadFont(font, settings.familyName.replace(/\s+/g, '-'), format);
       } catch (error) {
         console.error('Export failed:', error);
       } finally {
@@ -89,6 +185,19 @@ export default function PreviewPage() {
     setTimeout(() => handleExport('ttf'), 500);
   }, [handleExport]);
 
+  const handleExportWebKit = useCallback(async () => {
+    if (!font) return;
+
+    setIsExporting(true);
+    try {
+      await downloadWebKit(font, settings);
+    } catch (error) {
+      console.error('Web kit export failed:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [font, settings]);
+
   return (
     <div className="min-h-screen bg-neutral-50">
       {/* Custom font style */}
@@ -96,7 +205,7 @@ export default function PreviewPage() {
         <style>{`
           @font-face {
             font-family: 'PreviewFont';
-            src: url('${fontDataUrl}') format('opentype');
+            src: url('${fontDataUrl}') format('${variableInfo ? 'truetype' : 'opentype'}');
           }
         `}</style>
       )}
@@ -118,6 +227,8 @@ export default function PreviewPage() {
             </div>
 
             <div className="flex items-center gap-4">
+              <HistoryPanel />
+              <ProjectSwitcher />
               <Link href="/ligatures">
                 <Button variant="outline">
                   <ArrowLeft className="mr-2 w-4 h-4" />
@@ -159,6 +270,8 @@ export default function PreviewPage() {
                 style={{
                   fontFamily: fontDataUrl ? 'PreviewFont, serif' : 'serif',
                   fontSize: `${fontSize}px`,
+                  fontFeatureSettings,
+                  fontVariationSettings,
                   lineHeight: 1.5,
                   whiteSpace: 'pre-wrap',
                   wordBreak: 'break-word',
@@ -180,8 +293,123 @@ export default function PreviewPage() {
                   placeholder="Type text to preview your font..."
                 />
               </div>
+
+              {/* Weight and slant axes */}
+              {variableInfo && (
+                <div className="mt-4 pt-4 border-t border-neutral-200 space-y-2">
+                  {weightRange && weight !== null && (
+                    <div className="flex items-center gap-4">
+                      <span className="text-sm font-medium text-neutral-700 w-14">Weight</span>
+                      <Slider
+                        value={[weight]}
+                        onValueChange={(v) => setPreviewWeight(v[0])}
+                        min={weightRange.min}
+                        max={weightRange.max}
+                        step={1}
+                        className="flex-1"
+                      />
+                      <span className="text-sm text-neutral-600 w-28 text-right">
+                        {weight} {weightName(weight) !== String(weight) && `(${weightName(weight)})`}
+                      </span>
+                    </div>
+                  )}
+                  {slantRange && slant !== null && (
+                    <div className="flex items-center gap-4">
+                      <span className="text-sm font-medium text-neutral-700 w-14">Slant</span>
+                      <Slider
+                        value={[slant]}
+                        onValueChange={(v) => setPreviewSlant(v[0])}
+                        min={0}
+                        max={-slantRange.min}
+                        step={0.5}
+                        className="flex-1"
+                      />
+                      <span className="text-sm text-neutral-600 w-28 text-right">{slant}°</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-neutral-500 font-mono">
+                    font-variation-settings: {fontVariationSettings};
+                  </p>
+                </div>
+              )}
+
+              {/* Stylistic sets and randomization */}
+              {(usedStylisticSets.length > 0 || hasRandomAlternates) && (
+                <div className="mt-4 pt-4 border-t border-neutral-200">
+                  <h3 className="text-sm font-medium text-neutral-700 mb-2">Alternate Features</h3>
+                  <div className="space-y-2">
+                    {usedStylisticSets.map((set) => (
+                      <div key={set} className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 cursor-pointer w-20">
+                          <input
+                            type="checkbox"
+                            checked={enabledSets.includes(set)}
+                            onChange={(e) =>
+                              setEnabledSets(
+                                e.target.checked ? [...enabledSets, set] : enabledSets.filter((s) => s !== set)
+                              )
+                            }
+                            className="w-4 h-4 rounded border-neutral-300"
+                          />
+                          <span className="text-sm font-mono text-neutral-700">{getStylisticSetTag(set)}</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={settings.stylisticSetNames[set] ?? ''}
+                          onChange={(e) => setStylisticSetName(set, e.target.value)}
+                          placeholder="Set name, e.g. Messy"
+                          className="flex-1 px-3 py-1 text-sm border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-900"
+                        />
+                      </div>
+                    ))}
+                    {hasRandomAlternates && (
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={randomize}
+                          onChange={(e) => setRandomize(e.target.checked)}
+                          className="w-4 h-4 rounded border-neutral-300"
+                        />
+                        <Shuffle className="w-4 h-4 text-neutral-500" />
+                        <span className="text-sm text-neutral-700">Randomize alternates (rand)</span>
+                      </label>
+                    )}
+                  </div>
+                  <p className="mt-2 text-xs text-neutral-500 font-mono">
+                    font-feature-settings: {fontFeatureSettings};
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Kerning */}
+            <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-6">
+              <h2 className="font-medium text-neutral-900 flex items-center gap-2 mb-4">
+                <FoldHorizontal className="w-5 h-5" />
+                Kerning
+              </h2>
+              <KerningEditor
+                fontFamily={fontDataUrl ? 'PreviewFont' : null}
+                fontVariationSettings={fontVariationSettings}
+              />
             </div>
 
+            {/* Small sizes */}
+            {font && (
+              <div className="bg-white rounded-lg border border-neutral-200 p-6 mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="font-medium text-neutral-900 flex items-center gap-2">
+                    <Grid3x3 className="w-5 h-5" />
+                    Small Sizes
+                  </h2>
+                  <span className="text-sm text-neutral-500">
+                    TrueType exports are {settings.hinting ? 'hinted' : 'not hinted'}
+                  </span>
+                </div>
+                <HintingComparison font={font} />
+              </div>
+            )}
+
             {/* Missing characters warning */}
             {requiredCompletedCount < requiredTotal && (
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
@@ -243,6 +471,244 @@ export default function PreviewPage() {
                     />
                   </div>
 
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.cursive}
+                      onChange={(e) => setSettings({ cursive: e.target.checked })}
+                      className="w-4 h-4 rounded border-neutral-300"
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-neutral-700">Connected script</div>
+                      <div className="text-xs text-neutral-500">
+                        Joins letters through their entry and exit anchors (set them on the draw page)
+                      </div>
+                    </div>
+                  </label>
+
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.cleanupOutlines}
+                      onChange={(e) => setSettings({ cleanupOutlines: e.target.checked })}
+                      className="w-4 h-4 rounded border-neutral-300"
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-neutral-700">Clean up outlines</div>
+                      <div className="text-xs text-neutral-500">
+                        {settings.cleanupOutlines && cleanupSummary.glyphCount > 0
+                          ? `Removed ${cleanupSummary.removed} points from ${cleanupSummary.glyphCount} glyphs`
+                          : 'Removes redundant points, merges short segments into curves and adds extrema'}
+                      </div>
+                    </div>
+                  </label>
+
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.hinting}
+                      onChange={(e) => setSettings({ hinting: e.target.checked })}
+                      className="w-4 h-4 rounded border-neutral-300"
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-neutral-700">Hinting</div>
+                      <div className="text-xs text-neutral-500">
+                        Fits TrueType exports to the pixel grid so small text stays sharp (TTF and WOFF exports)
+                      </div>
+                    </div>
+                  </label>
+
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.variableWeight}
+                      onChange={(e) => setSettings({ variableWeight: e.target.checked })}
+                      className="w-4 h-4 rounded border-neutral-300"
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-neutral-700">Variable weight</div>
+                      <div className="text-xs text-neutral-500">
+                        {settings.variableWeight && variableInfo
+                          ? `${variableInfo.variableGlyphs} glyphs vary along the wght axis` +
+                            (variableInfo.incompatibleGlyphs.length > 0
+                              ? `; ${variableInfo.incompatibleGlyphs.length} stay static (masters do not match)`
+                              : '')
+                          : 'Sweeps monoline glyphs with each pen width below (TTF and WOFF exports)'}
+                      </div>
+                    </div>
+                  </label>
+
+                  {settings.variableWeight && (
+                    <div className="pl-7 space-y-2">
+                      {settings.weightMasters.map((master, i) => (
+                        <div key={i} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="number"
+                            value={master.weight}
+                            min={1}
+                            max={1000}
+                            onChange={(e) =>
+                              setSettings({
+                                weightMasters: settings.weightMasters.map((m, j) =>
+                                  j === i ? { ...m, weight: Number(e.target.value) } : m
+                                ),
+                              })
+                            }
+                            className="w-20 px-2 py-1 border border-neutral-300 rounded-md"
+                            aria-label="Weight"
+                          />
+                          <span className="text-neutral-500">weight, pen</span>
+                          <input
+                            type="number"
+                            value={master.penWidth}
+                            min={1}
+                            onChange={(e) =>
+                              setSettings({
+                                weightMasters: settings.weightMasters.map((m, j) =>
+                                  j === i ? { ...m, penWidth: Number(e.target.value) } : m
+                                ),
+                              })
+                            }
+                            className="w-20 px-2 py-1 border border-neutral-300 rounded-md"
+                            aria-label="Pen width"
+                          />
+                          <span className="text-neutral-500">units</span>
+                          <button
+                            onClick={() =>
+                              setSettings({ weightMasters: settings.weightMasters.filter((_, j) => j !== i) })
+                            }
+                            disabled={settings.weightMasters.length <= 2}
+                            className="ml-auto text-xs text-neutral-500 hover:text-neutral-900 disabled:opacity-40"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => {
+                          const last = settings.weightMasters[settings.weightMasters.length - 1];
+                          setSettings({
+                            weightMasters: [
+                              ...settings.weightMasters,
+                              { weight: Math.min(1000, (last?.weight ?? 400) + 100), penWidth: (last?.penWidth ?? 60) + 20 },
+                            ],
+                          });
+                        }}
+                        className="text-xs text-neutral-600 hover:text-neutral-900 underline"
+                      >
+                        Add master
+                      </button>
+                    </div>
+                  )}
+
+                  <div className="pt-2 border-t border-neutral-200 space-y-3">
+                    <h3 className="text-sm font-medium text-neutral-700">Italic</h3>
+                    <div>
+                      <label className="block text-xs font-medium text-neutral-600 mb-1">Slanted version</label>
+                      <select
+                        value={settings.slant.output}
+                        onChange={(e) =>
+                          setSettings({ slant: { ...settings.slant, output: e.target.value as SlantOutput } })
+                        }
+                        className="w-full px-2 py-2 text-sm border border-neutral-300 rounded-lg bg-white"
+                      >
+                        <option value="none">None (upright only)</option>
+                        <option value="italic">Italic style (exported as {italicStyleName(settings.styleName)})</option>
+                        <option value="axis">Slant axis (slnt, TTF and WOFF exports)</option>
+                      </select>
+                    </div>
+                    {settings.slant.output !== 'none' && (
+                      <>
+                        <div className="flex items-center gap-3">
+                          <span className="text-xs font-medium text-neutral-600 w-10">Angle</span>
+                          <Slider
+                            value={[settings.slant.angle]}
+                            onValueChange={(v) => setSettings({ slant: { ...settings.slant, angle: v[0] } })}
+                            min={1}
+                            max={30}
+                            step={0.5}
+                            className="flex-1"
+                          />
+                          <span className="text-xs text-neutral-600 w-10 text-right">{settings.slant.angle}°</span>
+                        </div>
+                        <label className="flex items-center gap-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={settings.slant.compensate}
+                            onChange={(e) => setSettings({ slant: { ...settings.slant, compensate: e.target.checked } })}
+                            className="w-4 h-4 rounded border-neutral-300"
+                          />
+                          <div>
+                            <div className="text-sm font-medium text-neutral-700">Compensate stroke weight</div>
+                            <div className="text-xs text-neutral-500">
+                              Widens slanted glyphs so stems stay as heavy as horizontal strokes
+                            </div>
+                          </div>
+                        </label>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="pt-2 border-t border-neutral-200 space-y-3">
+                    <h3 className="text-sm font-medium text-neutral-700">Naming & Licensing</h3>
+                    {METADATA_FIELDS.map((field) => (
+                      <div key={field.key}>
+                        <label className="block text-xs font-medium text-neutral-600 mb-1">
+                          {field.label}
+                        </label>
+                        {field.multiline ? (
+                          <textarea
+                            value={settings.metadata[field.key]}
+                            onChange={(e) => setMetadata({ [field.key]: e.target.value })}
+                            placeholder={field.placeholder}
+                            rows={2}
+                            className="w-full px-3 py-2 text-sm border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-900 resize-none"
+                          />
+                        ) : (
+                          <input
+                            type="text"
+                            value={settings.metadata[field.key]}
+                            onChange={(e) => setMetadata({ [field.key]: e.target.value })}
+                            placeholder={field.placeholder}
+                            maxLength={field.key === 'vendorId' ? 4 : undefined}
+                            className="w-full px-3 py-2 text-sm border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-900"
+                          />
+                        )}
+                      </div>
+                    ))}
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-neutral-600 mb-1">Weight</label>
+                        <select
+                          value={settings.metadata.weightClass}
+                          onChange={(e) => setMetadata({ weightClass: Number(e.target.value) })}
+                          className="w-full px-2 py-2 text-sm border border-neutral-300 rounded-lg bg-white"
+                        >
+                          {WEIGHT_CLASSES.map((w) => (
+                            <option key={w.value} value={w.value}>
+                              {w.value} {w.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-neutral-600 mb-1">Width</label>
+                        <select
+                          value={settings.metadata.widthClass}
+                          onChange={(e) => setMetadata({ widthClass: Number(e.target.value) })}
+                          className="w-full px-2 py-2 text-sm border border-neutral-300 rounded-lg bg-white"
+                        >
+                          {WIDTH_CLASSES.map((w) => (
+                            <option key={w.value} value={w.value}>
+                              {w.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+
                   <div className="pt-2 border-t border-neutral-200">
                     <h3 className="text-sm font-medium text-neutral-700 mb-2">Metrics</h3>
                     <div className="grid grid-cols-2 gap-3 text-sm">
@@ -262,6 +728,10 @@ export default function PreviewPage() {
                         <span className="text-neutral-500">Cap Height:</span>
                         <span className="ml-2">{settings.metrics.capHeight}</span>
                       </div>
+                      <div>
+                        <span className="text-neutral-500">x-Height:</span>
+                        <span className="ml-2">{settings.metrics.xHeight}</span>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -294,7 +764,7 @@ export default function PreviewPage() {
                 <Button
                   className="w-full"
                   onClick={() => handleExport('otf')}
-                  disabled={!canExport || isExporting}
+                  disabled={!canExport || !font || isExporting}
                 >
                   <Download className="w-4 h-4 mr-2" />
                   Download OTF
@@ -303,7 +773,7 @@ export default function PreviewPage() {
                   className="w-full"
                   variant="outline"
                   onClick={() => handleExport('ttf')}
-                  disabled={!canExport || isExporting}
+                  disabled={!canExport || !font || isExporting}
                 >
                   <Download className="w-4 h-4 mr-2" />
                   Download TTF
@@ -312,13 +782,54 @@ export default function PreviewPage() {
                   className="w-full"
                   variant="secondary"
                   onClick={handleExportBoth}
-                  disabled={!canExport || isExporting}
+                  disabled={!canExport || !font || isExporting}
                 >
                   <Download className="w-4 h-4 mr-2" />
                   Download Both
                 </Button>
+                <div className="grid grid-cols-2 gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleExport('woff2')}
+                    disabled={!canExport || !font || isExporting}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    WOFF2
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleExport('woff')}
+                    disabled={!canExport || !font || isExporting}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    WOFF
+                  </Button>
+                </div>
+                <Button
+                  className="w-full"
+                  variant="secondary"
+                  onClick={handleExportWebKit}
+                  disabled={!canExport || !font || isExporting}
+                >
+                  <Globe className="w-4 h-4 mr-2" />
+                  Download Web Kit
+                </Button>
               </div>
 
+              <p className="text-xs text-neutral-500 mt-3">
+                <strong>OTF</strong> uses PostScript (CFF) curves, preferred by design apps.{' '}
+                <strong>TTF</strong> uses TrueType curves, the safest choice for Office and Windows.{' '}
+                <strong>WOFF2/WOFF</strong> are compressed for websites; the web kit adds a ready-made
+                @font-face stylesheet and demo page.
+              </p>
+
+              {buildError && (
+                <div className="mt-4 p-3 bg-red-50 rounded-lg flex items-start gap-2 text-red-700 text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  {buildError}
+                </div>
+              )}
+
               {!canExport && (
                 <p className="text-xs text-neutral-500 mt-3 text-center">
                   Complete at least 50% of required characters to export.
@@ -326,7 +837,7 @@ export default function PreviewPage() {
               )}
 
               {/* Success indicator */}
-              {canExport && (
+              {canExport && font && (
                 <div className="mt-4 p-3 bg-green-50 rounded-lg flex items-center gap-2 text-green-700 text-sm">
                   <Check className="w-4 h-4" />
                   Ready to export!
@@ -0,0 +1,222 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ProjectThumbnail } from '@/components/projects/ProjectThumbnail';
+import { useFontStore } from '@/stores/fontStore';
+import { downloadBlob } from '@/lib/font/FontBuilder';
+import { ARCHIVE_EXTENSION } from '@/lib/storage/ProjectArchive';
+import { Home, Plus, Copy, Pencil, Trash2, Check, ArrowRight, Download, Upload, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export default function ProjectsPage() {
+  const router = useRouter();
+  const {
+    projectId,
+    projects,
+    createProject,
+    duplicateProject,
+    renameProject,
+    deleteProject,
+    openProject,
+    exportProject,
+    importProject,
+  } = useFontStore();
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Most recently edited first
+  const sorted = [...projects].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const handleCreate = async () => {
+    await createProject(newName.trim() || 'Untitled');
+    setNewName('');
+    router.push('/edit');
+  };
+
+  const handleOpen = async (id: string) => {
+    await openProject(id);
+    router.push('/edit');
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    if (name) await renameProject(renaming.id, name);
+    setRenaming(null);
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(`Delete "${name}"? Its glyphs, ligatures, kerning and scans are removed for good.`)) return;
+    await deleteProject(id);
+  };
+
+  const handleExport = async (id: string, name: string) => {
+    const fileName = name.replace(/\s+/g, '-').replace(/[^A-Za-z0-9_-]/g, '') || 'project';
+    downloadBlob(await exportProject(id), `${fileName}${ARCHIVE_EXTENSION}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      await importProject(new Uint8Array(await file.arrayBuffer()), file.name);
+      router.push('/edit');
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import project');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-neutral-600 hover:text-neutral-900">
+              <Home className="w-5 h-5" />
+            </Link>
+            <div>
+              <h1 className="font-semibold text-neutral-900">Projects</h1>
+              <p className="text-sm text-neutral-500">
+                {projects.length} {projects.length === 1 ? 'font' : 'fonts'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        {/* New project */}
+        <div className="flex items-center gap-3 mb-8">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New project name, e.g. Cursive"
+            className="w-72 px-3 py-2 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-900"
+          />
+          <Button onClick={handleCreate}>
+            <Plus className="mr-2 w-4 h-4" />
+            New Project
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${ARCHIVE_EXTENSION},application/zip`}
+            onChange={handleImport}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 w-4 h-4" />
+            Import
+          </Button>
+        </div>
+
+        {importError && (
+          <div className="flex items-start gap-2 mb-8 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {importError}
+          </div>
+        )}
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {sorted.map((project) => {
+            const isOpen = project.id === projectId;
+            return (
+              <div
+                key={project.id}
+                className={cn(
+                  'bg-white rounded-lg border p-4 flex flex-col gap-3',
+                  isOpen ? 'border-neutral-900' : 'border-neutral-200'
+                )}
+              >
+                <button
+                  onClick={() => handleOpen(project.id)}
+                  className="h-24 p-3 bg-neutral-50 rounded-lg border border-neutral-200 text-neutral-900 hover:border-neutral-400"
+                  title="Open"
+                >
+                  <ProjectThumbnail thumbnail={project.thumbnail} className="w-full h-full" />
+                </button>
+
+                {renaming?.id === project.id ? (
+                  <input
+                    type="text"
+                    value={renaming.name}
+                    autoFocus
+                    onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                    onBlur={handleRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="px-2 py-1 border border-neutral-300 rounded-md focus:outline-none focus:ring-2 focus:ring-neutral-900"
+                  />
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <h2 className="font-medium text-neutral-900 truncate">{project.name}</h2>
+                    {isOpen && (
+                      <span className="flex items-center gap-1 text-xs text-neutral-500">
+                        <Check className="w-3 h-3" />
+                        Open
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                <Progress value={project.completion} />
+                <p className="text-xs text-neutral-500">
+                  {project.completion}% of required characters · edited {new Date(project.updatedAt).toLocaleDateString()}
+                </p>
+
+                <div className="flex items-center gap-2 mt-auto">
+                  <Button size="sm" variant={isOpen ? 'outline' : 'default'} onClick={() => handleOpen(project.id)}>
+                    {isOpen ? 'Continue' : 'Open'}
+                    <ArrowRight className="ml-1 w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setRenaming({ id: project.id, name: project.name })}
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => duplicateProject(project.id)} title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleExport(project.id, project.name)}
+                    title={`Export as ${ARCHIVE_EXTENSION} file`}
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(project.id, project.name)}
+                    disabled={projects.length <= 1}
+                    title={projects.length <= 1 ? 'The only project cannot be deleted' : 'Delete'}
+                    className="ml-auto text-neutral-500 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
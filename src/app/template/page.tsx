@@ -5,16 +5,22 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { downloadTemplate, getTemplateDataUrl } from '@/lib/template/TemplateGenerator';
-import { ALL_CHARACTERS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import {
+  ALL_CHARACTERS,
+  REQUIRED_CHARACTERS,
+  ALTERNATE_CHARACTERS,
+  ALTERNATE_TEMPLATE_COPIES,
+  getTemplateCharacters,
+  type TemplateCharacterSet,
+} from '@/lib/constants/characters';
 import { Home, Download, FileText, Printer, ArrowRight } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 
 type PageSize = 'letter' | 'a4';
-type CharacterSet = 'required' | 'all';
 
 export default function TemplatePage() {
   const [pageSize, setPageSize] = useState<PageSize>('letter');
-  const [characterSet, setCharacterSet] = useState<CharacterSet>('required');
+  const [characterSet, setCharacterSet] = useState<TemplateCharacterSet>('required');
   const [cellsPerRow, setCellsPerRow] = useState(8);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [includeGuides, setIncludeGuides] = useState(true);
@@ -22,9 +28,7 @@ export default function TemplatePage() {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
 
-  const characterCount = characterSet === 'required'
-    ? REQUIRED_CHARACTERS.length
-    : ALL_CHARACTERS.length;
+  const characterCount = getTemplateCharacters(characterSet).length;
 
   const cellsPerPage = cellsPerRow * rowsPerPage;
   const totalPages = Math.ceil(characterCount / cellsPerPage);
@@ -208,6 +212,20 @@ export default function TemplatePage() {
                     {ALL_CHARACTERS.length} characters - includes accents and symbols
                   </div>
                 </button>
+                <button
+                  onClick={() => setCharacterSet('alternates')}
+                  className={cn(
+                    'w-full p-4 rounded-lg border-2 text-left transition-colors',
+                    characterSet === 'alternates'
+                      ? 'border-neutral-900 bg-neutral-50'
+                      : 'border-neutral-200 hover:border-neutral-300'
+                  )}
+                >
+                  <div className="font-medium text-neutral-900">Alternates</div>
+                  <div className="text-sm text-neutral-500">
+                    {ALTERNATE_CHARACTERS.length} cells - a-z written {ALTERNATE_TEMPLATE_COPIES} times each, for natural variation
+                  </div>
+                </button>
               </div>
             </div>
 
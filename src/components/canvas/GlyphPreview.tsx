@@ -2,15 +2,28 @@
 
 import React, { useMemo } from 'react';
 import type { Path } from 'opentype.js';
+import type { AnchorPoint } from '@/types';
 import { cn } from '@/lib/utils/cn';
 
+export interface AnchorMarker {
+  name: string;
+  point: AnchorPoint;
+  placed: boolean; // false for guessed positions, drawn hollow
+  active?: boolean;
+}
+
 interface GlyphPreviewProps {
   path: Path | null;
+  // Second outline drawn over the first, which fades, to compare the two
+  overlayPath?: Path | null;
   width?: number;
   height?: number;
   showGuides?: boolean;
   className?: string;
   guideCharacter?: string;
+  anchors?: AnchorMarker[];
+  // Called with the clicked position in font units
+  onPlaceAnchor?: (point: AnchorPoint) => void;
 }
 
 /**
@@ -18,11 +31,14 @@ interface GlyphPreviewProps {
  */
 export function GlyphPreview({
   path,
+  overlayPath,
   width = 400,
   height = 400,
   showGuides = true,
   className,
   guideCharacter,
+  anchors,
+  onPlaceAnchor,
 }: GlyphPreviewProps) {
   // Convert opentype.js path to SVG path string
   const svgPathData = useMemo(() => {
@@ -63,6 +79,8 @@ export function GlyphPreview({
     }
   }, [path]);
 
+  const overlayPathData = useMemo(() => overlayPath?.toPathData(2) ?? '', [overlayPath]);
+
   // Calculate bounding box for proper scaling
   const viewBox = useMemo(() => {
     if (!path || !path.getBoundingBox) {
@@ -72,6 +90,15 @@ export function GlyphPreview({
 
     try {
       const bbox = path.getBoundingBox();
+      // Keep anchors and the overlay that lie outside the outline in view
+      for (const anchor of anchors ?? []) {
+        bbox.addPoint(anchor.point.x, anchor.point.y);
+      }
+      if (overlayPath?.commands.length) {
+        const overlay = overlayPath.getBoundingBox();
+        bbox.addPoint(overlay.x1, overlay.y1);
+        bbox.addPoint(overlay.x2, overlay.y2);
+      }
       const padding = 50;
       return {
         x: bbox.x1 - padding,
@@ -82,7 +109,22 @@ export function GlyphPreview({
     } catch {
       return { x: 0, y: -800, width: 1000, height: 1000 };
     }
-  }, [path]);
+  }, [path, anchors, overlayPath]);
+
+  // Convert a click to font units (the SVG is scaled to fit and flipped vertically)
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onPlaceAnchor) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / viewBox.width, rect.height / viewBox.height);
+    const offsetX = (rect.width - viewBox.width * scale) / 2;
+    const offsetY = (rect.height - viewBox.height * scale) / 2;
+    onPlaceAnchor({
+      x: viewBox.x + (e.clientX - rect.left - offsetX) / scale,
+      y: viewBox.y + (rect.bottom - e.clientY - offsetY) / scale,
+    });
+  };
+
+  const markerSize = Math.max(viewBox.width, viewBox.height) * 0.02;
 
   // Guide line positions (in font units, assuming 1000 unitsPerEm)
   const guides = {
@@ -115,8 +157,9 @@ export function GlyphPreview({
         width={width}
         height={height}
         viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
-        className="absolute inset-0"
+        className={cn('absolute inset-0', onPlaceAnchor && 'cursor-crosshair')}
         style={{ transform: 'scaleY(-1)' }} // Flip Y axis (font coordinates are Y-up)
+        onClick={handleClick}
       >
         {/* Guide lines */}
         {showGuides && (
@@ -168,10 +211,44 @@ export function GlyphPreview({
           <path
             d={svgPathData}
             fill="black"
+            fillOpacity={overlayPathData ? 0.25 : 1}
             fillRule="nonzero"
             stroke="none"
           />
         )}
+
+        {/* Overlay outline */}
+        {overlayPathData && (
+          <path
+            d={overlayPathData}
+            fill="none"
+            stroke="#ef4444"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+
+        {/* Anchors */}
+        {anchors?.map((anchor) => (
+          <g key={anchor.name}>
+            <line
+              x1={anchor.point.x - markerSize * 1.5}
+              y1={anchor.point.y}
+              x2={anchor.point.x + markerSize * 1.5}
+              y2={anchor.point.y}
+              stroke={anchor.active ? '#ef4444' : '#f97316'}
+              strokeWidth={markerSize / 4}
+            />
+            <circle
+              cx={anchor.point.x}
+              cy={anchor.point.y}
+              r={markerSize}
+              fill={anchor.placed ? (anchor.active ? '#ef4444' : '#f97316') : 'white'}
+              stroke={anchor.active ? '#ef4444' : '#f97316'}
+              strokeWidth={markerSize / 4}
+            />
+          </g>
+        ))}
       </svg>
 
       {/* No path indicator */}
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { Path } from 'opentype.js';
+import { GlyphPreview } from '@/components/canvas/GlyphPreview';
+import { Button } from '@/components/ui/button';
+import { useFontStore } from '@/stores/fontStore';
+import type { GlyphRevision, RevisionSource } from '@/types';
+import { RotateCcw, X } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+type CompareSlot = 'a' | 'b';
+
+interface GlyphRevisionDrawerProps {
+  unicode: number;
+  onClose: () => void;
+}
+
+function describeSource(source: RevisionSource): string {
+  switch (source.type) {
+    case 'drawn':
+      return 'Drawn';
+    case 'scan':
+      return source.page ? `Scan page ${source.page}` : 'Scan';
+    case 'imported':
+      return `Imported from ${source.fileName}`;
+    case 'restored':
+      return `Restored from ${new Date(source.time).toLocaleString()}`;
+  }
+}
+
+function samePath(a: Path | null | undefined, b: Path | null | undefined): boolean {
+  return Boolean(a && b) && a!.toPathData(2) === b!.toPathData(2);
+}
+
+/**
+ * Every saved version of a glyph, newest first: two of them are overlaid
+ * (A filled, B outlined in red) and either can be restored
+ */
+export function GlyphRevisionDrawer({ unicode, onClose }: GlyphRevisionDrawerProps) {
+  const glyph = useFontStore((state) => state.glyphs[unicode]);
+  const getGlyphRevisions = useFontStore((state) => state.getGlyphRevisions);
+  const restoreGlyphRevision = useFontStore((state) => state.restoreGlyphRevision);
+  const [revisions, setRevisions] = useState<GlyphRevision[]>([]);
+  const [selected, setSelected] = useState<Record<CompareSlot, string | null>>({ a: null, b: null });
+
+  // Saving or restoring the glyph adds a revision
+  useEffect(() => {
+    let cancelled = false;
+    getGlyphRevisions(unicode)
+      .then((loaded) => {
+        if (!cancelled) setRevisions([...loaded].reverse());
+      })
+      .catch((error) => console.error('Failed to load revisions:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [unicode, glyph, getGlyphRevisions]);
+
+  // Until picked, the newest revision is compared with the one before it
+  const a = revisions.find((revision) => revision.id === selected.a) ?? revisions[0];
+  const b = revisions.find((revision) => revision.id === selected.b) ?? revisions[1];
+
+  const restore = (revision: GlyphRevision) => {
+    restoreGlyphRevision(revision);
+    setSelected({ a: null, b: null });
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-black/20" onClick={onClose} />
+      <aside className="fixed inset-y-0 right-0 z-50 w-96 flex flex-col bg-white border-l border-neutral-200 shadow-xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200">
+          <h2 className="font-semibold text-neutral-900">
+            Versions of “{glyph?.character ?? String.fromCodePoint(unicode)}”
+          </h2>
+          <Button variant="ghost" size="icon" onClick={onClose} title="Close">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="p-4 text-sm text-neutral-500">
+            No versions saved yet. Every drawing or scan saved for this glyph is kept here.
+          </p>
+        ) : (
+          <>
+            {/* Comparison */}
+            <div className="p-4 border-b border-neutral-200 flex flex-col items-center gap-3">
+              <GlyphPreview path={a?.path ?? null} overlayPath={b && b !== a ? b.path : null} width={240} height={240} />
+              <div className="w-full grid grid-cols-2 gap-2">
+                {([
+                  ['a', a],
+                  ['b', b],
+                ] as Array<[CompareSlot, GlyphRevision | undefined]>).map(([slot, revision]) => (
+                  <div key={slot} className="flex flex-col gap-1 text-xs">
+                    <span className={cn('font-medium', slot === 'a' ? 'text-neutral-900' : 'text-red-500')}>
+                      {slot === 'a' ? 'A (filled)' : 'B (outline)'}
+                    </span>
+                    <span className="text-neutral-500 truncate">
+                      {revision ? describeSource(revision.source) : 'Pick a version'}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revision && restore(revision)}
+                      disabled={!revision || samePath(revision.path, glyph?.path)}
+                    >
+                      <RotateCcw className="mr-1 w-3 h-3" />
+                      Restore {slot.toUpperCase()}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Every version, newest first */}
+            <ul className="flex-1 overflow-y-auto divide-y divide-neutral-100">
+              {revisions.map((revision) => (
+                <li key={revision.id} className="flex items-center gap-3 px-4 py-2">
+                  <GlyphPreview path={revision.path} width={48} height={48} showGuides={false} className="shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-neutral-900 truncate">{describeSource(revision.source)}</p>
+                    <p className="text-xs text-neutral-500">
+                      {new Date(revision.time).toLocaleString()}
+                      {samePath(revision.path, glyph?.path) && ' · current'}
+                    </p>
+                  </div>
+                  {(['a', 'b'] as CompareSlot[]).map((slot) => (
+                    <button
+                      key={slot}
+                      onClick={() => setSelected({ ...selected, [slot]: revision.id })}
+                      className={cn(
+                        'w-7 h-7 rounded-md border text-xs font-medium',
+                        (slot === 'a' ? a : b) === revision
+                          ? slot === 'a'
+                            ? 'bg-neutral-900 border-neutral-900 text-white'
+                            : 'bg-red-500 border-red-500 text-white'
+                          : 'border-neutral-200 text-neutral-600 hover:bg-neutral-100'
+                      )}
+                      title={`Compare as ${slot.toUpperCase()}`}
+                    >
+                      {slot.toUpperCase()}
+                    </button>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </aside>
+    </>
+  );
+}
@@ -86,7 +86,7 @@ export function MonolineDebugView({
     if (!result || !cellMask) return null;
 
     const { width, height } = cellMask;
-    const pathData = strokesToSvgPath(result.smoothedStrokes, true); // true = use quadratic curves
+    const pathData = strokesToSvgPath(result.smoothedStrokes, true); // true = fit smooth curves
 
     // Use 100% width/height so SVG scales with container, viewBox handles coordinate mapping
     return `
@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useFontStore, type HistoryEntry } from '@/stores/fontStore';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+interface HistoryRowProps {
+  label: string;
+  time?: number;
+  current?: boolean;
+  undone?: boolean;
+  onClick: () => void;
+}
+
+function HistoryRow({ label, time, current, undone, onClick }: HistoryRowProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-neutral-100',
+        current && 'bg-neutral-100 font-medium',
+        undone ? 'text-neutral-400' : 'text-neutral-900'
+      )}
+    >
+      <span className="truncate">{label}</span>
+      {time !== undefined && (
+        <span className="shrink-0 text-xs text-neutral-400">
+          {new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Undo and redo buttons, and the list of edits to the open project: picking
+ * one undoes or redoes everything up to it
+ */
+export function HistoryPanel() {
+  const { history, future, undo, redo } = useFontStore();
+  const [open, setOpen] = useState(false);
+
+  const lastEdit = history[history.length - 1];
+  const nextEdit = future[future.length - 1];
+
+  // Newest first: undone edits above the current state, then the ones it is made of
+  const undone = future.map((entry, i) => ({ entry, steps: future.length - i }));
+  const done = history.map((entry, i) => ({ entry, steps: history.length - 1 - i })).reverse();
+
+  const goTo = (go: () => void) => {
+    go();
+    setOpen(false);
+  };
+
+  const row = (entry: HistoryEntry, props: Omit<HistoryRowProps, 'label' | 'time'>) => (
+    <HistoryRow key={entry.id} label={entry.label} time={entry.time} {...props} />
+  );
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => undo()}
+        disabled={!lastEdit}
+        title={lastEdit ? `Undo ${lastEdit.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => redo()}
+        disabled={!nextEdit}
+        title={nextEdit ? `Redo ${nextEdit.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(!open)}
+        className={cn(open && 'bg-neutral-100')}
+        title="History"
+      >
+        <History className="w-4 h-4" />
+      </Button>
+
+      {open && (
+        <>
+          {/* Clicking anywhere else closes the list */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-72 max-h-96 overflow-y-auto py-1 bg-white border border-neutral-200 rounded-lg shadow-lg z-50">
+            {undone.map(({ entry, steps }) => row(entry, { undone: true, onClick: () => goTo(() => redo(steps)) }))}
+            {done.map(({ entry, steps }) =>
+              row(entry, { current: steps === 0, onClick: () => goTo(() => undo(steps)) })
+            )}
+            <HistoryRow
+              label="Start of history"
+              current={history.length === 0}
+              onClick={() => goTo(() => undo(history.length))}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
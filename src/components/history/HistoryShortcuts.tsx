@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useFontStore } from '@/stores/fontStore';
+
+/**
+ * Ctrl/Cmd+Z undoes the last edit to the font, Ctrl/Cmd+Shift+Z and
+ * Ctrl+Y redo it; text fields keep their own undo
+ */
+export function HistoryShortcuts() {
+  const undo = useFontStore((state) => state.undo);
+  const redo = useFontStore((state) => state.redo);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return null;
+}
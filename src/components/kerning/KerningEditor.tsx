@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useFontStore } from '@/stores/fontStore';
+import { classPairSides, findKerningPair, isKerningException } from '@/lib/font/Kerning';
+import { cn } from '@/lib/utils/cn';
+import type { KerningData, KerningPair } from '@/types';
+import { Search, Trash2 } from 'lucide-react';
+
+// Pair shown between straight and round neighbours, capitals then lowercase
+const CONTEXTS = [(pair: string) => `HH${pair}HH`, (pair: string) => `nn${pair}nn`];
+
+// Arrow keys move by this many font units; with Shift by the larger step, with Alt by one
+const NUDGE = 5;
+const BIG_NUDGE = 20;
+
+type KerningView = 'all' | 'class' | 'exceptions';
+
+// Kern the pair's classes, or the two glyphs alone as an exception to them
+type EditLevel = 'class' | 'exception';
+
+interface KerningEditorProps {
+  // CSS font family of the built font, null while there is none
+  fontFamily: string | null;
+  fontVariationSettings?: string;
+}
+
+function sideLabel(kerning: KerningData, side: number | string): string {
+  if (typeof side === 'number') return String.fromCodePoint(side);
+  const kerningClass = kerning.classes.find((c) => c.id === side);
+  return kerningClass ? `[${kerningClass.name}]` : side;
+}
+
+// A character a pair side stands for: the glyph, or the first member of the class
+function sideCharacter(kerning: KerningData, side: number | string): number | undefined {
+  return typeof side === 'number' ? side : kerning.classes.find((c) => c.id === side)?.members[0];
+}
+
+function sideMatches(kerning: KerningData, side: number | string, query: string): boolean {
+  if (typeof side === 'number') return String.fromCodePoint(side) === query;
+  const kerningClass = kerning.classes.find((c) => c.id === side);
+  return (
+    !!kerningClass &&
+    (kerningClass.name.toLowerCase().includes(query.toLowerCase()) ||
+      kerningClass.members.some((u) => String.fromCodePoint(u) === query))
+  );
+}
+
+/**
+ * Kerning workspace: a pair set in context, adjusted by dragging or with
+ * the arrow keys, and the list of kerning pairs. Changes go straight to the
+ * store, so the preview font is rebuilt as the pair moves.
+ */
+export function KerningEditor({ fontFamily, fontVariationSettings }: KerningEditorProps) {
+  const { settings, kerning, setKerningPair, removeKerningPair } = useFontStore();
+  const [pairText, setPairText] = useState('AV');
+  const [level, setLevel] = useState<EditLevel>('class');
+  const [fontSize, setFontSize] = useState(96);
+  const [view, setView] = useState<KerningView>('all');
+  const [search, setSearch] = useState('');
+  const drag = useRef<{ x: number; value: number } | null>(null);
+
+  const [leftChar, rightChar] = Array.from(pairText);
+  const left = leftChar?.codePointAt(0);
+  const right = rightChar?.codePointAt(0);
+  const hasPair = left !== undefined && right !== undefined;
+
+  const effective = hasPair ? findKerningPair(kerning, left, right) : undefined;
+  const classSides = hasPair ? classPairSides(kerning, left, right) : null;
+  const inClass = classSides !== null && (typeof classSides[0] === 'string' || typeof classSides[1] === 'string');
+  const editLevel: EditLevel = inClass ? level : 'class';
+  const sides: [number | string, number | string] | null =
+    hasPair && editLevel === 'exception' ? [left, right] : classSides;
+  const edited = sides && kerning.pairs.find((p) => p.left === sides[0] && p.right === sides[1]);
+  // A new exception starts from the kerning the pair has now
+  const value = edited?.value ?? (editLevel === 'exception' ? effective?.value ?? 0 : 0);
+
+  const setValue = (next: number) => {
+    if (!sides) return;
+    // Class kerning of zero is no kerning; an exception of zero still overrides its class
+    if (next === 0 && editLevel === 'class') removeKerningPair(sides[0], sides[1]);
+    else setKerningPair(sides[0], sides[1], next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const step = e.shiftKey ? BIG_NUDGE : e.altKey ? 1 : NUDGE;
+    setValue(value + (e.key === 'ArrowLeft' ? -step : step));
+  };
+
+  // Dragging right loosens the pair, left tightens it, in font units at the shown size
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!sides) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, value };
+  };
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const next = drag.current.value + Math.round(((e.clientX - drag.current.x) * settings.metrics.unitsPerEm) / fontSize);
+    if (next !== value) setValue(next);
+  };
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  // Exceptions are listed against the class kerning they override
+  const listedPairs = useMemo(() => {
+    const query = search.trim();
+    return kerning.pairs
+      .filter((pair) => {
+        if (view === 'class' && isKerningException(kerning, pair)) return false;
+        if (view === 'exceptions' && !isKerningException(kerning, pair)) return false;
+        return !query || sideMatches(kerning, pair.left, query) || sideMatches(kerning, pair.right, query);
+      })
+      .map((pair) => {
+        const l = sideCharacter(kerning, pair.left);
+        const r = sideCharacter(kerning, pair.right);
+        const [classLeft, classRight] = l !== undefined && r !== undefined ? classPairSides(kerning, l, r) : [];
+        const classValue = isKerningException(kerning, pair)
+          ? kerning.pairs.find((p) => p.left === classLeft && p.right === classRight)?.value ?? 0
+          : undefined;
+        return { pair, classValue };
+      })
+      .sort((a, b) => Math.abs(b.pair.value) - Math.abs(a.pair.value));
+  }, [kerning, view, search]);
+
+  const selectPair = (pair: KerningPair) => {
+    const l = sideCharacter(kerning, pair.left);
+    const r = sideCharacter(kerning, pair.right);
+    if (l === undefined || r === undefined) return;
+    setPairText(String.fromCodePoint(l) + String.fromCodePoint(r));
+    setLevel(isKerningException(kerning, pair) ? 'exception' : 'class');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-neutral-700">
+          Pair
+          <input
+            type="text"
+            value={pairText}
+            onChange={(e) => setPairText(Array.from(e.target.value).slice(0, 2).join(''))}
+            className="w-16 px-2 py-1 text-center border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-900"
+          />
+        </label>
+        {inClass && (
+          <div className="flex rounded-lg bg-neutral-100 p-0.5 text-sm">
+            {(['class', 'exception'] as EditLevel[]).map((l) => (
+              <button
+                key={l}
+                onClick={() => setLevel(l)}
+                className={cn(
+                  'px-3 py-1 rounded-md',
+                  editLevel === l ? 'bg-white shadow-sm text-neutral-900' : 'text-neutral-600'
+                )}
+              >
+                {l === 'class' ? 'Class kerning' : 'Exception'}
+              </button>
+            ))}
+          </div>
+        )}
+        {sides && (
+          <span className="text-sm text-neutral-600">
+            {sideLabel(kerning, sides[0])} {sideLabel(kerning, sides[1])}:{' '}
+            <span className="font-medium tabular-nums text-neutral-900">{value}</span>
+            {effective && effective !== edited && ` (now ${effective.value} from ${sideLabel(kerning, effective.left)} ${sideLabel(kerning, effective.right)})`}
+          </span>
+        )}
+        {edited && editLevel === 'exception' && (
+          <Button size="sm" variant="outline" onClick={() => removeKerningPair(edited.left, edited.right)}>
+            Remove exception
+          </Button>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Slider
+            value={[fontSize]}
+            onValueChange={(v) => setFontSize(v[0])}
+            min={32}
+            max={200}
+            step={4}
+            className="w-24"
+          />
+          <span className="text-xs text-neutral-600 w-10">{fontSize}px</span>
+        </div>
+      </div>
+
+      {/* Pair in context; focus it for the arrow keys */}
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="p-6 bg-neutral-50 rounded-lg border border-neutral-200 cursor-ew-resize select-none touch-none focus:outline-none focus:ring-2 focus:ring-neutral-900"
+        style={{
+          fontFamily: fontFamily ? `${fontFamily}, serif` : 'serif',
+          fontSize: `${fontSize}px`,
+          fontVariationSettings,
+          fontKerning: 'normal',
+          lineHeight: 1.3,
+        }}
+      >
+        {hasPair ? CONTEXTS.map((context) => <div key={context('')}>{context(pairText)}</div>) : 'Type a pair'}
+      </div>
+      <p className="text-xs text-neutral-500">
+        Drag sideways or use the arrow keys to adjust ({NUDGE} units, Shift for {BIG_NUDGE}, Alt for 1).
+      </p>
+
+      {/* Existing pairs */}
+      <div className="pt-4 border-t border-neutral-200">
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <h3 className="text-sm font-medium text-neutral-700">Pairs ({kerning.pairs.length})</h3>
+          <div className="flex rounded-lg bg-neutral-100 p-0.5 text-sm">
+            {(['all', 'class', 'exceptions'] as KerningView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={cn(
+                  'px-3 py-1 rounded-md',
+                  view === v ? 'bg-white shadow-sm text-neutral-900' : 'text-neutral-600'
+                )}
+              >
+                {v === 'all' ? 'All' : v === 'class' ? 'Class kerning' : 'Exceptions'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 ml-auto">
+            <Search className="w-4 h-4 text-neutral-500" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Character or class"
+              className="w-40 px-2 py-1 text-sm border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-neutral-900"
+            />
+          </label>
+        </div>
+
+        {listedPairs.length === 0 ? (
+          <p className="text-sm text-neutral-500">No kerning pairs{search.trim() && ' match'}</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-1 max-h-64 overflow-y-auto text-sm">
+            {listedPairs.map(({ pair, classValue }) => (
+              <div key={`${pair.left}|${pair.right}`} className="flex items-center gap-2">
+                <button
+                  onClick={() => selectPair(pair)}
+                  className="flex-1 flex justify-between gap-2 text-left hover:bg-neutral-100 rounded px-1"
+                >
+                  <span className="text-neutral-700 truncate">
+                    {sideLabel(kerning, pair.left)} {sideLabel(kerning, pair.right)}
+                  </span>
+                  <span className="text-neutral-500 tabular-nums">
+                    {pair.value}
+                    {classValue !== undefined && ` (class ${classValue})`}
+                  </span>
+                </button>
+                <button
+                  onClick={() => removeKerningPair(pair.left, pair.right)}
+                  className="text-neutral-400 hover:text-red-600"
+                  title="Remove pair"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import opentype from 'opentype.js';
+import { exportAsTTF } from '@/lib/font/FontBuilder';
+
+// UI text sizes, CSS pixels
+const SIZES = [12, 14, 16];
+
+const SAMPLE = 'Hamburgefontsiv Handgloves 0123';
+
+interface HintingComparisonProps {
+  font: opentype.Font;
+}
+
+interface SampleProps {
+  font: opentype.Font;
+  size: number;
+  hinting: boolean;
+}
+
+/**
+ * One line of text drawn at device pixels, so the grid the hints fit to is
+ * the screen's own
+ */
+function Sample({ font, size, hinting }: SampleProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const ppem = Math.round(size * ratio);
+    const scale = ppem / font.unitsPerEm;
+    canvas.width = Math.ceil(font.getAdvanceWidth(SAMPLE, ppem)) + 2;
+    canvas.height = Math.ceil((font.ascender - font.descender) * scale) + 2;
+    canvas.style.width = `${canvas.width / ratio}px`;
+    canvas.style.height = `${canvas.height / ratio}px`;
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#171717';
+    // opentype.js runs the glyph programs when asked for hinting, which its typings leave out
+    const options: opentype.RenderOptions & { hinting: boolean } = { kerning: true, hinting };
+    font.draw(ctx, SAMPLE, 1, Math.round(font.ascender * scale) + 1, ppem, options);
+  }, [font, size, hinting]);
+
+  return <canvas ref={canvasRef} />;
+}
+
+/**
+ * The TrueType export at UI sizes with and without its hinting
+ * instructions, rasterized the same way whatever the browser or OS would
+ * do with them
+ */
+export function HintingComparison({ font }: HintingComparisonProps) {
+  const rendered = useMemo(() => {
+    try {
+      return {
+        hinted: opentype.parse(exportAsTTF(font, undefined, true)),
+        unhinted: opentype.parse(exportAsTTF(font, undefined, false)),
+      };
+    } catch (error) {
+      console.error('Failed to render hinting comparison:', error);
+      return null;
+    }
+  }, [font]);
+
+  if (!rendered) return <p className="text-sm text-neutral-500">Could not render the TrueType export</p>;
+
+  return (
+    <div className="grid grid-cols-[auto_1fr_1fr] gap-x-6 gap-y-3 items-center overflow-x-auto">
+      <span />
+      <span className="text-xs font-medium text-neutral-600">Hinted</span>
+      <span className="text-xs font-medium text-neutral-600">Unhinted</span>
+      {SIZES.map((size) => (
+        <React.Fragment key={size}>
+          <span className="text-xs text-neutral-500 tabular-nums">{size}px</span>
+          <Sample font={rendered.hinted} size={size} hinting />
+          <Sample font={rendered.unhinted} size={size} hinting={false} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
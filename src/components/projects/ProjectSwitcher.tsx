@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useFontStore } from '@/stores/fontStore';
+import { FolderOpen } from 'lucide-react';
+
+/**
+ * The open project, switchable in place, with a link to the project list
+ */
+export function ProjectSwitcher() {
+  const { projectId, projects, openProject } = useFontStore();
+  const sorted = [...projects].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={projectId}
+        onChange={(e) => openProject(e.target.value)}
+        className="max-w-48 px-2 py-1.5 text-sm border border-neutral-300 rounded-lg bg-white"
+        aria-label="Open project"
+      >
+        {sorted.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+      <Link href="/projects" className="text-neutral-600 hover:text-neutral-900" title="All projects">
+        <FolderOpen className="w-5 h-5" />
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import type { ProjectThumbnail as Thumbnail } from '@/lib/storage/ProjectStorage';
+import { cn } from '@/lib/utils/cn';
+
+interface ProjectThumbnailProps {
+  thumbnail: Thumbnail | null;
+  className?: string;
+}
+
+/**
+ * A line of sample text in a project's own glyphs
+ */
+export function ProjectThumbnail({ thumbnail, className }: ProjectThumbnailProps) {
+  if (!thumbnail) {
+    return (
+      <div className={cn('flex items-center justify-center text-sm text-neutral-400', className)}>
+        Nothing drawn yet
+      </div>
+    );
+  }
+
+  const height = thumbnail.ascender - thumbnail.descender;
+  return (
+    <svg
+      viewBox={`0 ${-thumbnail.ascender} ${thumbnail.width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={className}
+    >
+      {/* Font units are y-up */}
+      <path d={thumbnail.pathData} transform="scale(1,-1)" fill="currentColor" />
+    </svg>
+  );
+}
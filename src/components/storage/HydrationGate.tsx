@@ -0,0 +1,29 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useFontStore } from '@/stores/fontStore';
+import { RefreshCw } from 'lucide-react';
+
+/**
+ * Holds the pages back until the saved glyphs are loaded from IndexedDB,
+ * so nothing renders or edits the empty project they replace
+ */
+export function HydrationGate({ children }: { children: React.ReactNode }) {
+  const isHydrated = useFontStore((state) => state.isHydrated);
+  const hydrate = useFontStore((state) => state.hydrate);
+
+  useEffect(() => {
+    hydrate();
+  }, [hydrate]);
+
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-neutral-50">
+        <RefreshCw className="w-8 h-8 text-neutral-400 animate-spin" />
+        <p className="text-sm text-neutral-500">Loading your glyphs...</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
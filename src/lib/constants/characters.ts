@@ -130,6 +130,27 @@ const ACCENTED: CharacterDefinition[] = [
   { unicode: 0x00FD, name: 'yacute', character: 'ý', category: 'accented', required: false },
   { unicode: 0x00FE, name: 'thorn', character: 'þ', category: 'accented', required: false },
   { unicode: 0x00FF, name: 'ydieresis', character: 'ÿ', category: 'accented', required: false },
+  // Windows Latin-1 additions
+  { unicode: 0x0160, name: 'Scaron', character: 'Š', category: 'accented', required: false },
+  { unicode: 0x0161, name: 'scaron', character: 'š', category: 'accented', required: false },
+  { unicode: 0x0178, name: 'Ydieresis', character: 'Ÿ', category: 'accented', required: false },
+  { unicode: 0x017D, name: 'Zcaron', character: 'Ž', category: 'accented', required: false },
+  { unicode: 0x017E, name: 'zcaron', character: 'ž', category: 'accented', required: false },
+  // Base for i with marks above; derived from "i" when not drawn
+  { unicode: 0x0131, name: 'dotlessi', character: 'ı', category: 'accented', required: false },
+];
+
+// Combining marks, drawn where they sit over (or under) a lowercase letter.
+// Accented characters that are not drawn are composed from these.
+const MARKS: CharacterDefinition[] = [
+  { unicode: 0x0300, name: 'gravecomb', character: '\u25CC\u0300', category: 'mark', required: false },
+  { unicode: 0x0301, name: 'acutecomb', character: '\u25CC\u0301', category: 'mark', required: false },
+  { unicode: 0x0302, name: 'circumflexcomb', character: '\u25CC\u0302', category: 'mark', required: false },
+  { unicode: 0x0303, name: 'tildecomb', character: '\u25CC\u0303', category: 'mark', required: false },
+  { unicode: 0x0308, name: 'dieresiscomb', character: '\u25CC\u0308', category: 'mark', required: false },
+  { unicode: 0x030A, name: 'ringcomb', character: '\u25CC\u030A', category: 'mark', required: false },
+  { unicode: 0x030C, name: 'caroncomb', character: '\u25CC\u030C', category: 'mark', required: false },
+  { unicode: 0x0327, name: 'cedillacomb', character: '\u25CC\u0327', category: 'mark', required: false },
 ];
 
 // Additional symbols
@@ -159,12 +180,46 @@ export const ALL_CHARACTERS: CharacterDefinition[] = [
   ...NUMBERS,
   ...PUNCTUATION,
   ...ACCENTED,
+  ...MARKS,
   ...SYMBOLS,
 ];
 
 // Required characters only
 export const REQUIRED_CHARACTERS = ALL_CHARACTERS.filter(c => c.required);
 
+// Positional forms offered for letters, in word order
+export const POSITIONAL_FORMS = [
+  { value: 'init', name: 'Initial' },
+  { value: 'medi', name: 'Medial' },
+  { value: 'fina', name: 'Final' },
+  { value: 'isol', name: 'Isolated' },
+] as const;
+
+// Stylistic sets ss01-ss20 that alternates can be tagged with
+export const STYLISTIC_SET_COUNT = 20;
+
+// Copies of each lowercase letter on the alternates template
+export const ALTERNATE_TEMPLATE_COPIES = 3;
+
+// Alternates template: every lowercase letter repeated; repeats become 'calt' alternates
+export const ALTERNATE_CHARACTERS: CharacterDefinition[] = LOWERCASE.flatMap((c) =>
+  Array.from({ length: ALTERNATE_TEMPLATE_COPIES }, () => c)
+);
+
+export type TemplateCharacterSet = 'required' | 'all' | 'alternates';
+
+// Characters in template cell order for a template character set
+export function getTemplateCharacters(characterSet: TemplateCharacterSet): CharacterDefinition[] {
+  switch (characterSet) {
+    case 'all':
+      return ALL_CHARACTERS;
+    case 'alternates':
+      return ALTERNATE_CHARACTERS;
+    default:
+      return REQUIRED_CHARACTERS;
+  }
+}
+
 // Get characters by category
 export function getCharactersByCategory(category: CharacterDefinition['category']): CharacterDefinition[] {
   return ALL_CHARACTERS.filter(c => c.category === category);
@@ -187,3 +242,46 @@ export const DEFAULT_METRICS = {
   capHeight: 700,
   xHeight: 500,
 };
+
+// Default naming/licensing metadata for new projects
+export const DEFAULT_METADATA = {
+  version: '1.000',
+  designer: '',
+  designerUrl: '',
+  manufacturer: '',
+  vendorUrl: '',
+  vendorId: 'NONE',
+  copyright: '',
+  trademark: '',
+  description: '',
+  license: '',
+  licenseUrl: '',
+  weightClass: 400,
+  widthClass: 5,
+};
+
+// OS/2 weight classes offered in the metadata editor
+export const WEIGHT_CLASSES = [
+  { value: 100, name: 'Thin' },
+  { value: 200, name: 'Extra Light' },
+  { value: 300, name: 'Light' },
+  { value: 400, name: 'Regular' },
+  { value: 500, name: 'Medium' },
+  { value: 600, name: 'Semi Bold' },
+  { value: 700, name: 'Bold' },
+  { value: 800, name: 'Extra Bold' },
+  { value: 900, name: 'Black' },
+];
+
+// OS/2 width classes (usWidthClass 1-9)
+export const WIDTH_CLASSES = [
+  { value: 1, name: 'Ultra Condensed' },
+  { value: 2, name: 'Extra Condensed' },
+  { value: 3, name: 'Condensed' },
+  { value: 4, name: 'Semi Condensed' },
+  { value: 5, name: 'Normal' },
+  { value: 6, name: 'Semi Expanded' },
+  { value: 7, name: 'Expanded' },
+  { value: 8, name: 'Extra Expanded' },
+  { value: 9, name: 'Ultra Expanded' },
+];
@@ -0,0 +1,155 @@
+/**
+ * Anchor points for mark attachment
+ * Bases carry "top"/"bottom" anchors, marks the matching "_top"/"_bottom"
+ * anchor they attach with, plus a "top"/"bottom" anchor further marks stack on.
+ * In connected scripts letters also carry "entry"/"exit" anchors that join them.
+ * Anchors the user has not placed are guessed from the outline and the metrics.
+ */
+
+import type { AnchorName, AnchorPoint, FontMetrics, GlyphData } from '@/types';
+
+// Combining marks that attach below the base; all others attach above
+const BELOW_MARKS = new Set([0x0323, 0x0326, 0x0327, 0x0328, 0x0331]);
+
+export type MarkPosition = 'top' | 'bottom';
+
+export const MARK_POSITIONS: MarkPosition[] = ['top', 'bottom'];
+
+export const CURSIVE_ANCHOR_NAMES: AnchorName[] = ['entry', 'exit'];
+
+/**
+ * The parts of a glyph anchors are derived from
+ */
+export type AnchoredOutline = Pick<GlyphData, 'unicode' | 'path' | 'advanceWidth' | 'anchors'>;
+
+/**
+ * Whether a code point is a combining diacritical mark (U+0300–U+036F)
+ */
+export function isCombiningMark(unicode: number): boolean {
+  return unicode >= 0x0300 && unicode <= 0x036f;
+}
+
+/**
+ * Where a mark attaches to its base
+ */
+export function getMarkPosition(mark: number): MarkPosition {
+  return BELOW_MARKS.has(mark) ? 'bottom' : 'top';
+}
+
+/**
+ * Anchor a mark attaches with ("_top" for marks above)
+ */
+export function getAttachmentAnchorName(position: MarkPosition): AnchorName {
+  return position === 'top' ? '_top' : '_bottom';
+}
+
+/**
+ * Whether a character is a letter, the only characters that join in connected scripts
+ */
+export function isLetter(unicode: number): boolean {
+  return /\p{L}/u.test(String.fromCodePoint(unicode));
+}
+
+/**
+ * Anchors a character has: both base anchors (plus entry/exit in connected
+ * scripts) for letters, the attachment anchor and the stacking anchor on the
+ * same side for marks
+ */
+export function getAnchorNames(unicode: number, cursive: boolean = false): AnchorName[] {
+  if (!isCombiningMark(unicode)) {
+    return cursive && isLetter(unicode) ? ['top', 'bottom', ...CURSIVE_ANCHOR_NAMES] : ['top', 'bottom'];
+  }
+  const position = getMarkPosition(unicode);
+  return [getAttachmentAnchorName(position), position];
+}
+
+function getGap(metrics: FontMetrics): number {
+  return Math.round(metrics.unitsPerEm * 0.04);
+}
+
+// Outline tops close to the x-height or cap height are treated as sitting on it
+function snapToGuides(y: number, metrics: FontMetrics): number {
+  const tolerance = metrics.unitsPerEm * 0.05;
+  for (const guide of [metrics.xHeight, metrics.capHeight]) {
+    if (Math.abs(y - guide) <= tolerance) return guide;
+  }
+  return y;
+}
+
+/**
+ * Leftmost or rightmost on-curve point of an outline between the baseline and
+ * the x-height: where a connecting stroke starts or ends in handwriting.
+ * Outlines with no point in that band fall back to their overall extreme.
+ */
+function findJoinX(path: NonNullable<GlyphData['path']>, side: 'left' | 'right', metrics: FontMetrics): number | null {
+  let inBand: number | null = null;
+  let overall: number | null = null;
+  const further = (x: number, best: number | null) => best === null || (side === 'left' ? x < best : x > best);
+  for (const cmd of path.commands) {
+    if (cmd.type === 'Z') continue;
+    if (further(cmd.x, overall)) overall = cmd.x;
+    if (cmd.y >= 0 && cmd.y <= metrics.xHeight && further(cmd.x, inBand)) inBand = cmd.x;
+  }
+  const x = inBand ?? overall;
+  return x === null ? null : Math.round(x);
+}
+
+/**
+ * Automatic anchor position from the bounding box and the metrics.
+ * Base anchors sit centered on the top of the outline (snapped to the x-height
+ * or cap height) and on the baseline. Marks are drawn as they sit on a
+ * lowercase letter, so "_top" is at the x-height (never closer to the mark than
+ * a small gap) and "_bottom" on the baseline; their stacking anchors sit just
+ * beyond the mark's outline. Entry and exit sit at the outline's leftmost and
+ * rightmost points in the x-height band, all on the baseline: cursive
+ * attachment chains the offset between them, so any height difference would
+ * drift along a word.
+ */
+export function guessAnchor(glyph: AnchoredOutline, name: AnchorName, metrics: FontMetrics): AnchorPoint {
+  if (!glyph.path || glyph.path.commands.length === 0) {
+    if (name === 'entry') return { x: 0, y: 0 };
+    if (name === 'exit') return { x: glyph.advanceWidth, y: 0 };
+    return { x: glyph.advanceWidth / 2, y: name === 'top' || name === '_top' ? metrics.xHeight : 0 };
+  }
+
+  const box = glyph.path.getBoundingBox();
+  const x = Math.round((box.x1 + box.x2) / 2);
+  const gap = getGap(metrics);
+  const isMark = isCombiningMark(glyph.unicode);
+
+  switch (name) {
+    case 'top':
+      return { x, y: Math.round(isMark ? box.y2 + gap : snapToGuides(box.y2, metrics)) };
+    case 'bottom':
+      return { x, y: Math.round(isMark ? box.y1 - gap : Math.max(0, box.y1)) };
+    case '_top':
+      return { x, y: Math.round(Math.min(metrics.xHeight, box.y1 - gap)) };
+    case '_bottom':
+      return { x, y: 0 };
+    case 'entry':
+      return { x: findJoinX(glyph.path, 'left', metrics) ?? 0, y: 0 };
+    case 'exit':
+      return { x: findJoinX(glyph.path, 'right', metrics) ?? glyph.advanceWidth, y: 0 };
+  }
+}
+
+/**
+ * Anchor position: placed by the user, or guessed
+ */
+export function getGlyphAnchor(glyph: AnchoredOutline, name: AnchorName, metrics: FontMetrics): AnchorPoint {
+  return glyph.anchors?.[name] ?? guessAnchor(glyph, name, metrics);
+}
+
+/**
+ * All anchors of a glyph, placed or guessed
+ */
+export function getGlyphAnchors(
+  glyph: AnchoredOutline,
+  metrics: FontMetrics
+): Partial<Record<AnchorName, AnchorPoint>> {
+  const anchors: Partial<Record<AnchorName, AnchorPoint>> = {};
+  for (const name of getAnchorNames(glyph.unicode)) {
+    anchors[name] = getGlyphAnchor(glyph, name, metrics);
+  }
+  return anchors;
+}
@@ -0,0 +1,240 @@
+/**
+ * Automatic kerning
+ * Suggests kerning from the white space between glyphs. For every pair of
+ * drawn glyphs the right profile of the first and the left profile of the
+ * second are set side by side at the first one's advance, and the gap
+ * between them is averaged across the heights both are spaced over, with
+ * openings counted only so deep past the narrowest point. A pair kerns by
+ * how far its average gap strays from that of the spacing reference pairs
+ * ("nn", "no", "on", "oo", or "HH" to "OO" for capitals), so the reference
+ * letters themselves are left as auto spacing set them.
+ *
+ * Glyphs that kern alike against every other glyph are grouped into
+ * classes; glyphs already in a class on that side stay in it. Class pairs
+ * take the mean of their members, and members that stray from it get
+ * exception pairs of their own.
+ */
+
+import type { GlyphData, KerningClass, KerningData, KerningPair } from '@/types';
+import { isCombiningMark } from './Anchors';
+import { getKerningValue } from './Kerning';
+import {
+  PROFILE_STEP,
+  SPACING_REFERENCES,
+  sideProfile,
+  spacingGroup,
+  type ProfileRow,
+  type SpacingGroup,
+  type SpacingModel,
+} from './Spacing';
+
+// Smallest kerning worth suggesting, font units
+export const DEFAULT_KERNING_THRESHOLD = 10;
+
+// Kerning never brings a pair closer than this share of the gap it aims for
+const MIN_GAP_SHARE = 0.25;
+
+// A suggested pair, with the value the font's kerning gives it now
+export interface KerningSuggestion extends KerningPair {
+  current: number;
+}
+
+export interface AutoKerningResult {
+  // New classes the suggestions refer to
+  classes: KerningClass[];
+  // Largest adjustments first
+  pairs: KerningSuggestion[];
+}
+
+// A glyph's sides as seen by its neighbours: profile scanlines by height,
+// the band they were taken across and the outermost ink on each side
+interface KerningSide {
+  unicode: number;
+  group: SpacingGroup;
+  advanceWidth: number;
+  rows: Map<number, ProfileRow>;
+  bottom: number;
+  top: number;
+  left: number;
+  right: number;
+  maxDepth: number;
+}
+
+// A class or a lone glyph on one side, with its measured glyphs
+interface KerningUnit {
+  id: number | string;
+  members: number[];
+}
+
+/**
+ * Average white space between two glyphs set side by side and their
+ * narrowest gap, across the heights both are spaced over; null when they
+ * have no ink at the same height. Where a glyph has no ink it counts as
+ * open as deep as auto spacing counts its openings.
+ */
+function pairGap(left: KerningSide, right: KerningSide): { gap: number; closest: number } | null {
+  const bottom = Math.max(left.bottom, right.bottom);
+  const top = Math.min(left.top, right.top);
+
+  const gaps: number[] = [];
+  let touching = false;
+  const first = Math.ceil((bottom - PROFILE_STEP / 2) / PROFILE_STEP) * PROFILE_STEP + PROFILE_STEP / 2;
+  for (let y = first; y < top; y += PROFILE_STEP) {
+    const l = left.rows.get(y);
+    const r = right.rows.get(y);
+    touching ||= l !== undefined && r !== undefined;
+    const leftSpace = left.advanceWidth - (l ? l.right : left.right - left.maxDepth / 2);
+    const rightSpace = r ? r.left : right.left + right.maxDepth / 2;
+    gaps.push(leftSpace + rightSpace);
+  }
+  if (!touching) return null;
+
+  const closest = Math.min(...gaps);
+  const limit = closest + (left.maxDepth + right.maxDepth) / 2;
+  const gap = gaps.reduce((sum, g) => sum + Math.min(g, limit), 0) / gaps.length;
+  return { gap, closest };
+}
+
+/**
+ * Average gap of the reference pairs of a spacing group, or twice the
+ * group's white width when its reference letters aren't drawn
+ */
+function referenceGap(sides: KerningSide[], group: SpacingGroup, model: SpacingModel): number {
+  const references = Object.values(SPACING_REFERENCES[group])
+    .map((unicode) => sides.find((side) => side.unicode === unicode))
+    .filter((side): side is KerningSide => side !== undefined);
+  const gaps = references.flatMap((l) => references.map((r) => pairGap(l, r)?.gap ?? []).flat());
+  return gaps.length > 0 ? gaps.reduce((sum, g) => sum + g, 0) / gaps.length : 2 * model[group].whiteWidth;
+}
+
+/**
+ * Kerning that evens out the white space between two glyphs, or null when
+ * they have no ink at the same height
+ */
+function measurePair(left: KerningSide, right: KerningSide, targets: Record<SpacingGroup, number>): number | null {
+  const measured = pairGap(left, right);
+  if (!measured) return null;
+  const target = (targets[left.group] + targets[right.group]) / 2;
+  return Math.round(Math.max(target - measured.gap, target * MIN_GAP_SHARE - measured.closest));
+}
+
+/**
+ * Group one side's glyphs: existing classes keep their members, the rest
+ * join the first group whose first glyph kerns within `threshold` of theirs
+ * against every glyph on the other side
+ */
+function groupSide(
+  side: 'left' | 'right',
+  unicodes: number[],
+  vector: (unicode: number) => number[],
+  existing: KerningClass[],
+  glyphs: Record<number, GlyphData>,
+  threshold: number
+): { units: KerningUnit[]; classes: KerningClass[] } {
+  const units: KerningUnit[] = [];
+  const classed = new Set<number>();
+  for (const kerningClass of existing) {
+    if (kerningClass.side !== side) continue;
+    const members = kerningClass.members.filter((u) => unicodes.includes(u) && !classed.has(u));
+    members.forEach((u) => classed.add(u));
+    if (members.length > 0) units.push({ id: kerningClass.id, members });
+  }
+
+  const groups: Array<{ members: number[]; vector: number[] }> = [];
+  for (const unicode of unicodes) {
+    if (classed.has(unicode)) continue;
+    const values = vector(unicode);
+    const group = groups.find((g) => g.vector.every((value, i) => Math.abs(value - values[i]) <= threshold));
+    if (group) group.members.push(unicode);
+    else groups.push({ members: [unicode], vector: values });
+  }
+
+  const classes: KerningClass[] = [];
+  for (const group of groups) {
+    if (group.members.length === 1) {
+      units.push({ id: group.members[0], members: group.members });
+      continue;
+    }
+    const name = glyphs[group.members[0]].name;
+    const kerningClass: KerningClass = { id: `kc_${side}_auto_${name}`, name, side, members: group.members };
+    classes.push(kerningClass);
+    units.push({ id: kerningClass.id, members: group.members });
+  }
+  return { units, classes };
+}
+
+/**
+ * Suggest kerning for every pair of drawn glyphs, grouped into classes.
+ * Pairs and exceptions adjusting by less than `threshold` are left out.
+ */
+export function suggestKerning(
+  glyphs: Record<number, GlyphData>,
+  kerning: KerningData,
+  model: SpacingModel,
+  threshold = DEFAULT_KERNING_THRESHOLD
+): AutoKerningResult {
+  const sides: KerningSide[] = [];
+  for (const glyph of Object.values(glyphs)) {
+    if (!glyph.isComplete || !glyph.path || glyph.unicode === 32 || isCombiningMark(glyph.unicode)) continue;
+    const profile = sideProfile(glyph.path, glyph.unicode, model);
+    if (!profile) continue;
+    sides.push({
+      unicode: glyph.unicode,
+      group: spacingGroup(glyph.unicode),
+      advanceWidth: glyph.advanceWidth,
+      rows: new Map(profile.rows.map((row) => [row.y, row])),
+      bottom: profile.bottom,
+      top: profile.top,
+      left: Math.min(...profile.rows.map((row) => row.left)),
+      right: Math.max(...profile.rows.map((row) => row.right)),
+      maxDepth: profile.zone.maxDepth,
+    });
+  }
+  const targets = {
+    lowercase: referenceGap(sides, 'lowercase', model),
+    uppercase: referenceGap(sides, 'uppercase', model),
+  };
+
+  // Every glyph against every glyph; pairs without ink at the same heights don't kern
+  const unicodes = sides.map((side) => side.unicode);
+  const index = new Map(unicodes.map((u, i) => [u, i]));
+  const values = sides.map((left) => sides.map((right) => measurePair(left, right, targets) ?? 0));
+  const value = (left: number, right: number) => values[index.get(left)!][index.get(right)!];
+
+  const left = groupSide('left', unicodes, (u) => values[index.get(u)!], kerning.classes, glyphs, threshold);
+  const right = groupSide(
+    'right',
+    unicodes,
+    (u) => values.map((row) => row[index.get(u)!]),
+    kerning.classes,
+    glyphs,
+    threshold
+  );
+
+  const pairs: KerningSuggestion[] = [];
+  const suggest = (l: number | string, r: number | string, v: number, first: number, second: number) =>
+    pairs.push({ left: l, right: r, value: v, current: getKerningValue(kerning, first, second) });
+
+  for (const leftUnit of left.units) {
+    for (const rightUnit of right.units) {
+      const memberValues = leftUnit.members.flatMap((l) => rightUnit.members.map((r) => value(l, r)));
+      const mean = Math.round(memberValues.reduce((sum, v) => sum + v, 0) / memberValues.length);
+      const applied = Math.abs(mean) >= threshold ? mean : 0;
+      if (applied !== 0) suggest(leftUnit.id, rightUnit.id, applied, leftUnit.members[0], rightUnit.members[0]);
+
+      // Only class pairs have members that can stray
+      if (leftUnit.members.length === 1 && rightUnit.members.length === 1) continue;
+      for (const l of leftUnit.members) {
+        for (const r of rightUnit.members) {
+          if (Math.abs(value(l, r) - applied) >= threshold) suggest(l, r, value(l, r), l, r);
+        }
+      }
+    }
+  }
+
+  const used = new Set(pairs.flatMap((pair) => [pair.left, pair.right]));
+  return {
+    classes: [...left.classes, ...right.classes].filter((c) => used.has(c.id)),
+    pairs: pairs.sort((a, b) => Math.abs(b.value) - Math.abs(a.value)),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Big-endian byte writer for hand-built font tables
+ * opentype.js only serializes a fixed set of tables, so anything beyond
+ * that (GPOS, kern, ...) is encoded with this helper.
+ */
+
+export class BinaryWriter {
+  private buffer: Uint8Array;
+  private view: DataView;
+  private length = 0;
+
+  constructor(initialSize: number = 256) {
+    this.buffer = new Uint8Array(initialSize);
+    this.view = new DataView(this.buffer.buffer);
+  }
+
+  /** Current write position (also the number of bytes written) */
+  get offset(): number {
+    return this.length;
+  }
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  uint8(value: number): this {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+    return this;
+  }
+
+  int8(value: number): this {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+    return this;
+  }
+
+  uint16(value: number): this {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+    return this;
+  }
+
+  int16(value: number): this {
+    this.ensure(2);
+    this.view.setInt16(this.length, Math.round(value));
+    this.length += 2;
+    return this;
+  }
+
+  uint32(value: number): this {
+    this.ensure(4);
+    this.view.setUint32(this.length, value >>> 0);
+    this.length += 4;
+    return this;
+  }
+
+  int32(value: number): this {
+    this.ensure(4);
+    this.view.setInt32(this.length, Math.round(value));
+    this.length += 4;
+    return this;
+  }
+
+  /** 16.16 fixed-point number */
+  fixed(value: number): this {
+    return this.int32(Math.round(value * 65536));
+  }
+
+  /** 2.14 fixed-point number (normalized variation coordinates) */
+  f2dot14(value: number): this {
+    return this.int16(Math.round(value * 16384));
+  }
+
+  /** Four-character table or feature tag */
+  tag(value: string): this {
+    const padded = (value + '    ').slice(0, 4);
+    for (let i = 0; i < 4; i++) this.uint8(padded.charCodeAt(i));
+    return this;
+  }
+
+  bytes(data: Uint8Array): this {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+    return this;
+  }
+
+  /** Zero-pad to a multiple of `alignment` bytes */
+  align(alignment: number = 4): this {
+    while (this.length % alignment !== 0) this.uint8(0);
+    return this;
+  }
+
+  /** Overwrite a uint16 that was reserved earlier (used for forward offsets) */
+  setUint16(position: number, value: number): this {
+    this.view.setUint16(position, value);
+    return this;
+  }
+
+  setUint32(position: number, value: number): this {
+    this.view.setUint32(position, value >>> 0);
+    return this;
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Composite accented glyphs
+ * Accented characters that were not drawn are built from their base letter
+ * and the drawn combining marks, positioned by matching anchor points.
+ */
+
+import opentype from 'opentype.js';
+import type { AnchorPoint, FontMetrics, GlyphData } from '@/types';
+import { ALL_CHARACTERS } from '@/lib/constants/characters';
+import {
+  getAttachmentAnchorName,
+  getGlyphAnchor,
+  getMarkPosition,
+  isCombiningMark,
+  type AnchoredOutline,
+  type MarkPosition,
+} from './Anchors';
+
+// Dotless forms used under marks above: "í" is built on "ı", not "i"
+const DOTLESS_BASES: Record<number, number> = {
+  0x0069: 0x0131, // i → dotlessi
+  0x006a: 0x0237, // j → dotlessj
+};
+
+/**
+ * Base character followed by the combining marks placed on it
+ */
+export interface CharacterComposition {
+  base: number;
+  marks: number[];
+}
+
+/**
+ * Canonical decomposition of a precomposed character, e.g. "Å" → A + U+030A.
+ * Returns null for characters that do not decompose into a base and marks (Æ, ß, Ø).
+ */
+export function decomposeCharacter(unicode: number): CharacterComposition | null {
+  const codePoints = Array.from(String.fromCodePoint(unicode).normalize('NFD')).map((c) => c.codePointAt(0)!);
+  if (codePoints.length < 2 || isCombiningMark(codePoints[0])) return null;
+
+  const marks = codePoints.slice(1);
+  if (!marks.every(isCombiningMark)) return null;
+  return { base: codePoints[0], marks };
+}
+
+/**
+ * Copy the commands of `source` into `target`, shifted by (dx, dy)
+ */
+function appendPath(target: opentype.Path, source: opentype.Path, dx: number, dy: number): void {
+  for (const cmd of source.commands) {
+    switch (cmd.type) {
+      case 'M':
+        target.moveTo(cmd.x + dx, cmd.y + dy);
+        break;
+      case 'L':
+        target.lineTo(cmd.x + dx, cmd.y + dy);
+        break;
+      case 'Q':
+        target.quadraticCurveTo(cmd.x1 + dx, cmd.y1 + dy, cmd.x + dx, cmd.y + dy);
+        break;
+      case 'C':
+        target.curveTo(cmd.x1 + dx, cmd.y1 + dy, cmd.x2 + dx, cmd.y2 + dy, cmd.x + dx, cmd.y + dy);
+        break;
+      case 'Z':
+        target.close();
+        break;
+    }
+  }
+}
+
+/**
+ * Copy of a path shifted by (dx, dy)
+ */
+export function translatePath(path: opentype.Path, dx: number, dy: number): opentype.Path {
+  const translated = new opentype.Path();
+  appendPath(translated, path, dx, dy);
+  return translated;
+}
+
+/**
+ * Split a path into its contours
+ */
+function splitContours(path: opentype.Path): opentype.Path[] {
+  const contours: opentype.Path[] = [];
+  for (const cmd of path.commands) {
+    if (cmd.type === 'M' || contours.length === 0) contours.push(new opentype.Path());
+    contours[contours.length - 1].commands.push(cmd);
+  }
+  return contours;
+}
+
+/**
+ * Remove the dot from a drawn "i" or "j": every contour lying entirely above
+ * the x-height. Returns null when there is no separate dot to remove.
+ */
+export function removeDot(path: opentype.Path, metrics: FontMetrics): opentype.Path | null {
+  const contours = splitContours(path);
+  const threshold = metrics.xHeight * 0.9;
+  const kept = contours.filter((contour) => contour.getBoundingBox().y1 < threshold);
+  if (kept.length === 0 || kept.length === contours.length) return null;
+
+  const dotless = new opentype.Path();
+  for (const contour of kept) appendPath(dotless, contour, 0, 0);
+  return dotless;
+}
+
+function getDrawnGlyph(glyphs: Record<number, GlyphData>, unicode: number): GlyphData | null {
+  const glyph = glyphs[unicode];
+  return glyph?.isComplete && glyph.path ? glyph : null;
+}
+
+/**
+ * The glyph marks are placed on: the drawn base, or its dotless form
+ * (drawn, or derived from the dotted letter) when a mark goes above "i" or "j"
+ */
+function resolveBase(
+  composition: CharacterComposition,
+  glyphs: Record<number, GlyphData>,
+  metrics: FontMetrics
+): AnchoredOutline | null {
+  const dotlessUnicode = DOTLESS_BASES[composition.base];
+  const needsDotless =
+    dotlessUnicode !== undefined && composition.marks.some((mark) => getMarkPosition(mark) === 'top');
+  const base = getDrawnGlyph(glyphs, composition.base);
+  if (!needsDotless) return base;
+
+  const drawnDotless = getDrawnGlyph(glyphs, dotlessUnicode);
+  if (drawnDotless) return drawnDotless;
+  if (!base?.path) return null;
+
+  const path = removeDot(base.path, metrics);
+  return path ? { unicode: dotlessUnicode, path, advanceWidth: base.advanceWidth } : null;
+}
+
+/**
+ * Build the outline of a base glyph with its marks attached, matching each
+ * mark's "_top"/"_bottom" anchor to the base's "top"/"bottom" anchor.
+ * A placed mark's own "top"/"bottom" anchor becomes the attachment point for
+ * the next mark on that side, so stacked marks sit on top of each other.
+ */
+export function composeOutline(base: AnchoredOutline, marks: AnchoredOutline[], metrics: FontMetrics): opentype.Path {
+  const path = new opentype.Path();
+  if (base.path) appendPath(path, base.path, 0, 0);
+
+  const anchors: Record<MarkPosition, AnchorPoint> = {
+    top: getGlyphAnchor(base, 'top', metrics),
+    bottom: getGlyphAnchor(base, 'bottom', metrics),
+  };
+  for (const mark of marks) {
+    if (!mark.path || mark.path.commands.length === 0) continue;
+    const position = getMarkPosition(mark.unicode);
+    const attachment = getGlyphAnchor(mark, getAttachmentAnchorName(position), metrics);
+    const dx = anchors[position].x - attachment.x;
+    const dy = anchors[position].y - attachment.y;
+    appendPath(path, mark.path, dx, dy);
+
+    const stacking = getGlyphAnchor(mark, position, metrics);
+    anchors[position] = { x: stacking.x + dx, y: stacking.y + dy };
+  }
+  return path;
+}
+
+/**
+ * Compose every decomposable character that has not been drawn itself but
+ * whose base letter and marks have. Drawn glyphs always take precedence.
+ */
+export function buildCompositeGlyphs(glyphs: Record<number, GlyphData>, metrics: FontMetrics): GlyphData[] {
+  const composites: GlyphData[] = [];
+
+  for (const char of ALL_CHARACTERS) {
+    if (glyphs[char.unicode]?.isComplete) continue;
+    const composition = decomposeCharacter(char.unicode);
+    if (!composition) continue;
+
+    const base = resolveBase(composition, glyphs, metrics);
+    const marks = composition.marks.map((unicode) => getDrawnGlyph(glyphs, unicode));
+    if (!base || marks.some((mark) => !mark)) continue;
+
+    composites.push({
+      unicode: char.unicode,
+      name: char.name,
+      character: char.character,
+      path: composeOutline(base, marks as GlyphData[], metrics),
+      advanceWidth: base.advanceWidth,
+      isComplete: true,
+    });
+  }
+
+  return composites;
+}
@@ -0,0 +1,49 @@
+/**
+ * Cursive attachment (GPOS lookup type 3) for connected scripts
+ * Each letter's entry anchor is moved onto the previous letter's exit anchor,
+ * so strokes join regardless of the letters' advance widths.
+ */
+
+import type { AnchorPoint } from '@/types';
+import { BinaryWriter } from './BinaryWriter';
+import { buildCoverage, buildTableWithOffsets, LOOKUP_FLAG_IGNORE_MARKS, type LayoutLookup } from './OpenTypeLayout';
+import { buildAnchor } from './MarkPositioning';
+
+const LOOKUP_CURSIVE = 3;
+
+/**
+ * Entry/exit anchors of one glyph; word-initial forms have no entry, final forms no exit
+ */
+export interface CursiveGlyph {
+  glyph: number;
+  entry?: AnchorPoint;
+  exit?: AnchorPoint;
+}
+
+/**
+ * CursivePos subtable (format 1)
+ */
+export function buildCursiveSubtable(glyphs: CursiveGlyph[]): Uint8Array {
+  const sorted = [...glyphs].sort((a, b) => a.glyph - b.glyph);
+
+  const header = new BinaryWriter(6 + sorted.length * 4);
+  header.uint16(1).uint16(0).uint16(sorted.length);
+  const children = [{ position: 2, data: buildCoverage(sorted.map((g) => g.glyph)) }];
+  for (const glyph of sorted) {
+    for (const anchor of [glyph.entry, glyph.exit]) {
+      if (anchor) children.push({ position: header.offset, data: buildAnchor(anchor) });
+      header.uint16(0); // null offset when the glyph does not join on this side
+    }
+  }
+  return buildTableWithOffsets(header, children);
+}
+
+/**
+ * Lookup joining letters through their entry/exit anchors ('curs' feature).
+ * Marks are skipped so an accent does not break the connection.
+ */
+export function buildCursiveLookup(glyphs: CursiveGlyph[]): LayoutLookup | null {
+  const joining = glyphs.filter((glyph) => glyph.entry || glyph.exit);
+  if (joining.length === 0) return null;
+  return { type: LOOKUP_CURSIVE, flag: LOOKUP_FLAG_IGNORE_MARKS, subtables: [buildCursiveSubtable(joining)] };
+}
@@ -0,0 +1,301 @@
+/**
+ * Least-squares Bézier curve fitting, after Philip J. Schneider's "An
+ * Algorithm for Automatically Fitting Digitized Curves" (Graphics Gems, 1990).
+ * Turns a run of points (a traced outline, a skeleton stroke) into a few
+ * smooth cubics that pass within a tolerance of every point, keeping sharp
+ * turns as corners.
+ */
+
+import type { Contour, ContourSegment, Point } from './Outline';
+
+// Default distance (font units) a fitted curve may stray from the points
+export const DEFAULT_CURVE_FIT_TOLERANCE = 2;
+
+// A point where the line turns by more than this is a corner
+const DEFAULT_CORNER_ANGLE = (70 * Math.PI) / 180;
+
+// A fit this many times over tolerance is close enough to improve by reparameterizing
+const REPARAMETERIZE_RANGE = 4;
+const MAX_REPARAMETERIZE = 4;
+
+// Handles longer than this many chords mean the least-squares fit has run away
+const MAX_HANDLE_RATIO = 2;
+
+export interface CurveFitOptions {
+  // Turn (radians) above which a point is kept as a corner
+  cornerAngle?: number;
+}
+
+interface Cubic {
+  p0: Point;
+  p1: Point;
+  p2: Point;
+  p3: Point;
+}
+
+function add(a: Point, b: Point): Point {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function sub(a: Point, b: Point): Point {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(v: Point, s: number): Point {
+  return { x: v.x * s, y: v.y * s };
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function normalize(v: Point): Point {
+  const length = Math.hypot(v.x, v.y);
+  return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+}
+
+function bezierPoint(curve: Cubic, t: number): Point {
+  const mt = 1 - t;
+  const b0 = mt * mt * mt;
+  const b1 = 3 * mt * mt * t;
+  const b2 = 3 * mt * t * t;
+  const b3 = t * t * t;
+  return {
+    x: b0 * curve.p0.x + b1 * curve.p1.x + b2 * curve.p2.x + b3 * curve.p3.x,
+    y: b0 * curve.p0.y + b1 * curve.p1.y + b2 * curve.p2.y + b3 * curve.p3.y,
+  };
+}
+
+/**
+ * Parameter of each point by its distance along the polyline
+ */
+function chordLengthParameterize(points: Point[]): number[] {
+  const u = [0];
+  for (let i = 1; i < points.length; i++) u.push(u[i - 1] + distance(points[i - 1], points[i]));
+  const total = u[u.length - 1];
+  return total > 0 ? u.map((value) => value / total) : u.map((_, i) => i / (points.length - 1));
+}
+
+/**
+ * Cubic through the end points that leaves along `startTangent`, arrives
+ * against `endTangent` (both pointing into the curve) and is closest to the
+ * points at their parameters in the least-squares sense
+ */
+function generateBezier(points: Point[], u: number[], startTangent: Point, endTangent: Point): Cubic {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+  for (let i = 0; i < points.length; i++) {
+    const t = u[i];
+    const mt = 1 - t;
+    const b0 = mt * mt * mt;
+    const b1 = 3 * mt * mt * t;
+    const b2 = 3 * mt * t * t;
+    const b3 = t * t * t;
+    const a0 = scale(startTangent, b1);
+    const a1 = scale(endTangent, b2);
+    const rest = sub(points[i], add(scale(first, b0 + b1), scale(last, b2 + b3)));
+    c00 += dot(a0, a0);
+    c01 += dot(a0, a1);
+    c11 += dot(a1, a1);
+    x0 += dot(a0, rest);
+    x1 += dot(a1, rest);
+  }
+
+  const chord = distance(first, last);
+  const determinant = c00 * c11 - c01 * c01;
+  let alpha0 = determinant !== 0 ? (x0 * c11 - x1 * c01) / determinant : 0;
+  let alpha1 = determinant !== 0 ? (c00 * x1 - c01 * x0) / determinant : 0;
+
+  // Degenerate or runaway handles: fall back to a third of the chord (Wu/Barsky heuristic)
+  const epsilon = 1e-6 * chord;
+  if (alpha0 < epsilon || alpha1 < epsilon || alpha0 > chord * MAX_HANDLE_RATIO || alpha1 > chord * MAX_HANDLE_RATIO) {
+    alpha0 = chord / 3;
+    alpha1 = chord / 3;
+  }
+
+  return {
+    p0: first,
+    p1: add(first, scale(startTangent, alpha0)),
+    p2: add(last, scale(endTangent, alpha1)),
+    p3: last,
+  };
+}
+
+/**
+ * One Newton-Raphson step towards the parameter of the curve point nearest each point
+ */
+function reparameterize(points: Point[], u: number[], curve: Cubic): number[] {
+  const d1 = [sub(curve.p1, curve.p0), sub(curve.p2, curve.p1), sub(curve.p3, curve.p2)].map((v) => scale(v, 3));
+  const d2 = [sub(d1[1], d1[0]), sub(d1[2], d1[1])].map((v) => scale(v, 2));
+
+  return points.map((point, i) => {
+    const t = u[i];
+    const mt = 1 - t;
+    const q = bezierPoint(curve, t);
+    const q1 = add(add(scale(d1[0], mt * mt), scale(d1[1], 2 * mt * t)), scale(d1[2], t * t));
+    const q2 = add(scale(d2[0], mt), scale(d2[1], t));
+    const diff = sub(q, point);
+    const denominator = dot(q1, q1) + dot(diff, q2);
+    if (denominator === 0) return t;
+    return Math.max(0, Math.min(1, t - dot(diff, q1) / denominator));
+  });
+}
+
+/**
+ * Largest distance of a point from the curve at its parameter, and which point it is
+ */
+function maxError(points: Point[], curve: Cubic, u: number[]): { error: number; index: number } {
+  let error = 0;
+  let index = Math.floor(points.length / 2);
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distance(bezierPoint(curve, u[i]), points[i]);
+    if (d > error) {
+      error = d;
+      index = i;
+    }
+  }
+  return { error, index };
+}
+
+/**
+ * Fit cubics to points between two known tangents, splitting at the worst
+ * point (with a shared tangent there) until every piece is within tolerance
+ */
+function fitCubics(points: Point[], startTangent: Point, endTangent: Point, tolerance: number): Cubic[] {
+  if (points.length === 2) {
+    const third = distance(points[0], points[1]) / 3;
+    return [
+      {
+        p0: points[0],
+        p1: add(points[0], scale(startTangent, third)),
+        p2: add(points[1], scale(endTangent, third)),
+        p3: points[1],
+      },
+    ];
+  }
+
+  let u = chordLengthParameterize(points);
+  let curve = generateBezier(points, u, startTangent, endTangent);
+  let { error, index } = maxError(points, curve, u);
+  if (error <= tolerance) return [curve];
+
+  if (error <= tolerance * REPARAMETERIZE_RANGE) {
+    for (let i = 0; i < MAX_REPARAMETERIZE; i++) {
+      u = reparameterize(points, u, curve);
+      curve = generateBezier(points, u, startTangent, endTangent);
+      ({ error, index } = maxError(points, curve, u));
+      if (error <= tolerance) return [curve];
+    }
+  }
+
+  const centerTangent = normalize(sub(points[index - 1], points[index + 1]));
+  return [
+    ...fitCubics(points.slice(0, index + 1), startTangent, centerTangent, tolerance),
+    ...fitCubics(points.slice(index), scale(centerTangent, -1), endTangent, tolerance),
+  ];
+}
+
+/**
+ * A fitted cubic as a contour segment; one whose handles lie on its chord is a line
+ */
+function toSegment(curve: Cubic, tolerance: number): ContourSegment {
+  const chord = sub(curve.p3, curve.p0);
+  const length = Math.hypot(chord.x, chord.y);
+  const straight =
+    length > 0 &&
+    [curve.p1, curve.p2].every((handle) => {
+      const offset = sub(handle, curve.p0);
+      const t = dot(offset, chord) / (length * length);
+      return t >= 0 && t <= 1 && Math.abs(offset.x * chord.y - offset.y * chord.x) / length <= tolerance;
+    });
+  return straight ? { type: 'L', to: curve.p3 } : { type: 'C', c1: curve.p1, c2: curve.p2, to: curve.p3 };
+}
+
+function withoutDuplicates(points: Point[]): Point[] {
+  return points.filter((point, i) => i === 0 || distance(point, points[i - 1]) > 1e-6);
+}
+
+/**
+ * Turn at point `index` of a closed ring (or open run) of points
+ */
+function turnAt(points: Point[], index: number): number {
+  const n = points.length;
+  const incoming = normalize(sub(points[index], points[(index + n - 1) % n]));
+  const outgoing = normalize(sub(points[(index + 1) % n], points[index]));
+  return Math.acos(Math.max(-1, Math.min(1, dot(incoming, outgoing))));
+}
+
+/**
+ * Fit one run of points between corners (or line ends)
+ */
+function fitPiece(points: Point[], tolerance: number): ContourSegment[] {
+  const n = points.length;
+  if (n === 2) return [{ type: 'L', to: points[1] }];
+  const startTangent = normalize(sub(points[1], points[0]));
+  const endTangent = normalize(sub(points[n - 2], points[n - 1]));
+  return fitCubics(points, startTangent, endTangent, tolerance).map((curve) => toSegment(curve, tolerance));
+}
+
+/**
+ * Fit an open run of points with smooth curves, keeping corners.
+ * Returns the segments from the first point to the last.
+ */
+export function fitCurve(points: Point[], tolerance: number, options: CurveFitOptions = {}): ContourSegment[] {
+  const cornerAngle = options.cornerAngle ?? DEFAULT_CORNER_ANGLE;
+  const clean = withoutDuplicates(points);
+  if (clean.length < 2) return [];
+
+  const segments: ContourSegment[] = [];
+  let pieceStart = 0;
+  for (let i = 1; i < clean.length; i++) {
+    if (i === clean.length - 1 || turnAt(clean, i) > cornerAngle) {
+      segments.push(...fitPiece(clean.slice(pieceStart, i + 1), tolerance));
+      pieceStart = i;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Fit a closed ring of points (the first point is not repeated at the end,
+ * though a repeat is tolerated). The contour starts at a corner if it has
+ * one; a contour without corners is smooth all the way round.
+ */
+export function fitClosedCurve(points: Point[], tolerance: number, options: CurveFitOptions = {}): Contour | null {
+  const cornerAngle = options.cornerAngle ?? DEFAULT_CORNER_ANGLE;
+  const ring = withoutDuplicates(points);
+  if (ring.length > 1 && distance(ring[0], ring[ring.length - 1]) <= 1e-6) ring.pop();
+  if (ring.length < 3) return null;
+
+  const corners = ring.map((_, i) => i).filter((i) => turnAt(ring, i) > cornerAngle);
+  if (corners.length === 0) {
+    // The join at the first point gets the same tangent on both sides
+    const tangent = normalize(sub(ring[1], ring[ring.length - 1]));
+    const curves = fitCubics([...ring, ring[0]], tangent, scale(tangent, -1), tolerance);
+    return { start: ring[0], segments: curves.map((curve) => toSegment(curve, tolerance)) };
+  }
+
+  const rotated = [...ring.slice(corners[0]), ...ring.slice(0, corners[0]), ring[corners[0]]];
+  const cornerSet = new Set(corners.map((i) => (i - corners[0] + ring.length) % ring.length));
+  cornerSet.add(rotated.length - 1);
+
+  const segments: ContourSegment[] = [];
+  let pieceStart = 0;
+  for (let i = 1; i < rotated.length; i++) {
+    if (cornerSet.has(i)) {
+      segments.push(...fitPiece(rotated.slice(pieceStart, i + 1), tolerance));
+      pieceStart = i;
+    }
+  }
+  return { start: rotated[0], segments };
+}
@@ -1,5 +1,152 @@
 import opentype from 'opentype.js';
-import type { GlyphData, LigatureDefinition, FontSettings, FontMetrics } from '@/types';
+import type {
+  GlyphData,
+  GlyphSkeleton,
+  LigatureDefinition,
+  LigatureFeature,
+  KerningData,
+  FontSettings,
+  FontMetrics,
+  GlyphForm,
+  PositionalForm,
+} from '@/types';
+import { readSfnt, writeSfnt } from './Sfnt';
+import { buildLayoutTable, type LayoutTableData } from './OpenTypeLayout';
+import {
+  buildContextualAlternateLookups,
+  buildLigatureLookup,
+  buildPositionalFormLookups,
+  buildRandomAlternateLookup,
+  buildStylisticSetLookup,
+  buildStylisticSetParams,
+  getStylisticSetTag,
+  type AlternateSet,
+  type LigatureSubstitution,
+  type StylisticSet,
+} from './GlyphSubstitution';
+import { buildKernTable, buildKerningLookup, resolveKerning } from './Kerning';
+import { buildCompositeGlyphs, translatePath } from './Composites';
+import { removeOverlaps } from './PathBoolean';
+import { cleanupOutline, countOutlinePoints, type CleanupResult, type GlyphCleanupReport } from './OutlineCleanup';
+import { getGlyphAnchor, getGlyphAnchors, isCombiningMark, isLetter, type AnchoredOutline } from './Anchors';
+import {
+  buildGdefTable,
+  buildMarkPositioningLookups,
+  GLYPH_CLASS_BASE,
+  GLYPH_CLASS_LIGATURE,
+  GLYPH_CLASS_MARK,
+  type AnchoredGlyph,
+} from './MarkPositioning';
+import { buildCursiveLookup, type CursiveGlyph } from './CursiveAttachment';
+import { convertToTrueType, DEFAULT_QUADRATIC_TOLERANCE, type MasterOutline } from './TrueTypeWriter';
+import { orientContours, pathToContours } from './Outline';
+import { mergeStrokeOutlines } from './StrokeExpander';
+import { slantTransform, transformFontData } from './GlyphTransform';
+import {
+  areMastersCompatible,
+  axisRanges,
+  buildVariationTables,
+  resolveSlantAxis,
+  resolveWeightAxis,
+  sweepWeightMasters,
+  type VariableFontInfo,
+  type VariableGlyph,
+} from './Variations';
+import { toWOFF, toWOFF2 } from './WebFontWriter';
+import {
+  addFontSpecificName,
+  applyFontNames,
+  buildNameOptions,
+  buildOS2Fields,
+  buildPostTable,
+  calculateLineMetrics,
+  exportedStyleName,
+  isGeneratedItalic,
+  patchHeadTable,
+  patchHheaTable,
+} from './FontInfo';
+
+export type FontExportFormat = 'otf' | 'ttf' | 'woff' | 'woff2';
+
+const FONT_MIME_TYPES: Record<FontExportFormat, string> = {
+  otf: 'font/otf',
+  ttf: 'font/ttf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+// Tables opentype.js cannot write itself: compiled in buildFont, merged in on export
+const compiledTables = new WeakMap<opentype.Font, Map<string, Uint8Array>>();
+
+// Variable fonts: fvar/gvar/STAT and the default master outlines glyf is
+// written from, merged in on TrueType export only
+interface VariableFontData {
+  tables: Map<string, Uint8Array>;
+  masterOutlines: Map<number, MasterOutline>;
+  info: VariableFontInfo;
+}
+const variableFonts = new WeakMap<opentype.Font, VariableFontData>();
+
+// Blue zones the TrueType autohinter fits glyphs to, and whether the
+// settings asked for hinted exports
+interface HintingData {
+  metrics: FontMetrics;
+  enabled: boolean;
+}
+const fontHinting = new WeakMap<opentype.Font, HintingData>();
+
+// Glyphs exported with their overlaps kept, by glyph index: the TrueType
+// export leaves their contour directions alone and flags them OVERLAP_SIMPLE
+const overlappingGlyphs = new WeakMap<opentype.Font, Set<number>>();
+
+// Outlines with overlaps removed, by the drawn path they were made from
+const mergedOutlines = new WeakMap<opentype.Path, opentype.Path>();
+
+/**
+ * Outline as it goes into the font: overlapping and self-intersecting
+ * contours merged into one clean outline, unless the glyph opts out
+ */
+function prepareOutline(path: opentype.Path, keepOverlaps: boolean = false): opentype.Path {
+  if (keepOverlaps) return path;
+  let merged = mergedOutlines.get(path);
+  if (!merged) {
+    try {
+      merged = removeOverlaps(path);
+    } catch (error) {
+      console.warn('[FontBuilder] Could not remove overlaps, keeping the drawn outline:', error);
+      merged = path;
+    }
+    mergedOutlines.set(path, merged);
+  }
+  return merged;
+}
+
+// Cleaned-up outlines, by the outline they were made from
+const cleanedOutlines = new WeakMap<opentype.Path, CleanupResult>();
+
+// What outline cleanup did to each glyph of a built font
+const cleanupReports = new WeakMap<opentype.Font, GlyphCleanupReport[]>();
+
+/**
+ * Outline with redundant points removed, curves merged and extrema added.
+ * Contours are oriented for CFF (outer counter-clockwise, as overlap removal
+ * leaves them; the TrueType export re-orients). Kept overlaps keep their
+ * contour directions; the outline is used as is if cleanup fails.
+ */
+function cleanOutline(path: opentype.Path, keepOverlaps: boolean = false): CleanupResult {
+  let cleaned = cleanedOutlines.get(path);
+  if (!cleaned) {
+    try {
+      cleaned = cleanupOutline(path, { fixDirection: !keepOverlaps, outerClockwise: false });
+    } catch (error) {
+      console.warn('[FontBuilder] Could not clean up outline, keeping it as is:', error);
+      const points = countOutlinePoints(path);
+      cleaned = { path, pointsBefore: points, pointsAfter: points };
+    }
+    cleanedOutlines.set(path, cleaned);
+  }
+  return cleaned;
+}
 
 /**
  * Create a .notdef glyph (required placeholder for missing characters)
@@ -45,26 +192,315 @@ function createSpaceGlyph(metrics: FontMetrics): opentype.Glyph {
 }
 
 /**
- * Build an OpenType font from glyph data
+ * Horizontal shift of a combining mark's outline in the font. Marks take no
+ * horizontal space: the outline is moved left of the origin, centered over a
+ * preceding letter as wide as "n".
+ */
+function getMarkOffset(path: opentype.Path, letterWidth: number): number {
+  const box = path.getBoundingBox();
+  return Math.round(-letterWidth / 2 - (box.x1 + box.x2) / 2);
+}
+
+/**
+ * Create a combining mark glyph
+ */
+function createMarkGlyph(glyphData: GlyphData, outline: opentype.Path, letterWidth: number): opentype.Glyph {
+  const path = glyphData.path ?? new opentype.Path();
+
+  return new opentype.Glyph({
+    name: glyphData.name,
+    unicode: glyphData.unicode,
+    advanceWidth: 0,
+    path: translatePath(outline, getMarkOffset(path, letterWidth), 0),
+  });
+}
+
+/**
+ * Compile ligatures (liga/dlig), stylistic sets (ssXX), positional forms and
+ * contextual alternates (both calt) and random alternates (rand) into GSUB.
+ * Ligature lookups come first so that "ffi" is matched before another
+ * feature swaps one of its letters for another form; a letter a stylistic
+ * set has replaced is left alone by calt and rand.
+ */
+function compileSubstitutions(
+  ligatures: LigatureDefinition[],
+  alternateSets: AlternateSet[],
+  randomSets: AlternateSet[],
+  stylisticSets: StylisticSet[],
+  defaultGlyphs: number[],
+  positionalForms: Partial<Record<PositionalForm, Map<number, number>>>,
+  letterGlyphs: number[],
+  glyphIndexByUnicode: Map<number, number>,
+  ligatureGlyphIndex: Map<string, number>,
+  tables: Map<string, Uint8Array>
+): void {
+  const ligaturesByFeature = new Map<LigatureFeature, LigatureSubstitution[]>();
+  const problems: string[] = [];
+  for (const lig of ligatures) {
+    const chars = Array.from(lig.sequence);
+    const missing = chars.filter((c) => !glyphIndexByUnicode.has(c.codePointAt(0)!));
+    if (missing.length > 0) {
+      const unique = Array.from(new Set(missing));
+      problems.push(`"${lig.sequence}" (missing ${unique.map((c) => `"${c}"`).join(', ')})`);
+      continue;
+    }
+
+    const feature = lig.feature ?? 'liga';
+    const list = ligaturesByFeature.get(feature) ?? [];
+    list.push({
+      components: chars.map((c) => glyphIndexByUnicode.get(c.codePointAt(0)!)!),
+      glyph: ligatureGlyphIndex.get(lig.id)!,
+    });
+    ligaturesByFeature.set(feature, list);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Ligatures use characters that have no glyph: ${problems.join('; ')}. ` +
+      'Draw the missing characters or remove these ligatures before exporting.'
+    );
+  }
+
+  const gsub: LayoutTableData = { lookups: [], features: [] };
+  for (const [feature, list] of ligaturesByFeature) {
+    gsub.features.push({ tag: feature, lookupIndices: [gsub.lookups.length] });
+    gsub.lookups.push(buildLigatureLookup(list));
+  }
+
+  for (const { stylisticSet, mapping, uiNameId } of stylisticSets) {
+    gsub.features.push({
+      tag: getStylisticSetTag(stylisticSet),
+      lookupIndices: [gsub.lookups.length],
+      params: uiNameId !== undefined ? buildStylisticSetParams(uiNameId) : undefined,
+    });
+    gsub.lookups.push(buildStylisticSetLookup(mapping));
+  }
+
+  // Only the chaining lookups are listed; the single substitutions are reached through them
+  const caltLookupIndices: number[] = [];
+  const formLookups = buildPositionalFormLookups(letterGlyphs, positionalForms, gsub.lookups.length);
+  if (formLookups.length > 0) {
+    caltLookupIndices.push(gsub.lookups.length);
+    gsub.lookups.push(...formLookups);
+  }
+  const caltLookups = buildContextualAlternateLookups(alternateSets, defaultGlyphs, gsub.lookups.length);
+  if (caltLookups.length > 0) {
+    caltLookupIndices.push(gsub.lookups.length);
+    gsub.lookups.push(...caltLookups);
+  }
+  if (caltLookupIndices.length > 0) {
+    gsub.features.push({ tag: 'calt', lookupIndices: caltLookupIndices });
+  }
+
+  const randLookup = buildRandomAlternateLookup(randomSets);
+  if (randLookup) {
+    gsub.features.push({ tag: 'rand', lookupIndices: [gsub.lookups.length] });
+    gsub.lookups.push(randLookup);
+  }
+
+  if (gsub.lookups.length > 0) {
+    tables.set('GSUB', buildLayoutTable(gsub, 'GSUB'));
+  }
+}
+
+/**
+ * Resolve every glyph's anchors in font units, following marks to where
+ * createMarkGlyph moved their outlines
+ */
+function resolveAnchoredGlyphs(
+  anchorSources: Map<number, AnchoredOutline>,
+  letterWidth: number,
+  metrics: FontMetrics
+): AnchoredGlyph[] {
+  const anchored: AnchoredGlyph[] = [];
+  for (const [glyph, source] of anchorSources) {
+    const isMark = isCombiningMark(source.unicode);
+    const dx = isMark && source.path ? getMarkOffset(source.path, letterWidth) : 0;
+    const anchors = getGlyphAnchors(source, metrics);
+    for (const point of Object.values(anchors)) point.x += dx;
+    anchored.push({ glyph, isMark, anchors });
+  }
+  return anchored;
+}
+
+/**
+ * Entry/exit anchors of the letters of a connected script. Initial forms
+ * only connect to the right, final forms only to the left, and isolated
+ * forms not at all; letters without a drawn form connect on both sides.
+ */
+function resolveCursiveGlyphs(
+  anchorSources: Map<number, AnchoredOutline>,
+  letterGlyphs: number[],
+  glyphForms: Map<number, PositionalForm>,
+  metrics: FontMetrics
+): CursiveGlyph[] {
+  return letterGlyphs.map((glyph) => {
+    const source = anchorSources.get(glyph)!;
+    const form = glyphForms.get(glyph);
+    return {
+      glyph,
+      entry: form === 'init' || form === 'isol' ? undefined : getGlyphAnchor(source, 'entry', metrics),
+      exit: form === 'fina' || form === 'isol' ? undefined : getGlyphAnchor(source, 'exit', metrics),
+    };
+  });
+}
+
+/**
+ * Compile kerning, cursive and mark attachment into GPOS ('kern', 'curs',
+ * 'mark', 'mkmk'), plus a legacy 'kern' table and the GDEF glyph classes
+ * marks need
+ */
+function compilePositioning(
+  kerning: KerningData | undefined,
+  cursiveGlyphs: CursiveGlyph[],
+  anchoredGlyphs: AnchoredGlyph[],
+  ligatureGlyphs: Set<number>,
+  glyphIndexByUnicode: Map<number, number>,
+  tables: Map<string, Uint8Array>
+): void {
+  const gpos: LayoutTableData = { lookups: [], features: [] };
+
+  if (kerning) {
+    const resolved = resolveKerning(kerning, glyphIndexByUnicode);
+    const lookup = buildKerningLookup(resolved);
+    if (lookup) {
+      gpos.features.push({ tag: 'kern', lookupIndices: [gpos.lookups.length] });
+      gpos.lookups.push(lookup);
+    }
+
+    const kernTable = buildKernTable(resolved);
+    if (kernTable) {
+      tables.set('kern', kernTable);
+    }
+  }
+
+  const curs = buildCursiveLookup(cursiveGlyphs);
+  if (curs) {
+    gpos.features.push({ tag: 'curs', lookupIndices: [gpos.lookups.length] });
+    gpos.lookups.push(curs);
+  }
+
+  const { mark, mkmk } = buildMarkPositioningLookups(anchoredGlyphs);
+  if (mark) {
+    gpos.features.push({ tag: 'mark', lookupIndices: [gpos.lookups.length] });
+    gpos.lookups.push(mark);
+  }
+  if (mkmk) {
+    gpos.features.push({ tag: 'mkmk', lookupIndices: [gpos.lookups.length] });
+    gpos.lookups.push(mkmk);
+  }
+
+  if (gpos.lookups.length > 0) {
+    tables.set('GPOS', buildLayoutTable(gpos, 'GPOS'));
+  }
+
+  if (curs || mark || mkmk) {
+    const glyphClasses = new Map<number, number>();
+    for (const { glyph, isMark } of anchoredGlyphs) {
+      glyphClasses.set(
+        glyph,
+        isMark ? GLYPH_CLASS_MARK : ligatureGlyphs.has(glyph) ? GLYPH_CLASS_LIGATURE : GLYPH_CLASS_BASE
+      );
+    }
+    tables.set('GDEF', buildGdefTable(glyphClasses));
+  }
+}
+
+/**
+ * Build an OpenType font from glyph data. When the slant settings ask for
+ * an Italic style, every drawing is skewed first and the style renamed.
  */
 export function buildFont(
   settings: FontSettings,
   glyphs: Record<number, GlyphData>,
-  ligatures: LigatureDefinition[] = []
+  ligatures: LigatureDefinition[] = [],
+  kerning?: KerningData
 ): opentype.Font {
-  const { familyName, styleName, metrics } = settings;
+  const { metrics } = settings;
+
+  const italic = isGeneratedItalic(settings);
+  if (italic) {
+    ({ glyphs, ligatures } = transformFontData(glyphs, ligatures, [slantTransform(settings.slant, metrics)]));
+    settings = { ...settings, styleName: exportedStyleName(settings) };
+  }
 
   // Create glyph array starting with required glyphs
   const opentypeGlyphs: opentype.Glyph[] = [
     createNotdefGlyph(metrics),
   ];
 
+  // Accented characters that were not drawn are composed from base letter + marks
+  const composites = buildCompositeGlyphs(glyphs, metrics);
+  const letterWidth = glyphs[0x006e]?.isComplete ? glyphs[0x006e].advanceWidth : metrics.unitsPerEm / 2;
+
+  // Outline of each glyph as it goes into the font, cleaned up if the settings
+  // ask for it; always made for the glyph added next
+  const cleanupReport: GlyphCleanupReport[] = [];
+  const keptOverlaps = new Set<number>();
+  const outline = (name: string, path: opentype.Path, keepOverlaps?: boolean): opentype.Path => {
+    if (keepOverlaps) keptOverlaps.add(opentypeGlyphs.length);
+    const prepared = prepareOutline(path, keepOverlaps);
+    if (!settings.cleanupOutlines) return prepared;
+    const cleaned = cleanOutline(prepared, keepOverlaps);
+    cleanupReport.push({ name, pointsBefore: countOutlinePoints(path), pointsAfter: cleaned.pointsAfter });
+    return cleaned.path;
+  };
+
+  // Outlines (and placed anchors) that mark attachment anchors are taken from, by glyph index
+  const anchorSources = new Map<number, AnchoredOutline>();
+
+  // Monoline glyphs are swept once per weight master when the font is variable;
+  // the static outline and advance are the default master's
+  const weightAxis = settings.variableWeight
+    ? resolveWeightAxis(settings.weightMasters, settings.metadata.weightClass)
+    : null;
+  const variableGlyphs: VariableGlyph[] = [];
+  const incompatibleGlyphs: string[] = [];
+  const variableGlyph = (
+    name: string,
+    unicode: number | undefined,
+    drawing: { path: opentype.Path; advanceWidth: number; skeleton?: GlyphSkeleton },
+    keepOverlaps?: boolean
+  ): opentype.Glyph => {
+    if (weightAxis && drawing.skeleton) {
+      const sweep = sweepWeightMasters(
+        drawing.skeleton,
+        drawing.advanceWidth,
+        settings.monolinePen,
+        weightAxis,
+        settings.curveFitTolerance
+      );
+      if (areMastersCompatible(sweep.masters)) {
+        const master = sweep.masters[weightAxis.defaultIndex];
+        variableGlyphs.push({ glyphIndex: opentypeGlyphs.length, ...sweep });
+        return new opentype.Glyph({
+          name,
+          unicode,
+          advanceWidth: sweep.advances[weightAxis.defaultIndex],
+          path: outline(name, mergeStrokeOutlines(master, settings.curveFitTolerance)),
+        });
+      }
+      incompatibleGlyphs.push(name);
+    }
+    return new opentype.Glyph({
+      name,
+      unicode,
+      advanceWidth: drawing.advanceWidth,
+      path: outline(name, drawing.path, keepOverlaps),
+    });
+  };
+
   // Add completed glyphs
-  for (const glyphData of Object.values(glyphs)) {
+  for (const glyphData of [...Object.values(glyphs), ...composites]) {
     if (glyphData.isComplete && glyphData.path) {
       // Special handling for space - it should have no path
       if (glyphData.unicode === 32) {
         opentypeGlyphs.push(createSpaceGlyph(metrics));
+      } else if (isCombiningMark(glyphData.unicode)) {
+        anchorSources.set(opentypeGlyphs.length, glyphData);
+        opentypeGlyphs.push(
+          createMarkGlyph(glyphData, outline(glyphData.name, glyphData.path, glyphData.keepOverlaps), letterWidth)
+        );
       } else {
         // Debug: check path details for glyphs with potential holes (O, D, P, Q, R, B, etc.)
         const holedChars = ['O', 'D', 'P', 'Q', 'R', 'B', 'A', '0', '4', '6', '8', '9', 'o', 'd', 'p', 'q', 'b', 'a', 'e'];
@@ -74,13 +510,14 @@ export function buildFont(
           console.log(`[FontBuilder] ${glyphData.character}: ${glyphData.path.commands.length} commands, ${mCount} M, ${zCount} Z`);
         }
 
+        anchorSources.set(opentypeGlyphs.length, glyphData);
         opentypeGlyphs.push(
-          new opentype.Glyph({
-            name: glyphData.name,
-            unicode: glyphData.unicode,
-            advanceWidth: glyphData.advanceWidth,
-            path: glyphData.path,
-          })
+          variableGlyph(
+            glyphData.name,
+            glyphData.unicode,
+            { path: glyphData.path, advanceWidth: glyphData.advanceWidth, skeleton: glyphData.skeleton },
+            glyphData.keepOverlaps
+          )
         );
       }
     }
@@ -92,63 +529,296 @@ export function buildFont(
     opentypeGlyphs.push(createSpaceGlyph(metrics));
   }
 
-  // Add ligature glyphs (they'll be added to the font, but GSUB is complex to implement)
+  // Map characters to glyph indices for the substitution tables
+  const glyphIndexByUnicode = new Map<number, number>();
+  opentypeGlyphs.forEach((glyph, index) => {
+    if (glyph.unicode) glyphIndexByUnicode.set(glyph.unicode, index);
+  });
+
+  // Add ligature glyphs (unencoded, reached only through GSUB)
   const completeLigatures = ligatures.filter((l) => l.isComplete && l.path);
+  const ligatureGlyphIndex = new Map<string, number>();
   for (const lig of completeLigatures) {
+    ligatureGlyphIndex.set(lig.id, opentypeGlyphs.length);
+    anchorSources.set(opentypeGlyphs.length, { unicode: 0, path: lig.path, advanceWidth: lig.advanceWidth });
     opentypeGlyphs.push(
       new opentype.Glyph({
         name: lig.name,
         unicode: undefined,
         advanceWidth: lig.advanceWidth,
-        path: lig.path!,
+        path: outline(lig.name, lig.path!),
       })
     );
   }
 
-  // Create the font
+  // Add alternate glyphs (unencoded): untagged ones are reached through calt,
+  // ones marked random through rand and ones tagged with a stylistic set
+  // through its ssXX feature. HarfBuzz applies rand by default and after calt,
+  // so cycled alternates are kept out of it or it would undo the cycling.
+  const alternateSets: AlternateSet[] = [];
+  const randomSets: AlternateSet[] = [];
+  const stylisticSetMappings = new Map<number, Map<number, number>>();
+  for (const glyphData of Object.values(glyphs)) {
+    const base = glyphIndexByUnicode.get(glyphData.unicode);
+    if (base === undefined || glyphData.unicode === 32 || !glyphData.alternates?.length) continue;
+    if (isCombiningMark(glyphData.unicode)) continue;
+    const set: AlternateSet = { base, alternates: [] };
+    const randomSet: AlternateSet = { base, alternates: [] };
+    glyphData.alternates.forEach((alternate, i) => {
+      if (alternate.stylisticSet) {
+        // A set holds one alternate per character; the first one tagged wins
+        const mapping = stylisticSetMappings.get(alternate.stylisticSet) ?? new Map<number, number>();
+        if (!mapping.has(base)) mapping.set(base, opentypeGlyphs.length);
+        stylisticSetMappings.set(alternate.stylisticSet, mapping);
+      } else if (alternate.random) {
+        randomSet.alternates.push(opentypeGlyphs.length);
+      } else {
+        set.alternates.push(opentypeGlyphs.length);
+      }
+      anchorSources.set(opentypeGlyphs.length, {
+        unicode: glyphData.unicode,
+        path: alternate.path,
+        advanceWidth: alternate.advanceWidth,
+      });
+      opentypeGlyphs.push(variableGlyph(`${glyphData.name}.alt${i + 1}`, undefined, alternate, glyphData.keepOverlaps));
+    });
+    if (set.alternates.length > 0) alternateSets.push(set);
+    if (randomSet.alternates.length > 0) randomSets.push(randomSet);
+  }
+
+  // Add positional form glyphs (unencoded, chosen by calt from the letter's place in a word)
+  const positionalForms: Partial<Record<PositionalForm, Map<number, number>>> = {};
+  const glyphForms = new Map<number, PositionalForm>();
+  for (const glyphData of Object.values(glyphs)) {
+    const base = glyphIndexByUnicode.get(glyphData.unicode);
+    if (base === undefined || !isLetter(glyphData.unicode)) continue;
+    for (const [form, formGlyph] of Object.entries(glyphData.forms ?? {}) as Array<[PositionalForm, GlyphForm]>) {
+      (positionalForms[form] ??= new Map()).set(base, opentypeGlyphs.length);
+      glyphForms.set(opentypeGlyphs.length, form);
+      anchorSources.set(opentypeGlyphs.length, {
+        unicode: glyphData.unicode,
+        path: formGlyph.path,
+        advanceWidth: formGlyph.advanceWidth,
+      });
+      const name = `${glyphData.name}.${form}`;
+      opentypeGlyphs.push(
+        new opentype.Glyph({
+          name,
+          unicode: undefined,
+          advanceWidth: formGlyph.advanceWidth,
+          path: outline(name, formGlyph.path, glyphData.keepOverlaps),
+        })
+      );
+    }
+  }
+
+  // Glyphs that make up words: letters in every form, and ligatures
+  const ligatureGlyphs = new Set(ligatureGlyphIndex.values());
+  const letterGlyphs = Array.from(anchorSources)
+    .filter(([glyph, source]) => isLetter(source.unicode) || ligatureGlyphs.has(glyph))
+    .map(([glyph]) => glyph);
+
+  const alternateGlyphs = new Set([...alternateSets, ...randomSets].flatMap((set) => set.alternates));
+  const defaultGlyphs = opentypeGlyphs
+    .map((glyph, index) => ({ glyph, index }))
+    .filter(({ glyph, index }) => index > 0 && glyph.unicode !== 32 && !alternateGlyphs.has(index))
+    .map(({ index }) => index);
+
+  // A slant axis skews every glyph, so every glyph is a variation master
+  // (written point for point, each cubic as two quadratics)
+  const slantAxis = resolveSlantAxis(settings.slant, metrics);
+  const sweptGlyphs = new Set(variableGlyphs.map((glyph) => glyph.glyphIndex));
+  const masterOutlines = new Map<number, MasterOutline>(
+    variableGlyphs.map((glyph) => [
+      glyph.glyphIndex,
+      { contours: glyph.masters[weightAxis?.defaultIndex ?? 0], overlapping: true },
+    ])
+  );
+  if (slantAxis) {
+    opentypeGlyphs.forEach((glyph, glyphIndex) => {
+      if (glyphIndex === 0 || sweptGlyphs.has(glyphIndex)) return;
+      const overlapping = keptOverlaps.has(glyphIndex);
+      const contours = overlapping ? pathToContours(glyph.path) : orientContours(pathToContours(glyph.path), true);
+      masterOutlines.set(glyphIndex, { contours, overlapping });
+      variableGlyphs.push({ glyphIndex, masters: [contours], advances: [Math.round(glyph.advanceWidth ?? 0)] });
+    });
+  }
+
+  // Create the font; hhea carries the line metrics that cover every glyph
+  const lineMetrics = calculateLineMetrics(metrics, opentypeGlyphs);
   const font = new opentype.Font({
-    familyName,
-    styleName,
+    ...buildNameOptions(settings),
     unitsPerEm: metrics.unitsPerEm,
-    ascender: metrics.ascender,
-    descender: metrics.descender,
+    ascender: lineMetrics.hheaAscender,
+    descender: lineMetrics.hheaDescender,
     glyphs: opentypeGlyphs,
   });
+  applyFontNames(font, settings);
+
+  // Stylistic sets in tag order, named after the friendly names given to them
+  const stylisticSets: StylisticSet[] = Array.from(stylisticSetMappings)
+    .sort((a, b) => a[0] - b[0])
+    .map(([stylisticSet, mapping]) => {
+      const name = settings.stylisticSetNames[stylisticSet]?.trim();
+      return { stylisticSet, mapping, uiNameId: name ? addFontSpecificName(font, name) : undefined };
+    });
+
+  // Longest glyph sequence a lookup looks at: ligature components, a letter
+  // between two others (positional forms), or a glyph pair (kerning, calt, curs, marks)
+  const hasMarks = Array.from(anchorSources.values()).some((source) => isCombiningMark(source.unicode));
+  const maxContext = Math.max(
+    glyphForms.size > 0 ? 3 : 0,
+    (kerning && kerning.pairs.length > 0) || alternateSets.length > 0 || hasMarks || settings.cursive ? 2 : 0,
+    stylisticSets.length > 0 || randomSets.length > 0 ? 1 : 0,
+    ...completeLigatures.map((lig) => Array.from(lig.sequence).length)
+  );
+  Object.assign(font.tables.os2, buildOS2Fields(settings, lineMetrics, maxContext));
+
+  const tables = new Map<string, Uint8Array>();
+  tables.set('post', buildPostTable(font, metrics, italic ? -settings.slant.angle : 0));
+  compileSubstitutions(
+    completeLigatures,
+    alternateSets,
+    randomSets,
+    stylisticSets,
+    defaultGlyphs,
+    positionalForms,
+    letterGlyphs,
+    glyphIndexByUnicode,
+    ligatureGlyphIndex,
+    tables
+  );
+  compilePositioning(
+    kerning,
+    settings.cursive ? resolveCursiveGlyphs(anchorSources, letterGlyphs, glyphForms, metrics) : [],
+    resolveAnchoredGlyphs(anchorSources, letterWidth, metrics),
+    ligatureGlyphs,
+    glyphIndexByUnicode,
+    tables
+  );
+  compiledTables.set(font, tables);
+  cleanupReports.set(font, cleanupReport);
+  fontHinting.set(font, { metrics, enabled: settings.hinting });
+  overlappingGlyphs.set(font, keptOverlaps);
+
+  // The weight axis only exists when some glyph was swept along it
+  const axes = { weight: sweptGlyphs.size > 0 ? weightAxis : null, slant: slantAxis };
+  if (axes.weight || axes.slant) {
+    variableFonts.set(font, {
+      tables: buildVariationTables(font, axes, variableGlyphs, italic),
+      masterOutlines,
+      info: { ...axisRanges(axes), variableGlyphs: sweptGlyphs.size, incompatibleGlyphs },
+    });
+  }
 
   return font;
 }
 
+/**
+ * Points outline cleanup removed from each glyph of a font made by buildFont
+ * (empty unless the cleanupOutlines setting was on)
+ */
+export function getCleanupReport(font: opentype.Font): GlyphCleanupReport[] {
+  return cleanupReports.get(font) ?? [];
+}
+
+/**
+ * Weight and slant axes of a font made by buildFont, or null when it is not
+ * variable. Only the TrueType exports (ttf, woff, woff2) carry the axes.
+ */
+export function getVariableFontInfo(font: opentype.Font): VariableFontInfo | null {
+  return variableFonts.get(font)?.info ?? null;
+}
+
 /**
  * Export font as OTF ArrayBuffer
  */
 export function exportAsOTF(font: opentype.Font): ArrayBuffer {
-  return font.toArrayBuffer();
+  const sfnt = readSfnt(font.toArrayBuffer());
+  for (const [tag, data] of compiledTables.get(font) ?? []) {
+    sfnt.tables.set(tag, data);
+  }
+  const head = sfnt.tables.get('head');
+  if (head) {
+    sfnt.tables.set('head', patchHeadTable(head, font));
+  }
+  const hhea = sfnt.tables.get('hhea');
+  const post = sfnt.tables.get('post');
+  if (hhea && post) {
+    sfnt.tables.set('hhea', patchHheaTable(hhea, post));
+  }
+  return writeSfnt(sfnt);
 }
 
 /**
  * Export font as TTF ArrayBuffer
- * Note: opentype.js generates OpenType fonts which can have .otf or .ttf extension
- * The actual difference is minimal for web use
+ * opentype.js only writes CFF outlines, so the glyphs are converted to
+ * quadratic TrueType outlines (glyf/loca) within `tolerance` font units.
+ * A variable font also gets its weight and slant axes (fvar, gvar, STAT).
+ * Glyphs are autohinted when `hinted`, which follows the settings the font
+ * was built with unless given.
  */
-export function exportAsTTF(font: opentype.Font): ArrayBuffer {
-  return font.toArrayBuffer();
+export function exportAsTTF(
+  font: opentype.Font,
+  tolerance: number = DEFAULT_QUADRATIC_TOLERANCE,
+  hinted?: boolean
+): ArrayBuffer {
+  const sfnt = readSfnt(exportAsOTF(font));
+  const variable = variableFonts.get(font);
+  const hinting = fontHinting.get(font);
+  const converted = convertToTrueType(
+    sfnt,
+    font,
+    tolerance,
+    variable?.masterOutlines,
+    hinting && (hinted ?? hinting.enabled) ? hinting.metrics : undefined,
+    overlappingGlyphs.get(font)
+  );
+  for (const [tag, data] of variable?.tables ?? []) {
+    converted.tables.set(tag, data);
+  }
+  return writeSfnt(converted);
 }
 
 /**
- * Create a downloadable file from font
+ * Export font as WOFF ArrayBuffer (TrueType outlines, zlib-compressed tables)
  */
-export function downloadFont(
-  font: opentype.Font,
-  filename: string,
-  format: 'otf' | 'ttf'
-): void {
-  const arrayBuffer = font.toArrayBuffer();
-  const blob = new Blob([arrayBuffer], { type: 'font/opentype' });
+export function exportAsWOFF(font: opentype.Font): ArrayBuffer {
+  return toWOFF(exportAsTTF(font));
+}
+
+/**
+ * Export font as WOFF2 ArrayBuffer (TrueType outlines, Brotli-compressed)
+ */
+export function exportAsWOFF2(font: opentype.Font): Promise<ArrayBuffer> {
+  return toWOFF2(exportAsTTF(font));
+}
+
+/**
+ * Serialize font in any of the supported download formats
+ */
+export async function exportFont(font: opentype.Font, format: FontExportFormat): Promise<ArrayBuffer> {
+  switch (format) {
+    case 'otf':
+      return exportAsOTF(font);
+    case 'ttf':
+      return exportAsTTF(font);
+    case 'woff':
+      return exportAsWOFF(font);
+    case 'woff2':
+      return exportAsWOFF2(font);
+  }
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
 
   const link = document.createElement('a');
   link.href = url;
-  link.download = `${filename}.${format}`;
+  link.download = filename;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
@@ -156,6 +826,19 @@ export function downloadFont(
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Create a downloadable file from font
+ */
+export async function downloadFont(
+  font: opentype.Font,
+  filename: string,
+  format: FontExportFormat
+): Promise<void> {
+  const arrayBuffer = await exportFont(font, format);
+  const blob = new Blob([arrayBuffer], { type: FONT_MIME_TYPES[format] });
+  downloadBlob(blob, `${filename}.${format}`);
+}
+
 /**
  * Auto-calculate font metrics from glyphs
  */
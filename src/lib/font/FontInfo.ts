@@ -0,0 +1,309 @@
+/**
+ * Font-wide metadata: naming, OS/2 fields, vertical line metrics and post table
+ * opentype.js fills these with placeholders, so everything that depends on
+ * the project settings is derived here and handed to buildFont.
+ */
+
+import opentype from 'opentype.js';
+import type { FontSettings, FontMetrics } from '@/types';
+import { BinaryWriter } from './BinaryWriter';
+
+// OS/2 fsSelection bits
+const FS_SELECTION_ITALIC = 0x0001;
+const FS_SELECTION_BOLD = 0x0020;
+const FS_SELECTION_REGULAR = 0x0040;
+const FS_SELECTION_USE_TYPO_METRICS = 0x0080;
+
+// head.macStyle bits
+const MAC_STYLE_BOLD = 0x0001;
+const MAC_STYLE_ITALIC = 0x0002;
+
+// hhea caretSlopeRise of slanted fonts; caretSlopeRun follows from the angle
+const CARET_SLOPE_RISE = 1000;
+
+// Name IDs below this are predefined by the OpenType spec
+const FIRST_FONT_SPECIFIC_NAME_ID = 256;
+
+// Style names that fit the four-member (regular/bold/italic/bold italic) family model
+const RIBBI_STYLES = ['regular', 'bold', 'italic', 'bold italic'];
+
+export interface FontNames {
+  familyName: string;
+  styleName: string;
+  fullName: string;
+  postScriptName: string;
+  // Typographic family/subfamily, only set when the style is outside the RIBBI model
+  preferredFamily?: string;
+  preferredSubfamily?: string;
+}
+
+/**
+ * Vertical metrics that give the same line height on every platform:
+ * hhea and usWin cover the tallest glyphs, sTypoLineGap makes up the difference.
+ */
+export interface LineMetrics {
+  typoAscender: number;
+  typoDescender: number;
+  typoLineGap: number;
+  winAscent: number;
+  winDescent: number;
+  hheaAscender: number;
+  hheaDescender: number;
+}
+
+function isItalicStyle(styleName: string): boolean {
+  return /italic|oblique/i.test(styleName);
+}
+
+/**
+ * Style name of the italic companion of a style: "Regular" becomes
+ * "Italic", "Bold" becomes "Bold Italic"
+ */
+export function italicStyleName(styleName: string): string {
+  const style = styleName.trim().replace(/\s+/g, ' ');
+  if (isItalicStyle(style)) return style;
+  return !style || style.toLowerCase() === 'regular' ? 'Italic' : `${style} Italic`;
+}
+
+/**
+ * Whether the slant settings turn the font into a generated Italic style
+ */
+export function isGeneratedItalic(settings: FontSettings): boolean {
+  return settings.slant.output === 'italic' && settings.slant.angle > 0;
+}
+
+/**
+ * Style name the font is exported under
+ */
+export function exportedStyleName(settings: FontSettings): string {
+  return isGeneratedItalic(settings) ? italicStyleName(settings.styleName) : settings.styleName;
+}
+
+// Only the RIBBI "Bold" styles set the bold bits; "Semi Bold" etc. are their own family
+function isBoldStyle(styleName: string): boolean {
+  return ['bold', 'bold italic'].includes(styleName.trim().replace(/\s+/g, ' ').toLowerCase());
+}
+
+/**
+ * Name table strings for the family/style combination.
+ * "Light Italic" becomes family "X Light" + subfamily "Italic", with the
+ * full names kept in the typographic family/subfamily entries.
+ */
+export function buildFontNames(settings: FontSettings): FontNames {
+  const familyName = settings.familyName.trim() || 'Untitled';
+  const styleName = settings.styleName.trim().replace(/\s+/g, ' ') || 'Regular';
+  const fullName = styleName.toLowerCase() === 'regular' ? familyName : `${familyName} ${styleName}`;
+  const postScriptName = `${familyName}-${styleName}`
+    .replace(/[^\x21-\x7e]/g, '')
+    .replace(/[[\](){}<>/%]/g, '')
+    .slice(0, 63);
+
+  if (RIBBI_STYLES.includes(styleName.toLowerCase())) {
+    return { familyName, styleName, fullName, postScriptName };
+  }
+
+  const italic = isItalicStyle(styleName);
+  const weightPart = styleName.replace(/\s*(italic|oblique)\s*/gi, ' ').trim();
+  return {
+    familyName: weightPart ? `${familyName} ${weightPart}` : familyName,
+    styleName: italic ? 'Italic' : 'Regular',
+    fullName,
+    postScriptName,
+    preferredFamily: familyName,
+    preferredSubfamily: styleName,
+  };
+}
+
+/**
+ * Constructor options for opentype.Font carrying all naming metadata
+ */
+export function buildNameOptions(settings: FontSettings) {
+  const { metadata } = settings;
+  const names = buildFontNames(settings);
+  return {
+    familyName: names.familyName,
+    styleName: names.styleName,
+    fullName: names.fullName,
+    postScriptName: names.postScriptName,
+    designer: metadata.designer.trim(),
+    designerURL: metadata.designerUrl.trim(),
+    manufacturer: metadata.manufacturer.trim(),
+    manufacturerURL: metadata.vendorUrl.trim(),
+    license: metadata.license.trim(),
+    licenseURL: metadata.licenseUrl.trim(),
+    version: `Version ${formatVersion(metadata.version)}`,
+    description: metadata.description.trim(),
+    copyright: metadata.copyright.trim(),
+    trademark: metadata.trademark.trim(),
+  };
+}
+
+/**
+ * Fill in names opentype.js derives itself and drop the blank placeholders
+ * it uses for fields the user left empty.
+ */
+export function applyFontNames(font: opentype.Font, settings: FontSettings): void {
+  const names = buildFontNames(settings);
+  const fontNames = font.names as unknown as Record<string, { en: string }>;
+
+  if (names.preferredFamily && names.preferredSubfamily) {
+    fontNames.preferredFamily = { en: names.preferredFamily };
+    fontNames.preferredSubfamily = { en: names.preferredSubfamily };
+  }
+  const vendorId = normalizeVendorId(settings.metadata.vendorId).trim();
+  fontNames.uniqueID = {
+    en: `${formatVersion(settings.metadata.version)};${vendorId};${names.postScriptName}`,
+  };
+
+  for (const key of Object.keys(fontNames)) {
+    if (!fontNames[key].en?.trim()) delete fontNames[key];
+  }
+}
+
+/**
+ * Add a font-specific name record (name ID 256 and up), such as the name of a
+ * stylistic set, and return its name ID
+ */
+export function addFontSpecificName(font: opentype.Font, text: string): number {
+  const fontNames = font.names as unknown as Record<string, { en: string }>;
+  let nameId = FIRST_FONT_SPECIFIC_NAME_ID;
+  while (fontNames[nameId]) nameId++;
+  fontNames[nameId] = { en: text };
+  return nameId;
+}
+
+/**
+ * Version as a "major.minor" string with three decimals, e.g. "1.000"
+ */
+export function formatVersion(version: string): string {
+  const value = parseFloat(version);
+  return (Number.isFinite(value) && value >= 0 ? value : 1).toFixed(3);
+}
+
+/**
+ * OS/2 achVendID: exactly four printable ASCII characters, space padded
+ */
+export function normalizeVendorId(vendorId: string): string {
+  return vendorId.replace(/[^\x20-\x7e]/g, '').slice(0, 4).padEnd(4, ' ');
+}
+
+/**
+ * Derive consistent line metrics from the design metrics and the glyph extremes
+ */
+export function calculateLineMetrics(metrics: FontMetrics, glyphs: opentype.Glyph[]): LineMetrics {
+  let yMin = 0;
+  let yMax = 0;
+  for (const glyph of glyphs) {
+    if (!glyph.path || glyph.path.commands.length === 0) continue;
+    const box = glyph.getBoundingBox();
+    yMin = Math.min(yMin, box.y1);
+    yMax = Math.max(yMax, box.y2);
+  }
+
+  const typoAscender = Math.round(metrics.ascender);
+  const typoDescender = Math.round(metrics.descender);
+  const winAscent = Math.max(typoAscender, Math.ceil(yMax));
+  const winDescent = Math.max(-typoDescender, Math.ceil(-yMin));
+
+  return {
+    typoAscender,
+    typoDescender,
+    typoLineGap: winAscent + winDescent - (typoAscender - typoDescender),
+    winAscent,
+    winDescent,
+    hheaAscender: winAscent,
+    hheaDescender: -winDescent,
+  };
+}
+
+/**
+ * OS/2 fields opentype.js would otherwise fill with defaults
+ */
+export function buildOS2Fields(settings: FontSettings, lineMetrics: LineMetrics, maxContext: number) {
+  const { metadata, metrics } = settings;
+  const italic = isItalicStyle(settings.styleName);
+  const bold = isBoldStyle(settings.styleName);
+
+  let fsSelection = FS_SELECTION_USE_TYPO_METRICS;
+  if (italic) fsSelection |= FS_SELECTION_ITALIC;
+  if (bold) fsSelection |= FS_SELECTION_BOLD;
+  if (!italic && !bold) fsSelection |= FS_SELECTION_REGULAR;
+
+  const strokeSize = Math.round(metrics.unitsPerEm * 0.05);
+  return {
+    usWeightClass: Math.min(1000, Math.max(1, Math.round(metadata.weightClass))),
+    usWidthClass: Math.min(9, Math.max(1, Math.round(metadata.widthClass))),
+    fsType: 0, // installable embedding
+    fsSelection,
+    achVendID: normalizeVendorId(metadata.vendorId),
+    sTypoAscender: lineMetrics.typoAscender,
+    sTypoDescender: lineMetrics.typoDescender,
+    sTypoLineGap: lineMetrics.typoLineGap,
+    usWinAscent: lineMetrics.winAscent,
+    usWinDescent: lineMetrics.winDescent,
+    sxHeight: Math.round(metrics.xHeight),
+    sCapHeight: Math.round(metrics.capHeight),
+    yStrikeoutSize: strokeSize,
+    yStrikeoutPosition: Math.round(metrics.xHeight / 2 + strokeSize / 2),
+    usMaxContext: maxContext,
+  };
+}
+
+/**
+ * post table, version 3.0 (glyph names live in CFF, or are not needed for TrueType).
+ * `italicAngle` is in degrees counter-clockwise from vertical, negative for
+ * glyphs leaning right.
+ */
+export function buildPostTable(font: opentype.Font, metrics: FontMetrics, italicAngle: number = 0): Uint8Array {
+  const advances = new Set<number>();
+  for (let i = 0; i < font.glyphs.length; i++) {
+    advances.add(Math.round(font.glyphs.get(i).advanceWidth ?? 0));
+  }
+
+  const writer = new BinaryWriter(32);
+  writer
+    .fixed(3)
+    .fixed(italicAngle)
+    .int16(Math.round(metrics.descender / 2)) // underlinePosition
+    .int16(Math.round(metrics.unitsPerEm * 0.05)) // underlineThickness
+    .uint32(advances.size === 1 ? 1 : 0) // isFixedPitch
+    .uint32(0)
+    .uint32(0)
+    .uint32(0)
+    .uint32(0);
+  return writer.toUint8Array();
+}
+
+/**
+ * Copy fontRevision and macStyle into a head table written by opentype.js,
+ * using the version name and OS/2 fsSelection set up in buildFont
+ */
+export function patchHeadTable(head: Uint8Array, font: opentype.Font): Uint8Array {
+  const patched = head.slice();
+  const view = new DataView(patched.buffer);
+
+  const version = /(\d+(?:\.\d+)?)/.exec(font.getEnglishName('version') ?? '');
+  if (version) view.setInt32(4, Math.round(parseFloat(version[1]) * 65536));
+
+  const fsSelection: number = font.tables.os2?.fsSelection ?? 0;
+  let macStyle = 0;
+  if (fsSelection & FS_SELECTION_BOLD) macStyle |= MAC_STYLE_BOLD;
+  if (fsSelection & FS_SELECTION_ITALIC) macStyle |= MAC_STYLE_ITALIC;
+  view.setUint16(44, macStyle);
+  return patched;
+}
+
+/**
+ * Tilt the caret in a hhea table written by opentype.js to the italic angle
+ * of the post table built by buildPostTable
+ */
+export function patchHheaTable(hhea: Uint8Array, post: Uint8Array): Uint8Array {
+  const italicAngle = new DataView(post.buffer, post.byteOffset, post.byteLength).getInt32(4) / 65536;
+  if (italicAngle === 0) return hhea;
+
+  const patched = hhea.slice();
+  const view = new DataView(patched.buffer);
+  view.setInt16(18, CARET_SLOPE_RISE);
+  view.setInt16(20, Math.round(CARET_SLOPE_RISE * Math.tan((-italicAngle * Math.PI) / 180)));
+  return patched;
+}
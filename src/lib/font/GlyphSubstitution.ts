@@ -0,0 +1,278 @@
+/**
+ * GSUB lookup encoders
+ * Ligatures (liga/dlig), contextual alternates and positional forms (calt),
+ * stylistic sets (ss01-ss20) and randomized alternates (rand) are compiled
+ * here instead of through opentype.js, which cannot write contextual lookups.
+ */
+
+import type { PositionalForm } from '@/types';
+import { BinaryWriter } from './BinaryWriter';
+import {
+  buildCoverage,
+  buildTableWithOffsets,
+  LOOKUP_FLAG_IGNORE_MARKS,
+  type LayoutLookup,
+} from './OpenTypeLayout';
+
+// GSUB lookup types
+const LOOKUP_SINGLE = 1;
+const LOOKUP_ALTERNATE = 3;
+const LOOKUP_LIGATURE = 4;
+const LOOKUP_CHAINING_CONTEXT = 6;
+
+export interface LigatureSubstitution {
+  components: number[]; // glyph ids, in order
+  glyph: number;
+}
+
+/**
+ * A default glyph and its alternates, in the order they are cycled through
+ */
+export interface AlternateSet {
+  base: number;
+  alternates: number[];
+}
+
+/**
+ * Alternates tagged with one stylistic set: default glyph → alternate
+ */
+export interface StylisticSet {
+  stylisticSet: number; // 1-20, the XX of the ssXX feature
+  mapping: Map<number, number>;
+  // Name record holding the set's friendly name
+  uiNameId?: number;
+}
+
+/**
+ * Single substitution subtable (format 2: one substitute per covered glyph)
+ */
+export function buildSingleSubstitution(mapping: Map<number, number>): Uint8Array {
+  const sorted = Array.from(mapping.entries()).sort((a, b) => a[0] - b[0]);
+
+  const header = new BinaryWriter(6 + sorted.length * 2);
+  header.uint16(2).uint16(0).uint16(sorted.length);
+  for (const [, substitute] of sorted) header.uint16(substitute);
+
+  return buildTableWithOffsets(header, [{ position: 2, data: buildCoverage(sorted.map(([glyph]) => glyph)) }]);
+}
+
+/**
+ * Ligature substitution subtable (format 1).
+ * Within each first-glyph set the longest ligature comes first, since the
+ * first ligature that matches is the one applied.
+ */
+export function buildLigatureSubstitution(ligatures: LigatureSubstitution[]): Uint8Array {
+  const byFirst = new Map<number, LigatureSubstitution[]>();
+  for (const lig of ligatures) {
+    const list = byFirst.get(lig.components[0]) ?? [];
+    list.push(lig);
+    byFirst.set(lig.components[0], list);
+  }
+  const firstGlyphs = Array.from(byFirst.keys()).sort((a, b) => a - b);
+
+  const ligatureSets = firstGlyphs.map((first) => {
+    const list = [...byFirst.get(first)!].sort((a, b) => b.components.length - a.components.length);
+    const setHeader = new BinaryWriter(2 + list.length * 2);
+    setHeader.uint16(list.length);
+    const children = list.map((lig) => {
+      const position = setHeader.offset;
+      setHeader.uint16(0);
+      const table = new BinaryWriter(4 + lig.components.length * 2);
+      table.uint16(lig.glyph).uint16(lig.components.length);
+      for (const component of lig.components.slice(1)) table.uint16(component);
+      return { position, data: table.toUint8Array() };
+    });
+    return buildTableWithOffsets(setHeader, children);
+  });
+
+  const header = new BinaryWriter(6 + firstGlyphs.length * 2);
+  header.uint16(1).uint16(0).uint16(firstGlyphs.length);
+  const children = [{ position: 2, data: buildCoverage(firstGlyphs) }];
+  for (const set of ligatureSets) {
+    children.push({ position: header.offset, data: set });
+    header.uint16(0);
+  }
+  return buildTableWithOffsets(header, children);
+}
+
+/**
+ * Chaining context substitution subtable (format 3: one coverage per position)
+ */
+export function buildChainContextSubstitution(
+  backtrack: number[][],
+  input: number[][],
+  lookahead: number[][],
+  records: Array<{ sequenceIndex: number; lookupIndex: number }>
+): Uint8Array {
+  const header = new BinaryWriter();
+  const children: Array<{ position: number; data: Uint8Array }> = [];
+  const writeCoverages = (sequence: number[][]) => {
+    header.uint16(sequence.length);
+    for (const glyphs of sequence) {
+      children.push({ position: header.offset, data: buildCoverage(glyphs) });
+      header.uint16(0);
+    }
+  };
+
+  header.uint16(3);
+  // Backtrack coverages are stored nearest glyph first
+  writeCoverages([...backtrack].reverse());
+  writeCoverages(input);
+  writeCoverages(lookahead);
+  header.uint16(records.length);
+  for (const record of records) header.uint16(record.sequenceIndex).uint16(record.lookupIndex);
+
+  return buildTableWithOffsets(header, children);
+}
+
+/**
+ * Alternate substitution subtable (format 1: a choice of glyphs per covered glyph)
+ */
+export function buildAlternateSubstitution(sets: AlternateSet[]): Uint8Array {
+  const sorted = [...sets].sort((a, b) => a.base - b.base);
+
+  const header = new BinaryWriter(6 + sorted.length * 2);
+  header.uint16(1).uint16(0).uint16(sorted.length);
+  const children = [{ position: 2, data: buildCoverage(sorted.map((set) => set.base)) }];
+  for (const set of sorted) {
+    const choices = new BinaryWriter(2 + set.alternates.length * 2);
+    choices.uint16(set.alternates.length);
+    for (const glyph of set.alternates) choices.uint16(glyph);
+    children.push({ position: header.offset, data: choices.toUint8Array() });
+    header.uint16(0);
+  }
+  return buildTableWithOffsets(header, children);
+}
+
+/**
+ * Lookup applying ligature substitutions
+ */
+export function buildLigatureLookup(ligatures: LigatureSubstitution[]): LayoutLookup {
+  return { type: LOOKUP_LIGATURE, subtables: [buildLigatureSubstitution(ligatures)] };
+}
+
+/**
+ * Contextual alternates that cycle through each character's drawings.
+ *
+ * Every glyph has a "state": 0 for default forms, n for the n-th alternate.
+ * A glyph with alternates following a glyph in state s takes form
+ * (s + 1) mod (alternates + 1), so repeated letters never look identical.
+ * Lookups are returned with the chaining lookup first; it refers to the
+ * single substitutions by index, starting right after it at `firstLookupIndex + 1`.
+ *
+ * `defaultGlyphs` are the glyphs that count as state 0 when they precede a
+ * letter (typically every drawn glyph except spaces, so words start on the
+ * default form).
+ */
+export function buildContextualAlternateLookups(
+  sets: AlternateSet[],
+  defaultGlyphs: number[],
+  firstLookupIndex: number
+): LayoutLookup[] {
+  const usable = sets.filter((set) => set.alternates.length > 0);
+  if (usable.length === 0) return [];
+  const stateCount = Math.max(...usable.map((set) => set.alternates.length + 1));
+
+  const singleLookups: LayoutLookup[] = [];
+  const rules: Uint8Array[] = [];
+  for (let state = 0; state < stateCount; state++) {
+    const mapping = new Map<number, number>();
+    for (const set of usable) {
+      const next = (state + 1) % (set.alternates.length + 1);
+      if (next > 0) mapping.set(set.base, set.alternates[next - 1]);
+    }
+    const stateGlyphs =
+      state === 0
+        ? defaultGlyphs
+        : usable.filter((set) => set.alternates.length >= state).map((set) => set.alternates[state - 1]);
+    if (mapping.size === 0 || stateGlyphs.length === 0) continue;
+
+    const lookupIndex = firstLookupIndex + 1 + singleLookups.length;
+    singleLookups.push({ type: LOOKUP_SINGLE, subtables: [buildSingleSubstitution(mapping)] });
+    rules.push(
+      buildChainContextSubstitution([stateGlyphs], [Array.from(mapping.keys())], [], [
+        { sequenceIndex: 0, lookupIndex },
+      ])
+    );
+  }
+  if (rules.length === 0) return [];
+
+  return [{ type: LOOKUP_CHAINING_CONTEXT, subtables: rules }, ...singleLookups];
+}
+
+/**
+ * Positional forms (initial/medial/final/isolated) chosen by word position.
+ *
+ * Shapers only apply 'init'/'medi'/'fina'/'isol' to scripts like Arabic, so
+ * for Latin the forms are selected by a chaining lookup in 'calt'. Its rules
+ * are tried in order and the first match wins, which expresses "no letter
+ * before/after": a letter between letters is medial, then one after a letter
+ * is final, one before a letter initial, and anything left is isolated.
+ * Rules for a form nobody has drawn still match, leaving the letter as is.
+ * Marks are skipped, so accents do not break a word.
+ *
+ * `letters` are all glyphs that count as part of a word (including forms and
+ * alternates). The chaining lookup comes first; the single substitutions it
+ * refers to start at `firstLookupIndex + 1`.
+ */
+export function buildPositionalFormLookups(
+  letters: number[],
+  forms: Partial<Record<PositionalForm, Map<number, number>>>,
+  firstLookupIndex: number
+): LayoutLookup[] {
+  const used = (['medi', 'fina', 'init', 'isol'] as PositionalForm[]).filter((form) => (forms[form]?.size ?? 0) > 0);
+  if (used.length === 0 || letters.length === 0) return [];
+
+  const lookupIndex = new Map<PositionalForm, number>();
+  const singleLookups: LayoutLookup[] = used.map((form, i) => {
+    lookupIndex.set(form, firstLookupIndex + 1 + i);
+    return { type: LOOKUP_SINGLE, flag: LOOKUP_FLAG_IGNORE_MARKS, subtables: [buildSingleSubstitution(forms[form]!)] };
+  });
+
+  const records = (form: PositionalForm) =>
+    lookupIndex.has(form) ? [{ sequenceIndex: 0, lookupIndex: lookupIndex.get(form)! }] : [];
+  const rules = [
+    buildChainContextSubstitution([letters], [letters], [letters], records('medi')),
+    buildChainContextSubstitution([letters], [letters], [], records('fina')),
+    buildChainContextSubstitution([], [letters], [letters], records('init')),
+    buildChainContextSubstitution([], [letters], [], records('isol')),
+  ];
+
+  return [{ type: LOOKUP_CHAINING_CONTEXT, flag: LOOKUP_FLAG_IGNORE_MARKS, subtables: rules }, ...singleLookups];
+}
+
+/**
+ * Feature tag of a stylistic set, e.g. 1 → "ss01"
+ */
+export function getStylisticSetTag(stylisticSet: number): string {
+  return `ss${String(stylisticSet).padStart(2, '0')}`;
+}
+
+/**
+ * Lookup for one stylistic set, replacing each default glyph with its alternate in the set
+ */
+export function buildStylisticSetLookup(mapping: Map<number, number>): LayoutLookup {
+  return { type: LOOKUP_SINGLE, subtables: [buildSingleSubstitution(mapping)] };
+}
+
+/**
+ * FeatureParams of a stylistic set (version 0), pointing at the name record
+ * applications show as the set's name
+ */
+export function buildStylisticSetParams(uiNameId: number): Uint8Array {
+  const writer = new BinaryWriter(4);
+  writer.uint16(0).uint16(uiNameId);
+  return writer.toUint8Array();
+}
+
+/**
+ * Lookup for 'rand': the shaper picks any of the drawings of a character
+ * marked random, the default form included. Shapers apply rand by default
+ * and after calt, so the sets must not hold alternates calt cycles.
+ */
+export function buildRandomAlternateLookup(sets: AlternateSet[]): LayoutLookup | null {
+  const usable = sets.filter((set) => set.alternates.length > 0);
+  if (usable.length === 0) return null;
+  const choices = usable.map((set) => ({ base: set.base, alternates: [set.base, ...set.alternates] }));
+  return { type: LOOKUP_ALTERNATE, subtables: [buildAlternateSubstitution(choices)] };
+}
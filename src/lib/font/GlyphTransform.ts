@@ -0,0 +1,206 @@
+/**
+ * Font-wide glyph transforms
+ * Affine transforms applied to every drawing of a font before it is built:
+ * glyph outlines, alternates, positional forms, ligatures, placed anchors
+ * and monoline skeletons, with advance widths scaled to match. Transforms
+ * run in the order given; slanting into an italic is the one the settings
+ * offer.
+ */
+
+import opentype from 'opentype.js';
+import type {
+  AnchorName,
+  AnchorPoint,
+  FontMetrics,
+  GlyphData,
+  GlyphForm,
+  GlyphSkeleton,
+  LigatureDefinition,
+  PositionalForm,
+  SlantSettings,
+} from '@/types';
+import type { Contour, ContourSegment, Point } from './Outline';
+
+export const DEFAULT_SLANT: SlantSettings = {
+  angle: 12,
+  compensate: true,
+  output: 'none',
+};
+
+// x' = xx·x + xy·y + dx, y' = yx·x + yy·y + dy
+export interface AffineMatrix {
+  xx: number;
+  xy: number;
+  yx: number;
+  yy: number;
+  dx: number;
+  dy: number;
+}
+
+export interface GlyphTransform {
+  matrix: AffineMatrix;
+  // Factor advance widths are multiplied by
+  advanceScale: number;
+}
+
+// Transformed paths by the path they were made from and the matrix, so that
+// the outline caches of the font builder keep working across rebuilds
+const transformedPaths = new WeakMap<opentype.Path, Map<string, opentype.Path>>();
+
+export function transformPoint(matrix: AffineMatrix, p: Point): Point {
+  return {
+    x: matrix.xx * p.x + matrix.xy * p.y + matrix.dx,
+    y: matrix.yx * p.x + matrix.yy * p.y + matrix.dy,
+  };
+}
+
+/**
+ * Transform `first`, then `second`
+ */
+function compose(first: GlyphTransform, second: GlyphTransform): GlyphTransform {
+  const a = first.matrix;
+  const b = second.matrix;
+  return {
+    matrix: {
+      xx: b.xx * a.xx + b.xy * a.yx,
+      xy: b.xx * a.xy + b.xy * a.yy,
+      yx: b.yx * a.xx + b.yy * a.yx,
+      yy: b.yx * a.xy + b.yy * a.yy,
+      dx: b.xx * a.dx + b.xy * a.dy + b.dx,
+      dy: b.yx * a.dx + b.yy * a.dy + b.dy,
+    },
+    advanceScale: first.advanceScale * second.advanceScale,
+  };
+}
+
+export function transformPath(path: opentype.Path, matrix: AffineMatrix): opentype.Path {
+  const key = JSON.stringify(matrix);
+  const cached = transformedPaths.get(path)?.get(key);
+  if (cached) return cached;
+
+  const at = (x: number, y: number) => transformPoint(matrix, { x, y });
+  const transformed = new opentype.Path();
+  for (const cmd of path.commands) {
+    if (cmd.type === 'Z') {
+      transformed.close();
+    } else if (cmd.type === 'M' || cmd.type === 'L') {
+      const to = at(cmd.x, cmd.y);
+      if (cmd.type === 'M') transformed.moveTo(to.x, to.y);
+      else transformed.lineTo(to.x, to.y);
+    } else if (cmd.type === 'Q') {
+      const c = at(cmd.x1, cmd.y1);
+      const to = at(cmd.x, cmd.y);
+      transformed.quadraticCurveTo(c.x, c.y, to.x, to.y);
+    } else {
+      const c1 = at(cmd.x1, cmd.y1);
+      const c2 = at(cmd.x2, cmd.y2);
+      const to = at(cmd.x, cmd.y);
+      transformed.curveTo(c1.x, c1.y, c2.x, c2.y, to.x, to.y);
+    }
+  }
+
+  const byMatrix = transformedPaths.get(path) ?? new Map<string, opentype.Path>();
+  byMatrix.set(key, transformed);
+  transformedPaths.set(path, byMatrix);
+  return transformed;
+}
+
+/**
+ * Transform contours point by point; curves stay curves of the same kind
+ */
+export function transformContours(contours: Contour[], matrix: AffineMatrix): Contour[] {
+  const at = (p: Point) => transformPoint(matrix, p);
+  return contours.map((contour) => ({
+    start: at(contour.start),
+    segments: contour.segments.map((seg): ContourSegment => {
+      switch (seg.type) {
+        case 'L':
+          return { type: 'L', to: at(seg.to) };
+        case 'Q':
+          return { type: 'Q', c: at(seg.c), to: at(seg.to) };
+        case 'C':
+          return { type: 'C', c1: at(seg.c1), c2: at(seg.c2), to: at(seg.to) };
+      }
+    }),
+  }));
+}
+
+export function translation(dx: number, dy: number): AffineMatrix {
+  return { xx: 1, xy: 0, yx: 0, yy: 1, dx, dy };
+}
+
+/**
+ * Skew leaning right by `angle` degrees around half the x-height, so that
+ * letters stay centred on their advance. The skew leaves horizontal strokes
+ * as thick as they were but thins stems measured across the slant (by the
+ * cosine of the angle); compensation widens the glyphs by as much, so stems
+ * and horizontals keep their balance.
+ */
+export function slantTransform(slant: Pick<SlantSettings, 'angle' | 'compensate'>, metrics: FontMetrics): GlyphTransform {
+  const radians = (slant.angle * Math.PI) / 180;
+  const tan = Math.tan(radians);
+  const scale = slant.compensate ? 1 / Math.cos(radians) : 1;
+  return {
+    matrix: { xx: scale, xy: tan, yx: 0, yy: 1, dx: (-tan * metrics.xHeight) / 2, dy: 0 },
+    advanceScale: scale,
+  };
+}
+
+function transformSkeleton(skeleton: GlyphSkeleton, matrix: AffineMatrix): GlyphSkeleton {
+  return { ...skeleton, strokes: skeleton.strokes.map((stroke) => stroke.map((p) => transformPoint(matrix, p))) };
+}
+
+/**
+ * Apply transforms, in order, to every drawing of a font. Returns new glyph
+ * and ligature data; the originals are left untouched.
+ */
+export function transformFontData(
+  glyphs: Record<number, GlyphData>,
+  ligatures: LigatureDefinition[],
+  transforms: GlyphTransform[]
+): { glyphs: Record<number, GlyphData>; ligatures: LigatureDefinition[] } {
+  if (transforms.length === 0) return { glyphs, ligatures };
+  const { matrix, advanceScale } = transforms.reduce(compose);
+  const advance = (width: number) => Math.round(width * advanceScale);
+
+  const transformed: Record<number, GlyphData> = {};
+  for (const glyph of Object.values(glyphs)) {
+    const forms = glyph.forms
+      ? (Object.fromEntries(
+          Object.entries(glyph.forms).map(([form, drawing]) => [
+            form,
+            { path: transformPath(drawing.path, matrix), advanceWidth: advance(drawing.advanceWidth) },
+          ])
+        ) as Partial<Record<PositionalForm, GlyphForm>>)
+      : undefined;
+    const anchors = glyph.anchors
+      ? (Object.fromEntries(
+          Object.entries(glyph.anchors).map(([name, point]) => [name, transformPoint(matrix, point)])
+        ) as Partial<Record<AnchorName, AnchorPoint>>)
+      : undefined;
+
+    transformed[glyph.unicode] = {
+      ...glyph,
+      path: glyph.path && transformPath(glyph.path, matrix),
+      advanceWidth: advance(glyph.advanceWidth),
+      skeleton: glyph.skeleton && transformSkeleton(glyph.skeleton, matrix),
+      alternates: glyph.alternates?.map((alternate) => ({
+        ...alternate,
+        path: transformPath(alternate.path, matrix),
+        advanceWidth: advance(alternate.advanceWidth),
+        skeleton: alternate.skeleton && transformSkeleton(alternate.skeleton, matrix),
+      })),
+      anchors,
+      forms,
+    };
+  }
+
+  return {
+    glyphs: transformed,
+    ligatures: ligatures.map((lig) => ({
+      ...lig,
+      path: lig.path && transformPath(lig.path, matrix),
+      advanceWidth: advance(lig.advanceWidth),
+    })),
+  };
+}
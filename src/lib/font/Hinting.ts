@@ -0,0 +1,370 @@
+/**
+ * TrueType autohinter
+ * Writes instructions that fit outlines to the pixel grid vertically, the
+ * direction that matters for small UI text: ClearType and FreeType smooth
+ * horizontally and only honour hints along y. Edges are the flat tops and
+ * bottoms of contours. Those near the baseline, x-height, cap height,
+ * ascender or descender snap to that blue zone's rounded height, the edge
+ * across a horizontal stem follows at the font's standard stem width, and
+ * the remaining edges are placed between the snapped ones. Every other
+ * point is interpolated.
+ */
+
+import { BinaryWriter } from './BinaryWriter';
+import type { Point } from './Outline';
+import type { FontMetrics } from '@/types';
+
+// A glyf point, on or off the curve
+export interface HintPoint extends Point {
+  onCurve: boolean;
+}
+
+export interface HintingProgram {
+  // cvt, fpgm and prep
+  tables: Map<string, Uint8Array>;
+  // Instructions of each glyph, by glyph index
+  instructions: Uint8Array[];
+  // maxp limits the programs stay within
+  maxFunctionDefs: number;
+  maxStackElements: number;
+  maxSizeOfInstructions: number;
+}
+
+// Points within this many font units of each other's height form one edge
+const EDGE_FLATNESS = 1;
+
+// How far above and below an edge the outline is probed for ink, font units
+const INK_PROBE = 2;
+
+// Edges within this share of the em of a blue zone snap to it
+const BLUE_FUZZ_SHARE = 0.04;
+
+// Thickest horizontal stroke linked as a stem, as a share of the em
+const MAX_STEM_SHARE = 0.2;
+
+// Standard stem width when no glyph has a horizontal stem, as a share of the em
+const DEFAULT_STEM_SHARE = 0.08;
+
+// Control value table entries
+const CVT_BASELINE = 0;
+const CVT_X_HEIGHT = 1;
+const CVT_CAP_HEIGHT = 2;
+const CVT_ASCENDER = 3;
+const CVT_DESCENDER = 4;
+const CVT_STEM = 5;
+
+// Function 0: place the point on the stack between rp1 and rp2, rounded
+const FN_INTERPOLATE = 0;
+
+// Instruction opcodes
+const SVTCA_Y = 0x00;
+const SRP0 = 0x10;
+const SRP1 = 0x11;
+const SRP2 = 0x12;
+const SLOOP = 0x17;
+const DUP = 0x20;
+const CALL = 0x2b;
+const FDEF = 0x2c;
+const ENDF = 0x2d;
+const MDAP_ROUND = 0x2f;
+const IUP_Y = 0x30;
+const IP = 0x39;
+const ALIGNRP = 0x3c;
+const MIAP_ROUND = 0x3f;
+const NPUSHB = 0x40;
+const NPUSHW = 0x41;
+const SCANCTRL = 0x85;
+const SCANTYPE = 0x8d;
+const PUSHB = 0xb0;
+const PUSHW = 0xb8;
+// MIRP that sets rp0, keeps the minimum distance and rounds (grey distance)
+const MIRP_STEM = 0xfc;
+
+// gasp range behaviour flags
+const GASP_GRIDFIT = 0x0001;
+const GASP_DOGRAY = 0x0002;
+const GASP_SYMMETRIC_GRIDFIT = 0x0004;
+const GASP_SYMMETRIC_SMOOTHING = 0x0008;
+
+// Sizes up to this many pixels per em are smoothed but not grid-fitted
+const GASP_SMOOTH_ONLY_PPEM = 8;
+
+type EdgeSide = 'top' | 'bottom';
+
+// A flat run of outline points at the top or bottom of a stroke
+interface Edge {
+  // Glyph point indices, the first one the edge is moved by
+  points: number[];
+  y: number;
+  xMin: number;
+  xMax: number;
+  // Top edges have ink below them, bottom edges above
+  side: EdgeSide;
+  blue?: number;
+  stem?: Edge;
+}
+
+interface BlueZone {
+  cvt: number;
+  y: number;
+  side: EdgeSide;
+}
+
+// Instructions of one program and the most values it holds on the stack
+interface Assembler {
+  bytes: number[];
+  maxStack: number;
+}
+
+function blueZones(metrics: FontMetrics): BlueZone[] {
+  return [
+    { cvt: CVT_BASELINE, y: 0, side: 'bottom' },
+    { cvt: CVT_DESCENDER, y: metrics.descender, side: 'bottom' },
+    { cvt: CVT_X_HEIGHT, y: metrics.xHeight, side: 'top' },
+    { cvt: CVT_CAP_HEIGHT, y: metrics.capHeight, side: 'top' },
+    { cvt: CVT_ASCENDER, y: metrics.ascender, side: 'top' },
+  ];
+}
+
+/**
+ * Nonzero winding of the glyph's control polygons around a point; close
+ * enough to the curves right next to the on-curve points edges start from
+ */
+function windingAt(contours: HintPoint[][], x: number, y: number): number {
+  let winding = 0;
+  for (const contour of contours) {
+    for (let i = 0, j = contour.length - 1; i < contour.length; j = i++) {
+      const a = contour[j];
+      const b = contour[i];
+      if (a.y > y === b.y > y) continue;
+      const crossing = a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (x < crossing) winding += b.y > a.y ? 1 : -1;
+    }
+  }
+  return winding;
+}
+
+/**
+ * Flat runs of points where a contour turns around vertically, with the
+ * side the ink is on; runs without an on-curve point aren't reached by
+ * the outline and are left out
+ */
+function findEdges(contours: HintPoint[][]): Edge[] {
+  const edges: Edge[] = [];
+  let offset = 0;
+  for (const contour of contours) {
+    const n = contour.length;
+    const flat = (i: number, y: number) => Math.abs(contour[(i + n) % n].y - y) <= EDGE_FLATNESS;
+    // Start at the first point of a run so no run wraps around
+    const start = contour.findIndex((p, i) => !flat(i - 1, p.y));
+    if (start < 0) {
+      offset += n;
+      continue;
+    }
+
+    for (let i = start; i < start + n; ) {
+      const y = contour[i % n].y;
+      let end = i;
+      while (end + 1 < start + n && flat(end + 1, y)) end++;
+      const before = contour[(i - 1 + n) % n].y;
+      const after = contour[(end + 1) % n].y;
+      const run = Array.from({ length: end - i + 1 }, (_, k) => (i + k) % n);
+      i = end + 1;
+
+      const turns = (before > y && after > y) || (before < y && after < y);
+      if (!turns || !run.some((k) => contour[k].onCurve)) continue;
+
+      const xs = run.map((k) => contour[k].x);
+      const xMin = Math.min(...xs);
+      const xMax = Math.max(...xs);
+      const x = (xMin + xMax) / 2;
+      const inkAbove = windingAt(contours, x, y + INK_PROBE) !== 0;
+      const inkBelow = windingAt(contours, x, y - INK_PROBE) !== 0;
+      if (inkAbove === inkBelow) continue;
+
+      // The first on-curve point leads the edge
+      run.sort((a, b) => Number(contour[b].onCurve) - Number(contour[a].onCurve));
+      edges.push({ points: run.map((k) => offset + k), y, xMin, xMax, side: inkBelow ? 'top' : 'bottom' });
+    }
+    offset += n;
+  }
+  return edges;
+}
+
+/**
+ * Pair each edge with the nearest edge across the stroke it bounds: the
+ * other side of the ink, horizontally within reach and not too far away
+ */
+function linkStems(edges: Edge[], contours: HintPoint[][], maxStem: number): void {
+  for (const edge of edges) {
+    let best: { edge: Edge; distance: number } | null = null;
+    for (const other of edges) {
+      if (other.side === edge.side) continue;
+      const distance = edge.side === 'top' ? edge.y - other.y : other.y - edge.y;
+      if (distance <= 0 || distance > maxStem || (best && distance >= best.distance)) continue;
+      if (other.xMax < edge.xMin - maxStem || other.xMin > edge.xMax + maxStem) continue;
+      const x = (edge.xMin + edge.xMax + other.xMin + other.xMax) / 4;
+      if (windingAt(contours, x, (edge.y + other.y) / 2) === 0) continue;
+      best = { edge: other, distance };
+    }
+    edge.stem = best?.edge;
+  }
+}
+
+function push(program: Assembler, values: number[]): void {
+  // One more for the DUP in function 0
+  program.maxStack = Math.max(program.maxStack, values.length + 1);
+  for (let start = 0; start < values.length; start += 255) {
+    const chunk = values.slice(start, start + 255);
+    const words = chunk.some((v) => v < 0 || v > 255);
+    if (chunk.length <= 8) program.bytes.push((words ? PUSHW : PUSHB) + chunk.length - 1);
+    else program.bytes.push(words ? NPUSHW : NPUSHB, chunk.length);
+    for (const value of chunk) {
+      if (words) program.bytes.push((value >> 8) & 0xff, value & 0xff);
+      else program.bytes.push(value);
+    }
+  }
+}
+
+// Move points to the height of rp0
+function alignPoints(program: Assembler, points: number[]): void {
+  if (points.length === 0) return;
+  if (points.length === 1) {
+    push(program, points);
+  } else {
+    push(program, [...points, points.length]);
+    program.bytes.push(SLOOP);
+  }
+  program.bytes.push(ALIGNRP);
+}
+
+/**
+ * Instructions for one glyph: blue edges first, then their stems, then the
+ * remaining edges between the nearest placed ones
+ */
+function hintGlyph(edges: Edge[]): Assembler {
+  const program: Assembler = { bytes: [], maxStack: 0 };
+  if (edges.length === 0) return program;
+  program.bytes.push(SVTCA_Y);
+
+  const placed = new Set<Edge>();
+  const linkStem = (edge: Edge) => {
+    const stem = edge.stem;
+    if (!stem || placed.has(stem)) return;
+    push(program, [stem.points[0], CVT_STEM]);
+    program.bytes.push(MIRP_STEM);
+    alignPoints(program, stem.points.slice(1));
+    placed.add(stem);
+  };
+
+  const sorted = [...edges].sort((a, b) => a.y - b.y);
+  for (const edge of sorted) {
+    if (edge.blue === undefined || placed.has(edge)) continue;
+    push(program, [edge.points[0], edge.blue]);
+    program.bytes.push(MIAP_ROUND);
+    alignPoints(program, edge.points.slice(1));
+    placed.add(edge);
+    linkStem(edge);
+  }
+
+  for (const edge of sorted) {
+    if (placed.has(edge)) continue;
+    const level = [...placed].find((p) => Math.abs(p.y - edge.y) <= EDGE_FLATNESS);
+    const below = [...placed].filter((p) => p.y < edge.y).sort((a, b) => b.y - a.y)[0];
+    const above = [...placed].filter((p) => p.y > edge.y).sort((a, b) => a.y - b.y)[0];
+    if (level) {
+      push(program, [level.points[0]]);
+      program.bytes.push(SRP0);
+      alignPoints(program, edge.points);
+    } else if (below && above) {
+      push(program, [below.points[0]]);
+      program.bytes.push(SRP1);
+      push(program, [above.points[0]]);
+      program.bytes.push(SRP2);
+      push(program, [edge.points[0], FN_INTERPOLATE]);
+      program.bytes.push(CALL);
+      alignPoints(program, edge.points.slice(1));
+    } else {
+      push(program, [edge.points[0]]);
+      program.bytes.push(MDAP_ROUND);
+      alignPoints(program, edge.points.slice(1));
+    }
+    placed.add(edge);
+    linkStem(edge);
+  }
+
+  program.bytes.push(IUP_Y);
+  return program;
+}
+
+/**
+ * Hint every glyph of a font. `glyphs` holds each glyph's contours as they
+ * are written to glyf, so point indices match; the blue zones come from
+ * `metrics` and the standard stem width is the median one found.
+ */
+export function autohint(glyphs: HintPoint[][][], metrics: FontMetrics): HintingProgram {
+  const zones = blueZones(metrics);
+  const fuzz = metrics.unitsPerEm * BLUE_FUZZ_SHARE;
+  const maxStem = metrics.unitsPerEm * MAX_STEM_SHARE;
+
+  const glyphEdges = glyphs.map((contours) => {
+    const nonEmpty = contours.filter((c) => c.length > 0);
+    const edges = findEdges(nonEmpty);
+    for (const edge of edges) {
+      const zone = zones
+        .filter((z) => z.side === edge.side && Math.abs(z.y - edge.y) <= fuzz)
+        .sort((a, b) => Math.abs(a.y - edge.y) - Math.abs(b.y - edge.y))[0];
+      edge.blue = zone?.cvt;
+    }
+    linkStems(edges, nonEmpty, maxStem);
+    return edges;
+  });
+
+  const stems = glyphEdges
+    .flat()
+    .filter((edge) => edge.side === 'top' && edge.stem)
+    .map((edge) => edge.y - edge.stem!.y)
+    .sort((a, b) => a - b);
+  const stemWidth =
+    stems.length > 0 ? stems[Math.floor(stems.length / 2)] : metrics.unitsPerEm * DEFAULT_STEM_SHARE;
+
+  const cvt = new BinaryWriter(12);
+  for (const value of [0, metrics.xHeight, metrics.capHeight, metrics.ascender, metrics.descender, stemWidth]) {
+    cvt.int16(Math.round(value));
+  }
+  const fpgm = [PUSHB, FN_INTERPOLATE, FDEF, DUP, IP, MDAP_ROUND, ENDF];
+  // Dropout control at every size, so thin strokes never break up
+  const prep = [PUSHW, 0x01, 0xff, SCANCTRL, PUSHB, 4, SCANTYPE];
+
+  const programs = glyphEdges.map(hintGlyph);
+  return {
+    tables: new Map([
+      ['cvt ', cvt.toUint8Array()],
+      ['fpgm', new Uint8Array(fpgm)],
+      ['prep', new Uint8Array(prep)],
+    ]),
+    instructions: programs.map((program) => new Uint8Array(program.bytes)),
+    maxFunctionDefs: 1,
+    maxStackElements: Math.max(2, ...programs.map((program) => program.maxStack)),
+    maxSizeOfInstructions: Math.max(fpgm.length, prep.length, ...programs.map((program) => program.bytes.length)),
+  };
+}
+
+/**
+ * gasp table: hinted fonts are grid-fitted from small sizes up, unhinted
+ * ones are only smoothed
+ */
+export function buildGaspTable(hinted: boolean): Uint8Array {
+  const smooth = GASP_DOGRAY | GASP_SYMMETRIC_SMOOTHING;
+  const ranges = hinted
+    ? [
+        { maxPpem: GASP_SMOOTH_ONLY_PPEM, behavior: smooth },
+        { maxPpem: 0xffff, behavior: smooth | GASP_GRIDFIT | GASP_SYMMETRIC_GRIDFIT },
+      ]
+    : [{ maxPpem: 0xffff, behavior: smooth }];
+
+  const gasp = new BinaryWriter(4 + ranges.length * 4);
+  gasp.uint16(1).uint16(ranges.length);
+  for (const range of ranges) gasp.uint16(range.maxPpem).uint16(range.behavior);
+  return gasp.toUint8Array();
+}
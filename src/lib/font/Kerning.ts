@@ -0,0 +1,356 @@
+/**
+ * Kerning model helpers and compilation
+ * Turns the store's KerningData (glyph pairs + classes) into a GPOS pair
+ * adjustment lookup and a legacy 'kern' table for older renderers.
+ */
+
+import type { CharacterDefinition, KerningClass, KerningData, KerningPair } from '@/types';
+import { ALL_CHARACTERS } from '@/lib/constants/characters';
+import { BinaryWriter } from './BinaryWriter';
+import {
+  buildClassDef,
+  buildCoverage,
+  buildTableWithOffsets,
+  type LayoutLookup,
+} from './OpenTypeLayout';
+
+// Accent suffixes used in glyph names such as "Agrave" or "ccedilla"
+const ACCENT_SUFFIXES = ['grave', 'acute', 'circumflex', 'tilde', 'dieresis', 'ring', 'cedilla', 'caron', 'slash'];
+
+// Keep PairPos subtables well below the 16-bit offset limit
+const MAX_SUBTABLE_SIZE = 60000;
+
+// A format 0 kern subtable has a 16-bit length: 14 header bytes + 6 bytes per pair
+const MAX_KERN_TABLE_PAIRS = Math.floor((0xffff - 14) / 6);
+
+// GPOS ValueFormat bit for an x-advance adjustment
+const VALUE_FORMAT_X_ADVANCE = 0x0004;
+
+/**
+ * Build left and right kerning classes from character groups:
+ * each base letter shares its classes with its accented forms (A, À, Á, ...).
+ */
+export function buildKerningClassesFromCharacters(
+  characters: CharacterDefinition[] = ALL_CHARACTERS
+): KerningClass[] {
+  const classes: KerningClass[] = [];
+  const bases = characters.filter((c) => c.category === 'uppercase' || c.category === 'lowercase');
+
+  for (const base of bases) {
+    const accented = characters.filter(
+      (c) => c.category === 'accented' && ACCENT_SUFFIXES.some((suffix) => c.name === base.name + suffix)
+    );
+    if (accented.length === 0) continue;
+
+    const members = [base.unicode, ...accented.map((c) => c.unicode)];
+    classes.push(
+      { id: `kc_left_${base.name}`, name: base.name, side: 'left', members },
+      { id: `kc_right_${base.name}`, name: base.name, side: 'right', members: [...members] }
+    );
+  }
+
+  return classes;
+}
+
+/**
+ * The pair that kerns two characters, if any.
+ * Glyph pairs win over glyph/class pairs, which win over class pairs.
+ */
+export function findKerningPair(kerning: KerningData, left: number, right: number): KerningPair | undefined {
+  const leftClass = findKerningClass(kerning, 'left', left);
+  const rightClass = findKerningClass(kerning, 'right', right);
+
+  const candidates: Array<[number | string | undefined, number | string | undefined]> = [
+    [left, right],
+    [left, rightClass?.id],
+    [leftClass?.id, right],
+    [leftClass?.id, rightClass?.id],
+  ];
+  for (const [l, r] of candidates) {
+    if (l === undefined || r === undefined) continue;
+    const pair = kerning.pairs.find((p) => p.left === l && p.right === r);
+    if (pair) return pair;
+  }
+  return undefined;
+}
+
+/**
+ * Look up the effective kerning between two characters.
+ */
+export function getKerningValue(kerning: KerningData, left: number, right: number): number {
+  return findKerningPair(kerning, left, right)?.value ?? 0;
+}
+
+export function findKerningClass(kerning: KerningData, side: 'left' | 'right', unicode: number): KerningClass | undefined {
+  return kerning.classes.find((c) => c.side === side && c.members.includes(unicode));
+}
+
+/**
+ * Sides of the class pair two characters fall under: each character's class,
+ * or the character itself when it has none
+ */
+export function classPairSides(kerning: KerningData, left: number, right: number): [number | string, number | string] {
+  return [
+    findKerningClass(kerning, 'left', left)?.id ?? left,
+    findKerningClass(kerning, 'right', right)?.id ?? right,
+  ];
+}
+
+/**
+ * Whether a pair names a glyph that also belongs to a class on that side,
+ * overriding the class kerning for it
+ */
+export function isKerningException(kerning: KerningData, pair: KerningPair): boolean {
+  return (
+    (typeof pair.left === 'number' && findKerningClass(kerning, 'left', pair.left) !== undefined) ||
+    (typeof pair.right === 'number' && findKerningClass(kerning, 'right', pair.right) !== undefined)
+  );
+}
+
+export interface ResolvedKerning {
+  // Glyph-specific pairs (glyph index → glyph index → value), including expanded glyph/class pairs
+  glyphPairs: Map<number, Map<number, number>>;
+  // Class kerning: glyph index → class number (1-based), and values[leftClass][rightClass]
+  leftClasses: Map<number, number>;
+  rightClasses: Map<number, number>;
+  classValues: number[][];
+}
+
+/**
+ * Resolve unicode-based kerning data against the glyphs present in a font.
+ * Pairs referencing characters without a glyph are dropped.
+ */
+export function resolveKerning(
+  kerning: KerningData,
+  glyphIndexByUnicode: Map<number, number>
+): ResolvedKerning {
+  const classById = new Map(kerning.classes.map((c) => [c.id, c]));
+
+  // A glyph can only be in one class per side; the first class listing it wins
+  const claimed = { left: new Set<number>(), right: new Set<number>() };
+  const classGlyphs = new Map<string, number[]>();
+  for (const kerningClass of kerning.classes) {
+    const glyphIds: number[] = [];
+    for (const unicode of kerningClass.members) {
+      const glyphId = glyphIndexByUnicode.get(unicode);
+      if (glyphId === undefined || claimed[kerningClass.side].has(glyphId)) continue;
+      claimed[kerningClass.side].add(glyphId);
+      glyphIds.push(glyphId);
+    }
+    classGlyphs.set(kerningClass.id, glyphIds);
+  }
+
+  const sideGlyphs = (side: number | string, expected: 'left' | 'right'): number[] => {
+    if (typeof side === 'number') {
+      const glyphId = glyphIndexByUnicode.get(side);
+      return glyphId === undefined ? [] : [glyphId];
+    }
+    return classById.get(side)?.side === expected ? classGlyphs.get(side) ?? [] : [];
+  };
+
+  const glyphPairs = new Map<number, Map<number, number>>();
+  const setGlyphPair = (left: number, right: number, value: number, override: boolean) => {
+    let row = glyphPairs.get(left);
+    if (!row) {
+      row = new Map();
+      glyphPairs.set(left, row);
+    }
+    if (override || !row.has(right)) row.set(right, value);
+  };
+
+  // Exact glyph pairs first, then glyph/class exceptions fill in around them:
+  // glyph|class before class|glyph, the precedence findKerningPair applies
+  const expand = (kind: (pair: KerningPair) => boolean, override: boolean) => {
+    for (const pair of kerning.pairs.filter(kind)) {
+      for (const l of sideGlyphs(pair.left, 'left')) {
+        for (const r of sideGlyphs(pair.right, 'right')) setGlyphPair(l, r, pair.value, override);
+      }
+    }
+  };
+  expand((pair) => typeof pair.left === 'number' && typeof pair.right === 'number', true);
+  expand((pair) => typeof pair.left === 'number' && typeof pair.right === 'string', false);
+  expand((pair) => typeof pair.left === 'string' && typeof pair.right === 'number', false);
+
+  // Class pairs: number only the classes that are actually used
+  const classPairs = kerning.pairs.filter(
+    (p) =>
+      typeof p.left === 'string' &&
+      typeof p.right === 'string' &&
+      sideGlyphs(p.left, 'left').length > 0 &&
+      sideGlyphs(p.right, 'right').length > 0
+  );
+  const leftClassNumber = new Map<string, number>();
+  const rightClassNumber = new Map<string, number>();
+  for (const pair of classPairs) {
+    if (!leftClassNumber.has(pair.left as string)) leftClassNumber.set(pair.left as string, leftClassNumber.size + 1);
+    if (!rightClassNumber.has(pair.right as string)) rightClassNumber.set(pair.right as string, rightClassNumber.size + 1);
+  }
+
+  const leftClasses = new Map<number, number>();
+  for (const [id, number] of leftClassNumber) {
+    for (const glyphId of classGlyphs.get(id) ?? []) leftClasses.set(glyphId, number);
+  }
+  const rightClasses = new Map<number, number>();
+  for (const [id, number] of rightClassNumber) {
+    for (const glyphId of classGlyphs.get(id) ?? []) rightClasses.set(glyphId, number);
+  }
+
+  const classValues = Array.from({ length: leftClassNumber.size + 1 }, () =>
+    new Array<number>(rightClassNumber.size + 1).fill(0)
+  );
+  for (const pair of classPairs) {
+    classValues[leftClassNumber.get(pair.left as string)!][rightClassNumber.get(pair.right as string)!] = pair.value;
+  }
+
+  return { glyphPairs, leftClasses, rightClasses, classValues };
+}
+
+/**
+ * PairPos format 1 subtable for a run of left glyphs
+ */
+function buildPairPosFormat1(rows: Array<[number, Map<number, number>]>): Uint8Array {
+  const header = new BinaryWriter();
+  header
+    .uint16(1)
+    .uint16(0) // coverage offset, patched below
+    .uint16(VALUE_FORMAT_X_ADVANCE)
+    .uint16(0)
+    .uint16(rows.length);
+
+  const children: Array<{ position: number; data: Uint8Array }> = [
+    { position: 2, data: buildCoverage(rows.map(([left]) => left)) },
+  ];
+
+  for (const [, row] of rows) {
+    const pairSet = new BinaryWriter();
+    const seconds = Array.from(row.entries()).sort((a, b) => a[0] - b[0]);
+    pairSet.uint16(seconds.length);
+    for (const [right, value] of seconds) pairSet.uint16(right).int16(value);
+    children.push({ position: header.offset, data: pairSet.toUint8Array() });
+    header.uint16(0);
+  }
+
+  return buildTableWithOffsets(header, children);
+}
+
+/**
+ * PairPos format 2 subtable (class pairs)
+ */
+function buildPairPosFormat2(resolved: ResolvedKerning): Uint8Array {
+  const class1Count = resolved.classValues.length;
+  const class2Count = resolved.classValues[0].length;
+
+  const header = new BinaryWriter();
+  header
+    .uint16(2)
+    .uint16(0) // coverage offset
+    .uint16(VALUE_FORMAT_X_ADVANCE)
+    .uint16(0)
+    .uint16(0) // classDef1 offset
+    .uint16(0) // classDef2 offset
+    .uint16(class1Count)
+    .uint16(class2Count);
+  for (const row of resolved.classValues) {
+    for (const value of row) header.int16(value);
+  }
+
+  return buildTableWithOffsets(header, [
+    { position: 2, data: buildCoverage(resolved.leftClasses.keys()) },
+    { position: 8, data: buildClassDef(resolved.leftClasses) },
+    { position: 10, data: buildClassDef(resolved.rightClasses) },
+  ]);
+}
+
+/**
+ * Build the GPOS pair adjustment lookup (type 2) for the 'kern' feature.
+ * Glyph pair subtables come first so they act as exceptions to class kerning.
+ * Returns null when there is nothing to kern.
+ */
+export function buildKerningLookup(resolved: ResolvedKerning): LayoutLookup | null {
+  const subtables: Uint8Array[] = [];
+
+  const rows = Array.from(resolved.glyphPairs.entries())
+    .filter(([, row]) => row.size > 0)
+    .sort((a, b) => a[0] - b[0]);
+
+  let chunk: Array<[number, Map<number, number>]> = [];
+  let chunkSize = 10;
+  for (const row of rows) {
+    const rowSize = 6 + row[1].size * 4; // coverage + offset + pair set
+    if (chunk.length > 0 && chunkSize + rowSize > MAX_SUBTABLE_SIZE) {
+      subtables.push(buildPairPosFormat1(chunk));
+      chunk = [];
+      chunkSize = 10;
+    }
+    chunk.push(row);
+    chunkSize += rowSize;
+  }
+  if (chunk.length > 0) subtables.push(buildPairPosFormat1(chunk));
+
+  if (resolved.leftClasses.size > 0 && resolved.rightClasses.size > 0) {
+    subtables.push(buildPairPosFormat2(resolved));
+  }
+
+  return subtables.length > 0 ? { type: 2, subtables } : null;
+}
+
+/**
+ * Build a legacy 'kern' table (version 0, one format 0 subtable).
+ * Classes are flattened into glyph pairs; if the result does not fit,
+ * the pairs with the largest adjustments are kept.
+ */
+export function buildKernTable(resolved: ResolvedKerning): Uint8Array | null {
+  const pairs = new Map<number, number>(); // (left << 16 | right) → value
+
+  const leftByClass = new Map<number, number[]>();
+  for (const [glyph, cls] of resolved.leftClasses) {
+    leftByClass.set(cls, [...(leftByClass.get(cls) ?? []), glyph]);
+  }
+  const rightByClass = new Map<number, number[]>();
+  for (const [glyph, cls] of resolved.rightClasses) {
+    rightByClass.set(cls, [...(rightByClass.get(cls) ?? []), glyph]);
+  }
+  resolved.classValues.forEach((row, leftClass) => {
+    row.forEach((value, rightClass) => {
+      if (value === 0) return;
+      for (const left of leftByClass.get(leftClass) ?? []) {
+        for (const right of rightByClass.get(rightClass) ?? []) {
+          pairs.set(left * 65536 + right, value);
+        }
+      }
+    });
+  });
+
+  for (const [left, row] of resolved.glyphPairs) {
+    for (const [right, value] of row) pairs.set(left * 65536 + right, value);
+  }
+
+  let entries = Array.from(pairs.entries()).filter(([, value]) => value !== 0);
+  if (entries.length === 0) return null;
+  if (entries.length > MAX_KERN_TABLE_PAIRS) {
+    entries = entries
+      .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+      .slice(0, MAX_KERN_TABLE_PAIRS);
+  }
+  entries.sort((a, b) => a[0] - b[0]);
+
+  let entrySelector = 0;
+  while (1 << (entrySelector + 1) <= entries.length) entrySelector++;
+  const searchRange = (1 << entrySelector) * 6;
+
+  const writer = new BinaryWriter(18 + entries.length * 6);
+  writer
+    .uint16(0) // table version
+    .uint16(1) // number of subtables
+    .uint16(0) // subtable version
+    .uint16(14 + entries.length * 6)
+    .uint16(0x0001) // horizontal kerning, format 0
+    .uint16(entries.length)
+    .uint16(searchRange)
+    .uint16(entrySelector)
+    .uint16(entries.length * 6 - searchRange);
+  for (const [key, value] of entries) {
+    writer.uint16(Math.floor(key / 65536)).uint16(key % 65536).int16(value);
+  }
+  return writer.toUint8Array();
+}
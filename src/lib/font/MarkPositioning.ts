@@ -0,0 +1,156 @@
+/**
+ * Mark attachment: GPOS mark-to-base ('mark') and mark-to-mark ('mkmk')
+ * lookups plus the GDEF glyph classes they rely on, so decomposed text such
+ * as "e" + U+0301 places the accent on the anchors of the actual glyphs.
+ */
+
+import type { AnchorName, AnchorPoint } from '@/types';
+import { BinaryWriter } from './BinaryWriter';
+import { buildClassDef, buildCoverage, buildTableWithOffsets, type LayoutLookup } from './OpenTypeLayout';
+import { getAttachmentAnchorName, MARK_POSITIONS } from './Anchors';
+
+// GPOS lookup types
+const LOOKUP_MARK_TO_BASE = 4;
+const LOOKUP_MARK_TO_MARK = 6;
+
+// GDEF glyph classes
+export const GLYPH_CLASS_BASE = 1;
+export const GLYPH_CLASS_LIGATURE = 2;
+export const GLYPH_CLASS_MARK = 3;
+
+/**
+ * A glyph with its anchors in font units
+ */
+export interface AnchoredGlyph {
+  glyph: number;
+  isMark: boolean;
+  anchors: Partial<Record<AnchorName, AnchorPoint>>;
+}
+
+interface MarkRecord {
+  glyph: number;
+  markClass: number;
+  anchor: AnchorPoint;
+}
+
+interface BaseRecord {
+  glyph: number;
+  // One anchor per mark class, null when marks of that class do not attach
+  anchors: Array<AnchorPoint | null>;
+}
+
+/**
+ * Anchor table (format 1: design units only)
+ */
+export function buildAnchor(point: AnchorPoint): Uint8Array {
+  const writer = new BinaryWriter(6);
+  writer.uint16(1).int16(Math.round(point.x)).int16(Math.round(point.y));
+  return writer.toUint8Array();
+}
+
+function buildMarkArray(marks: MarkRecord[]): Uint8Array {
+  const header = new BinaryWriter(2 + marks.length * 4);
+  header.uint16(marks.length);
+  const children = marks.map((mark) => {
+    header.uint16(mark.markClass);
+    const position = header.offset;
+    header.uint16(0);
+    return { position, data: buildAnchor(mark.anchor) };
+  });
+  return buildTableWithOffsets(header, children);
+}
+
+function buildBaseArray(bases: BaseRecord[], classCount: number): Uint8Array {
+  const header = new BinaryWriter(2 + bases.length * classCount * 2);
+  header.uint16(bases.length);
+  const children: Array<{ position: number; data: Uint8Array }> = [];
+  for (const base of bases) {
+    for (let cls = 0; cls < classCount; cls++) {
+      const anchor = base.anchors[cls];
+      if (anchor) children.push({ position: header.offset, data: buildAnchor(anchor) });
+      header.uint16(0); // null offset when there is no anchor
+    }
+  }
+  return buildTableWithOffsets(header, children);
+}
+
+/**
+ * MarkBasePos / MarkMarkPos subtable (format 1; both share this layout)
+ */
+export function buildMarkAttachmentSubtable(
+  marks: MarkRecord[],
+  bases: BaseRecord[],
+  classCount: number
+): Uint8Array {
+  const sortedMarks = [...marks].sort((a, b) => a.glyph - b.glyph);
+  const sortedBases = [...bases].sort((a, b) => a.glyph - b.glyph);
+
+  const header = new BinaryWriter(12);
+  header.uint16(1).uint16(0).uint16(0).uint16(classCount).uint16(0).uint16(0);
+  return buildTableWithOffsets(header, [
+    { position: 2, data: buildCoverage(sortedMarks.map((mark) => mark.glyph)) },
+    { position: 4, data: buildCoverage(sortedBases.map((base) => base.glyph)) },
+    { position: 8, data: buildMarkArray(sortedMarks) },
+    { position: 10, data: buildBaseArray(sortedBases, classCount) },
+  ]);
+}
+
+/**
+ * Build the 'mark' and 'mkmk' lookups.
+ * Mark classes are the positions (top, bottom) used by at least one mark;
+ * a mark attaches with its "_top"/"_bottom" anchor, bases (and marks, for
+ * mkmk) offer their "top"/"bottom" anchors.
+ */
+export function buildMarkPositioningLookups(glyphs: AnchoredGlyph[]): {
+  mark: LayoutLookup | null;
+  mkmk: LayoutLookup | null;
+} {
+  const marks = glyphs.filter((glyph) => glyph.isMark);
+  const positions = MARK_POSITIONS.filter((position) =>
+    marks.some((mark) => mark.anchors[getAttachmentAnchorName(position)])
+  );
+  if (positions.length === 0) return { mark: null, mkmk: null };
+
+  const markRecords: MarkRecord[] = [];
+  for (const mark of marks) {
+    positions.forEach((position, markClass) => {
+      const anchor = mark.anchors[getAttachmentAnchorName(position)];
+      if (anchor) markRecords.push({ glyph: mark.glyph, markClass, anchor });
+    });
+  }
+
+  const toBaseRecord = (glyph: AnchoredGlyph): BaseRecord => ({
+    glyph: glyph.glyph,
+    anchors: positions.map((position) => glyph.anchors[position] ?? null),
+  });
+  const hasAnchor = (record: BaseRecord) => record.anchors.some(Boolean);
+
+  const baseRecords = glyphs.filter((glyph) => !glyph.isMark).map(toBaseRecord).filter(hasAnchor);
+  const mark2Records = marks.map(toBaseRecord).filter(hasAnchor);
+
+  return {
+    mark:
+      baseRecords.length > 0
+        ? {
+            type: LOOKUP_MARK_TO_BASE,
+            subtables: [buildMarkAttachmentSubtable(markRecords, baseRecords, positions.length)],
+          }
+        : null,
+    mkmk:
+      mark2Records.length > 0
+        ? {
+            type: LOOKUP_MARK_TO_MARK,
+            subtables: [buildMarkAttachmentSubtable(markRecords, mark2Records, positions.length)],
+          }
+        : null,
+  };
+}
+
+/**
+ * GDEF table (version 1.0) with only a glyph class definition
+ */
+export function buildGdefTable(glyphClasses: Map<number, number>): Uint8Array {
+  const header = new BinaryWriter(12);
+  header.uint32(0x00010000).uint16(0).uint16(0).uint16(0).uint16(0);
+  return buildTableWithOffsets(header, [{ position: 4, data: buildClassDef(glyphClasses) }]);
+}
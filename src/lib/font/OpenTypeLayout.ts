@@ -0,0 +1,247 @@
+/**
+ * Shared encoders for the OpenType layout tables (GSUB/GPOS)
+ * Coverage and class definition tables, plus the script/feature/lookup
+ * lists that wrap the lookup subtables.
+ */
+
+import { BinaryWriter } from './BinaryWriter';
+
+export interface LayoutLookup {
+  type: number;
+  flag?: number;
+  // Index into GDEF.markGlyphSetsDef, only used with the UseMarkFilteringSet flag
+  markFilteringSet?: number;
+  subtables: Uint8Array[];
+}
+
+export interface LayoutFeature {
+  tag: string;
+  // Indices into the lookup list; lookups are applied in list order
+  lookupIndices: number[];
+  // Optional FeatureParams table (e.g. stylistic set names)
+  params?: Uint8Array;
+}
+
+export interface LayoutTableData {
+  lookups: LayoutLookup[];
+  features: LayoutFeature[];
+}
+
+// Scripts that get a default language system pointing at every feature
+const LAYOUT_SCRIPTS = ['DFLT', 'latn'];
+
+// Lookup flag bit that skips mark glyphs (GDEF class 3) when matching
+export const LOOKUP_FLAG_IGNORE_MARKS = 0x0008;
+
+// Lookup flag bit that adds a markFilteringSet field to the lookup table
+const USE_MARK_FILTERING_SET = 0x0010;
+
+/**
+ * Coverage table (format 1: sorted glyph list)
+ */
+export function buildCoverage(glyphIds: Iterable<number>): Uint8Array {
+  const sorted = Array.from(new Set(glyphIds)).sort((a, b) => a - b);
+  const writer = new BinaryWriter(4 + sorted.length * 2);
+  writer.uint16(1).uint16(sorted.length);
+  for (const id of sorted) writer.uint16(id);
+  return writer.toUint8Array();
+}
+
+/**
+ * Class definition table (format 2: class ranges)
+ * Glyphs missing from the map are class 0.
+ */
+export function buildClassDef(classes: Map<number, number>): Uint8Array {
+  const entries = Array.from(classes.entries())
+    .filter(([, cls]) => cls !== 0)
+    .sort((a, b) => a[0] - b[0]);
+
+  const ranges: Array<{ start: number; end: number; cls: number }> = [];
+  for (const [glyph, cls] of entries) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === glyph - 1 && last.cls === cls) {
+      last.end = glyph;
+    } else {
+      ranges.push({ start: glyph, end: glyph, cls });
+    }
+  }
+
+  const writer = new BinaryWriter(4 + ranges.length * 6);
+  writer.uint16(2).uint16(ranges.length);
+  for (const range of ranges) {
+    writer.uint16(range.start).uint16(range.end).uint16(range.cls);
+  }
+  return writer.toUint8Array();
+}
+
+/**
+ * Lay out a subtable with child tables referenced by 16-bit offsets.
+ * `header` is written first; each child is appended afterwards and its
+ * offset (from the start of the subtable) patched into `header` at the
+ * given position. Identical children are stored once.
+ */
+export function buildTableWithOffsets(
+  header: BinaryWriter,
+  children: Array<{ position: number; data: Uint8Array }>
+): Uint8Array {
+  const writer = new BinaryWriter(header.offset + 64);
+  writer.bytes(header.toUint8Array());
+
+  const written = new Map<string, number>();
+  for (const child of children) {
+    const key = child.data.join(',');
+    let offset = written.get(key);
+    if (offset === undefined) {
+      offset = writer.offset;
+      if (offset > 0xffff) {
+        throw new Error('Layout subtable is too large (offset overflow)');
+      }
+      writer.bytes(child.data);
+      written.set(key, offset);
+    }
+    writer.setUint16(child.position, offset);
+  }
+
+  return writer.toUint8Array();
+}
+
+function buildScriptList(featureCount: number): Uint8Array {
+  // Every script shares one default LangSys that enables all features
+  const langSys = new BinaryWriter();
+  langSys.uint16(0).uint16(0xffff).uint16(featureCount);
+  for (let i = 0; i < featureCount; i++) langSys.uint16(i);
+  const langSysBytes = langSys.toUint8Array();
+
+  const script = new BinaryWriter();
+  script.uint16(4).uint16(0).bytes(langSysBytes); // defaultLangSys directly after header
+  const scriptBytes = script.toUint8Array();
+
+  const writer = new BinaryWriter();
+  writer.uint16(LAYOUT_SCRIPTS.length);
+  const headerSize = 2 + LAYOUT_SCRIPTS.length * 6;
+  LAYOUT_SCRIPTS.forEach((tag, i) => {
+    writer.tag(tag).uint16(headerSize + i * scriptBytes.length);
+  });
+  for (let i = 0; i < LAYOUT_SCRIPTS.length; i++) writer.bytes(scriptBytes);
+  return writer.toUint8Array();
+}
+
+function buildFeatureList(features: LayoutFeature[]): Uint8Array {
+  const tables = features.map((feature) => {
+    const writer = new BinaryWriter();
+    const paramsOffset = feature.params ? 4 + feature.lookupIndices.length * 2 : 0;
+    writer.uint16(paramsOffset).uint16(feature.lookupIndices.length);
+    for (const index of feature.lookupIndices) writer.uint16(index);
+    if (feature.params) writer.bytes(feature.params);
+    return writer.toUint8Array();
+  });
+
+  const writer = new BinaryWriter();
+  writer.uint16(features.length);
+  let offset = 2 + features.length * 6;
+  features.forEach((feature, i) => {
+    writer.tag(feature.tag).uint16(offset);
+    offset += tables[i].length;
+  });
+  for (const table of tables) writer.bytes(table);
+  return writer.toUint8Array();
+}
+
+function lookupHeaderSize(lookup: LayoutLookup): number {
+  const hasFilter = ((lookup.flag ?? 0) & USE_MARK_FILTERING_SET) !== 0;
+  return 6 + lookup.subtables.length * 2 + (hasFilter ? 2 : 0);
+}
+
+function writeLookupHeader(writer: BinaryWriter, lookup: LayoutLookup, type: number, offsets: number[]): void {
+  writer.uint16(type).uint16(lookup.flag ?? 0).uint16(offsets.length);
+  for (const offset of offsets) writer.uint16(offset);
+  if (((lookup.flag ?? 0) & USE_MARK_FILTERING_SET) !== 0) {
+    writer.uint16(lookup.markFilteringSet ?? 0);
+  }
+}
+
+function buildLookupList(lookups: LayoutLookup[], extensionType: number): Uint8Array {
+  const inlineSize = lookups.reduce(
+    (sum, lookup) =>
+      sum + lookupHeaderSize(lookup) + lookup.subtables.reduce((s, t) => s + t.length, 0),
+    2 + lookups.length * 2
+  );
+
+  const writer = new BinaryWriter(inlineSize);
+  writer.uint16(lookups.length);
+  const offsetPositions = lookups.map(() => {
+    const position = writer.offset;
+    writer.uint16(0);
+    return position;
+  });
+
+  if (inlineSize <= 0xffff) {
+    lookups.forEach((lookup, i) => {
+      const start = writer.offset;
+      writer.setUint16(offsetPositions[i], start);
+      const offsets: number[] = [];
+      let subtableOffset = lookupHeaderSize(lookup);
+      for (const subtable of lookup.subtables) {
+        offsets.push(subtableOffset);
+        subtableOffset += subtable.length;
+      }
+      writeLookupHeader(writer, lookup, lookup.type, offsets);
+      for (const subtable of lookup.subtables) writer.bytes(subtable);
+    });
+    return writer.toUint8Array();
+  }
+
+  // Too big for 16-bit offsets: wrap every subtable in an extension subtable
+  // (32-bit offset) and store the real subtables after all lookup headers.
+  const extensionPositions: Array<{ position: number; start: number; data: Uint8Array }> = [];
+  lookups.forEach((lookup, i) => {
+    const start = writer.offset;
+    writer.setUint16(offsetPositions[i], start);
+    const headerSize = lookupHeaderSize(lookup);
+    const offsets = lookup.subtables.map((_, j) => headerSize + j * 8);
+    writeLookupHeader(writer, lookup, extensionType, offsets);
+    lookup.subtables.forEach((subtable) => {
+      const extensionStart = writer.offset;
+      writer.uint16(1).uint16(lookup.type);
+      extensionPositions.push({ position: writer.offset, start: extensionStart, data: subtable });
+      writer.uint32(0);
+    });
+  });
+  for (const extension of extensionPositions) {
+    writer.setUint32(extension.position, writer.offset - extension.start);
+    writer.bytes(extension.data);
+  }
+  return writer.toUint8Array();
+}
+
+/**
+ * Build a complete GSUB or GPOS table (version 1.0)
+ */
+export function buildLayoutTable(data: LayoutTableData, tableType: 'GSUB' | 'GPOS'): Uint8Array {
+  // Feature records must be sorted by tag; remember where each one went
+  const features = [...data.features].sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+
+  const scriptList = buildScriptList(features.length);
+  const featureList = buildFeatureList(features);
+  const lookupList = buildLookupList(data.lookups, tableType === 'GSUB' ? 7 : 9);
+
+  const writer = new BinaryWriter(10 + scriptList.length + featureList.length + lookupList.length);
+  const scriptListOffset = 10;
+  const featureListOffset = scriptListOffset + scriptList.length;
+  const lookupListOffset = featureListOffset + featureList.length;
+  if (lookupListOffset > 0xffff) {
+    throw new Error(`${tableType} feature list is too large`);
+  }
+
+  writer
+    .uint16(1)
+    .uint16(0)
+    .uint16(scriptListOffset)
+    .uint16(featureListOffset)
+    .uint16(lookupListOffset)
+    .bytes(scriptList)
+    .bytes(featureList)
+    .bytes(lookupList);
+
+  return writer.toUint8Array();
+}
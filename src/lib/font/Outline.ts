@@ -0,0 +1,232 @@
+/**
+ * Contour-level view of opentype.js paths
+ * Splits a Path into closed contours of line/quadratic/cubic segments so
+ * export and cleanup code can reason about direction, nesting and area.
+ */
+
+import opentype from 'opentype.js';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type ContourSegment =
+  | { type: 'L'; to: Point }
+  | { type: 'Q'; c: Point; to: Point }
+  | { type: 'C'; c1: Point; c2: Point; to: Point };
+
+export interface Contour {
+  start: Point;
+  segments: ContourSegment[];
+}
+
+// Number of straight pieces used per curve when flattening for area/nesting tests
+const FLATTEN_STEPS = 8;
+
+/**
+ * Split a path into contours. Every contour is treated as closed,
+ * which is how font rasterizers fill them anyway.
+ */
+export function pathToContours(path: opentype.Path): Contour[] {
+  const contours: Contour[] = [];
+  let current: Contour | null = null;
+
+  for (const cmd of path.commands) {
+    switch (cmd.type) {
+      case 'M':
+        if (current && current.segments.length > 0) contours.push(current);
+        current = { start: { x: cmd.x, y: cmd.y }, segments: [] };
+        break;
+      case 'L':
+        current?.segments.push({ type: 'L', to: { x: cmd.x, y: cmd.y } });
+        break;
+      case 'Q':
+        current?.segments.push({ type: 'Q', c: { x: cmd.x1, y: cmd.y1 }, to: { x: cmd.x, y: cmd.y } });
+        break;
+      case 'C':
+        current?.segments.push({
+          type: 'C',
+          c1: { x: cmd.x1, y: cmd.y1 },
+          c2: { x: cmd.x2, y: cmd.y2 },
+          to: { x: cmd.x, y: cmd.y },
+        });
+        break;
+      case 'Z':
+        if (current && current.segments.length > 0) contours.push(current);
+        current = null;
+        break;
+    }
+  }
+  if (current && current.segments.length > 0) contours.push(current);
+
+  return contours;
+}
+
+/**
+ * Rebuild an opentype.js path from contours
+ */
+export function contoursToPath(contours: Contour[]): opentype.Path {
+  const path = new opentype.Path();
+  for (const contour of contours) {
+    path.moveTo(contour.start.x, contour.start.y);
+    for (const seg of contour.segments) {
+      if (seg.type === 'L') path.lineTo(seg.to.x, seg.to.y);
+      else if (seg.type === 'Q') path.quadraticCurveTo(seg.c.x, seg.c.y, seg.to.x, seg.to.y);
+      else path.curveTo(seg.c1.x, seg.c1.y, seg.c2.x, seg.c2.y, seg.to.x, seg.to.y);
+    }
+    path.close();
+  }
+  return path;
+}
+
+/**
+ * Reverse the drawing direction of a contour
+ */
+export function reverseContour(contour: Contour): Contour {
+  const points = [contour.start, ...contour.segments.map((s) => s.to)];
+  const end = points[points.length - 1];
+  const segments: ContourSegment[] = [];
+
+  // Walk the segments backwards; the implicit closing edge stays implicit
+  for (let i = contour.segments.length - 1; i >= 0; i--) {
+    const seg = contour.segments[i];
+    const to = points[i];
+    if (seg.type === 'L') segments.push({ type: 'L', to });
+    else if (seg.type === 'Q') segments.push({ type: 'Q', c: seg.c, to });
+    else segments.push({ type: 'C', c1: seg.c2, c2: seg.c1, to });
+  }
+
+  return { start: end, segments };
+}
+
+/**
+ * Point on a segment at parameter t
+ */
+export function segmentPointAt(from: Point, seg: ContourSegment, t: number): Point {
+  const mt = 1 - t;
+  if (seg.type === 'L') {
+    return { x: from.x + (seg.to.x - from.x) * t, y: from.y + (seg.to.y - from.y) * t };
+  }
+  if (seg.type === 'Q') {
+    return {
+      x: mt * mt * from.x + 2 * mt * t * seg.c.x + t * t * seg.to.x,
+      y: mt * mt * from.y + 2 * mt * t * seg.c.y + t * t * seg.to.y,
+    };
+  }
+  return {
+    x: mt * mt * mt * from.x + 3 * mt * mt * t * seg.c1.x + 3 * mt * t * t * seg.c2.x + t * t * t * seg.to.x,
+    y: mt * mt * mt * from.y + 3 * mt * mt * t * seg.c1.y + 3 * mt * t * t * seg.c2.y + t * t * t * seg.to.y,
+  };
+}
+
+/**
+ * Evaluate the blossom of a Bézier curve: with all parameters equal it is a
+ * point on the curve, with mixed ones a control point of a piece of it
+ */
+function blossom(points: Point[], params: number[]): Point {
+  let level = points;
+  for (const t of params) {
+    level = level.slice(1).map((point, i) => ({
+      x: level[i].x + (point.x - level[i].x) * t,
+      y: level[i].y + (point.y - level[i].y) * t,
+    }));
+  }
+  return level[0];
+}
+
+/**
+ * The part of a segment between parameters t0 and t1 (reversed when t1 < t0)
+ */
+export function sliceSegment(from: Point, seg: ContourSegment, t0: number, t1: number): ContourSegment {
+  const to = segmentPointAt(from, seg, t1);
+  if (seg.type === 'L') return { type: 'L', to };
+  if (seg.type === 'Q') {
+    return { type: 'Q', c: blossom([from, seg.c, seg.to], [t0, t1]), to };
+  }
+  const points = [from, seg.c1, seg.c2, seg.to];
+  return { type: 'C', c1: blossom(points, [t0, t0, t1]), c2: blossom(points, [t0, t1, t1]), to };
+}
+
+/**
+ * Approximate a contour by a polygon (curves sampled at `steps` points)
+ */
+export function flattenContour(contour: Contour, steps: number = FLATTEN_STEPS): Point[] {
+  const points: Point[] = [contour.start];
+  let from = contour.start;
+  for (const seg of contour.segments) {
+    if (seg.type === 'L') {
+      points.push(seg.to);
+    } else {
+      for (let i = 1; i <= steps; i++) points.push(segmentPointAt(from, seg, i / steps));
+    }
+    from = seg.to;
+  }
+  return points;
+}
+
+/**
+ * Signed area of a polygon (shoelace). Positive = counter-clockwise in Y-up coordinates.
+ */
+export function polygonSignedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return area / 2;
+}
+
+export function contourSignedArea(contour: Contour): number {
+  return polygonSignedArea(flattenContour(contour));
+}
+
+/**
+ * Even-odd point in polygon test
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y)) {
+      const x = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (point.x < x) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * How many other contours enclose each contour (0 = outer, 1 = hole, 2 = island in a hole ...)
+ */
+export function contourDepths(contours: Contour[]): number[] {
+  const polygons = contours.map((c) => flattenContour(c));
+  return polygons.map((polygon, i) => {
+    // Test the middle of the first edge rather than a vertex, which may touch a neighbour
+    const probe =
+      polygon.length > 1
+        ? { x: (polygon[0].x + polygon[1].x) / 2, y: (polygon[0].y + polygon[1].y) / 2 }
+        : polygon[0];
+    let depth = 0;
+    polygons.forEach((other, j) => {
+      if (j !== i && pointInPolygon(probe, other)) depth++;
+    });
+    return depth;
+  });
+}
+
+/**
+ * Make outer contours run one way and holes the other.
+ * `outerClockwise` is true for TrueType, false for PostScript/CFF outlines.
+ */
+export function orientContours(contours: Contour[], outerClockwise: boolean): Contour[] {
+  const depths = contourDepths(contours);
+  return contours.map((contour, i) => {
+    const area = contourSignedArea(contour);
+    if (area === 0) return contour;
+    const isOuter = depths[i] % 2 === 0;
+    const isClockwise = area < 0;
+    return isOuter === (isClockwise === outerClockwise) ? contour : reverseContour(contour);
+  });
+}
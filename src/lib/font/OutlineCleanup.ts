@@ -0,0 +1,375 @@
+/**
+ * Outline cleanup
+ * Traced and sampled outlines are dense polylines. This pass tidies them the
+ * way a type designer would: duplicate and collinear points go, runs of short
+ * segments become smooth cubics, curves get on-curve points at their extrema,
+ * and contours follow the outer-clockwise / inner-counterclockwise convention.
+ */
+
+import opentype from 'opentype.js';
+import {
+  contoursToPath,
+  contourSignedArea,
+  orientContours,
+  pathToContours,
+  segmentPointAt,
+  sliceSegment,
+  type Contour,
+  type ContourSegment,
+  type Point,
+} from './Outline';
+import { removeOverlaps } from './PathBoolean';
+import { fitCurve } from './CurveFitter';
+
+// How far (font units) the outline may move when points are removed or merged
+export const DEFAULT_CLEANUP_TOLERANCE = 1.5;
+
+// Only line segments up to this length (font units) are merged into curves;
+// longer ones are deliberate straights
+const DEFAULT_MAX_MERGE_LENGTH = 80;
+
+// A turn sharper than this between two segments is a corner and stays one
+const CORNER_ANGLE = (35 * Math.PI) / 180;
+
+// Points closer together than this (font units) are duplicates
+const DUPLICATE_DISTANCE = 0.5;
+
+// Extrema this close to a segment end (in curve parameter) are left to that end point
+const EXTREMUM_MARGIN = 0.02;
+
+// Extrema that stick out less than this (font units) past a curve's ends vanish when rounded
+const EXTREMUM_OVERSHOOT = 0.25;
+
+// Contours with less area than this (square font units) are dropped
+const MIN_CONTOUR_AREA = 1;
+
+export interface CleanupOptions {
+  tolerance?: number;
+  maxMergeLength?: number;
+  // Direction of outer contours; holes run the other way (default true)
+  outerClockwise?: boolean;
+  // Merge overlapping contours first, so strokes drawn over each other
+  // are not mistaken for holes when directions are fixed
+  removeOverlaps?: boolean;
+  // Set to false for outlines that overlap on purpose: their contours keep
+  // their directions, which is what makes the overlaps fill (default true)
+  fixDirection?: boolean;
+}
+
+export interface CleanupResult {
+  path: opentype.Path;
+  pointsBefore: number;
+  pointsAfter: number;
+}
+
+/**
+ * What cleanup did to one glyph of the font
+ */
+export interface GlyphCleanupReport {
+  name: string;
+  pointsBefore: number;
+  pointsAfter: number;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function normalize(v: Point): Point {
+  const length = Math.hypot(v.x, v.y);
+  return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+}
+
+/**
+ * Distance of a point from the line through a and b, and where along a→b it projects (0 at a, 1 at b)
+ */
+function projectOntoChord(p: Point, a: Point, b: Point): { distance: number; t: number } {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return { distance: distance(p, a), t: 0 };
+  const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared;
+  return { distance: Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / Math.sqrt(lengthSquared), t };
+}
+
+/**
+ * Contours are worked on as rings: the closing edge is an explicit segment,
+ * and each segment starts where the previous one (cyclically) ends
+ */
+function toRing(contour: Contour): ContourSegment[] {
+  const last = contour.segments[contour.segments.length - 1];
+  return distance(last.to, contour.start) === 0
+    ? [...contour.segments]
+    : [...contour.segments, { type: 'L', to: contour.start }];
+}
+
+function fromRing(ring: ContourSegment[]): Contour {
+  const last = ring[ring.length - 1];
+  // A closing line back to the start stays implicit
+  return { start: last.to, segments: last.type === 'L' ? ring.slice(0, -1) : ring };
+}
+
+function ringFrom(ring: ContourSegment[], index: number): Point {
+  return ring[(index + ring.length - 1) % ring.length].to;
+}
+
+function segmentPointCount(seg: ContourSegment): number {
+  return seg.type === 'L' ? 1 : seg.type === 'Q' ? 2 : 3;
+}
+
+/**
+ * On- and off-curve points in a path
+ */
+export function countOutlinePoints(path: opentype.Path): number {
+  return pathToContours(path)
+    .map(toRing)
+    .reduce((sum, ring) => sum + ring.reduce((count, seg) => count + segmentPointCount(seg), 0), 0);
+}
+
+/**
+ * Direction a segment leaves its start point / arrives at its end point
+ */
+function startTangent(from: Point, seg: ContourSegment): Point {
+  const controls = seg.type === 'L' ? [] : seg.type === 'Q' ? [seg.c] : [seg.c1, seg.c2];
+  const next = [...controls, seg.to].find((p) => distance(p, from) > 0) ?? seg.to;
+  return normalize({ x: next.x - from.x, y: next.y - from.y });
+}
+
+function endTangent(from: Point, seg: ContourSegment): Point {
+  const controls = seg.type === 'L' ? [] : seg.type === 'Q' ? [seg.c] : [seg.c2, seg.c1];
+  const previous = [...controls, from].find((p) => distance(p, seg.to) > 0) ?? from;
+  return normalize({ x: seg.to.x - previous.x, y: seg.to.y - previous.y });
+}
+
+/**
+ * Angle the outline turns through at the end of segment `index`
+ */
+function turnAngle(ring: ContourSegment[], index: number): number {
+  const next = (index + 1) % ring.length;
+  const a = endTangent(ringFrom(ring, index), ring[index]);
+  const b = startTangent(ring[index].to, ring[next]);
+  return Math.acos(Math.max(-1, Math.min(1, a.x * b.x + a.y * b.y)));
+}
+
+/**
+ * Replace runs of consecutive segments. A run is a stretch of segments that
+ * `inRun` accepts, joined where `continues` allows going on to the next
+ * segment. The ring is walked from the start of a run, so no run is cut in
+ * two; a ring that is one endless run is opened at its sharpest turn.
+ */
+function rewriteRuns(
+  ring: ContourSegment[],
+  inRun: (index: number) => boolean,
+  continues: (index: number) => boolean,
+  rewrite: (from: Point, run: ContourSegment[]) => ContourSegment[]
+): ContourSegment[] {
+  const n = ring.length;
+  const joined = (i: number) => inRun(i) && inRun((i + 1) % n) && continues(i);
+
+  let first = ring.findIndex((_, i) => !joined((i + n - 1) % n));
+  if (first === -1) {
+    let sharpest = 0;
+    for (let i = 1; i < n; i++) {
+      if (turnAngle(ring, i) > turnAngle(ring, sharpest)) sharpest = i;
+    }
+    first = (sharpest + 1) % n;
+  }
+
+  const result: ContourSegment[] = [];
+  let run: ContourSegment[] = [];
+  let runFrom = ringFrom(ring, first);
+  for (let k = 0; k < n; k++) {
+    const i = (first + k) % n;
+    if (!inRun(i)) {
+      result.push(ring[i]);
+      continue;
+    }
+    if (run.length === 0) runFrom = ringFrom(ring, i);
+    run.push(ring[i]);
+    if (k === n - 1 || !joined(i)) {
+      result.push(...rewrite(runFrom, run));
+      run = [];
+    }
+  }
+  return result;
+}
+
+/**
+ * Drop segments that do not go anywhere (duplicate points)
+ */
+function removeDuplicatePoints(ring: ContourSegment[]): ContourSegment[] {
+  const result: ContourSegment[] = [];
+  for (const seg of ring) {
+    const from = result.length > 0 ? result[result.length - 1].to : ring[ring.length - 1].to;
+    const points = seg.type === 'L' ? [seg.to] : seg.type === 'Q' ? [seg.c, seg.to] : [seg.c1, seg.c2, seg.to];
+    if (points.every((p) => distance(p, from) < DUPLICATE_DISTANCE)) continue;
+    result.push(seg);
+  }
+  return result;
+}
+
+/**
+ * Merge runs of short line segments without corners into smooth cubics,
+ * as long as that does not add points
+ */
+function mergeShortSegments(ring: ContourSegment[], tolerance: number, maxMergeLength: number): ContourSegment[] {
+  const isShortLine = (i: number) =>
+    ring[i].type === 'L' && distance(ringFrom(ring, i), ring[i].to) <= maxMergeLength;
+
+  return rewriteRuns(
+    ring,
+    isShortLine,
+    (i) => turnAngle(ring, i) < CORNER_ANGLE,
+    (from, run) => {
+      if (run.length < 3) return run;
+      const curves = fitCurve([from, ...run.map((seg) => seg.to)], tolerance);
+      const pointCount = curves.reduce((sum, seg) => sum + segmentPointCount(seg), 0);
+      return pointCount <= run.length ? curves : run;
+    }
+  );
+}
+
+/**
+ * Turn curves whose control points lie on their chord into lines
+ */
+function straightenFlatCurves(ring: ContourSegment[], tolerance: number): ContourSegment[] {
+  return ring.map((seg, i): ContourSegment => {
+    if (seg.type === 'L') return seg;
+    const from = ringFrom(ring, i);
+    const controls = seg.type === 'Q' ? [seg.c] : [seg.c1, seg.c2];
+    const flat = controls.every((c) => {
+      const { distance: d, t } = projectOntoChord(c, from, seg.to);
+      return d <= tolerance && t >= 0 && t <= 1;
+    });
+    return flat ? { type: 'L', to: seg.to } : seg;
+  });
+}
+
+/**
+ * Drop points that lie on the straight line between their neighbours.
+ * Every dropped point stays within tolerance of the line that replaces it.
+ */
+function removeCollinearPoints(ring: ContourSegment[], tolerance: number): ContourSegment[] {
+  return rewriteRuns(
+    ring,
+    (i) => ring[i].type === 'L',
+    () => true,
+    (from, run) => {
+      const points = [from, ...run.map((seg) => seg.to)];
+      const result: ContourSegment[] = [];
+      let anchor = 0;
+      for (let j = 2; j < points.length; j++) {
+        const onLine = points.slice(anchor + 1, j).every((p) => {
+          const { distance: d, t } = projectOntoChord(p, points[anchor], points[j]);
+          return d <= tolerance && t > 0 && t < 1;
+        });
+        if (!onLine) {
+          result.push({ type: 'L', to: points[j - 1] });
+          anchor = j - 1;
+        }
+      }
+      result.push({ type: 'L', to: points[points.length - 1] });
+      return result;
+    }
+  );
+}
+
+/**
+ * Parameters where a curve reaches a horizontal or vertical extreme that
+ * sticks out past both of its ends
+ */
+function extremumParams(from: Point, seg: ContourSegment): number[] {
+  if (seg.type === 'L') return [];
+  const params: number[] = [];
+
+  for (const axis of ['x', 'y'] as const) {
+    const roots: number[] = [];
+    if (seg.type === 'Q') {
+      const denominator = from[axis] - 2 * seg.c[axis] + seg.to[axis];
+      if (denominator !== 0) roots.push((from[axis] - seg.c[axis]) / denominator);
+    } else {
+      // Derivative of a cubic, divided by 3: a(1-t)² + 2b(1-t)t + ct²
+      const a = seg.c1[axis] - from[axis];
+      const b = seg.c2[axis] - seg.c1[axis];
+      const c = seg.to[axis] - seg.c2[axis];
+      const qa = a - 2 * b + c;
+      const qb = 2 * (b - a);
+      if (Math.abs(qa) < 1e-9) {
+        if (qb !== 0) roots.push(-a / qb);
+      } else {
+        const discriminant = qb * qb - 4 * qa * a;
+        if (discriminant >= 0) {
+          const root = Math.sqrt(discriminant);
+          roots.push((-qb + root) / (2 * qa), (-qb - root) / (2 * qa));
+        }
+      }
+    }
+
+    const low = Math.min(from[axis], seg.to[axis]) - EXTREMUM_OVERSHOOT;
+    const high = Math.max(from[axis], seg.to[axis]) + EXTREMUM_OVERSHOOT;
+    for (const t of roots) {
+      if (t <= EXTREMUM_MARGIN || t >= 1 - EXTREMUM_MARGIN) continue;
+      const value = segmentPointAt(from, seg, t)[axis];
+      if (value < low || value > high) params.push(t);
+    }
+  }
+
+  params.sort((a, b) => a - b);
+  return params.filter((t, i) => i === 0 || t - params[i - 1] > EXTREMUM_MARGIN);
+}
+
+/**
+ * Split curves so that an on-curve point sits at every extreme
+ */
+function addExtremumPoints(ring: ContourSegment[]): ContourSegment[] {
+  return ring.flatMap((seg, i) => {
+    const from = ringFrom(ring, i);
+    const params = extremumParams(from, seg);
+    if (params.length === 0) return [seg];
+    const cuts = [0, ...params, 1];
+    return cuts.slice(1).map((t, k) => {
+      const piece = sliceSegment(from, seg, cuts[k], t);
+      return t === 1 ? { ...piece, to: seg.to } : piece;
+    });
+  });
+}
+
+/**
+ * Clean up one glyph outline. Returns the tidied path and how many points
+ * it had before and after.
+ */
+export function cleanupOutline(path: opentype.Path, options: CleanupOptions = {}): CleanupResult {
+  const tolerance = options.tolerance ?? DEFAULT_CLEANUP_TOLERANCE;
+  const maxMergeLength = options.maxMergeLength ?? DEFAULT_MAX_MERGE_LENGTH;
+  const pointsBefore = countOutlinePoints(path);
+
+  let source = path;
+  if (options.removeOverlaps) {
+    try {
+      source = removeOverlaps(path);
+    } catch (error) {
+      console.warn('[OutlineCleanup] Could not remove overlaps, cleaning the outline as drawn:', error);
+    }
+  }
+
+  const contours: Contour[] = [];
+  for (const contour of pathToContours(source)) {
+    let ring = removeDuplicatePoints(toRing(contour));
+    if (ring.length < 2) continue;
+    ring = mergeShortSegments(ring, tolerance, maxMergeLength);
+    ring = straightenFlatCurves(ring, tolerance);
+    ring = removeCollinearPoints(ring, tolerance);
+    ring = addExtremumPoints(ring);
+    if (ring.length < 2) continue;
+
+    const cleaned = fromRing(ring);
+    if (cleaned.segments.length > 0 && Math.abs(contourSignedArea(cleaned)) >= MIN_CONTOUR_AREA) {
+      contours.push(cleaned);
+    }
+  }
+
+  const oriented =
+    options.fixDirection === false ? contours : orientContours(contours, options.outerClockwise ?? true);
+  const cleanedPath = contoursToPath(oriented);
+  return { path: cleanedPath, pointsBefore, pointsAfter: countOutlinePoints(cleanedPath) };
+}
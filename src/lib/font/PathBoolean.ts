@@ -0,0 +1,475 @@
+/**
+ * Boolean operations on glyph outlines
+ * Union, intersection and difference of opentype.js paths, used to merge
+ * overlapping strokes and self-intersecting contours into clean outlines.
+ *
+ * Curves are flattened into short chords to find every crossing, the chords
+ * are split into a planar graph, and the boundary between filled and empty
+ * faces (nonzero rule) is traced back out. Runs of chords that came from one
+ * original segment are turned back into that segment, so outlines keep their
+ * curves everywhere except where they are cut.
+ */
+
+import opentype from 'opentype.js';
+import {
+  contoursToPath,
+  flattenContour,
+  pathToContours,
+  pointInPolygon,
+  polygonSignedArea,
+  reverseContour,
+  segmentPointAt,
+  sliceSegment,
+  type Contour,
+  type ContourSegment,
+  type Point,
+} from './Outline';
+
+// Maximum distance between a curve and the chords that stand in for it, in font units
+const FLATTEN_TOLERANCE = 0.25;
+const MAX_CURVE_PIECES = 64;
+
+// Points are merged into one graph vertex on a grid of 1/SNAP font units
+const SNAP = 64;
+
+// Distance within which a point counts as lying on a chord
+const ON_CHORD = 1 / (SNAP * 2);
+
+// Share of a contour's points that must lie inside another contour for it to count as nested
+const NESTED_SHARE = 0.9;
+
+// Contours left with less area than this (in square font units) are slivers and dropped
+const MIN_CONTOUR_AREA = 1;
+
+interface SourceSegment {
+  from: Point;
+  segment: ContourSegment;
+}
+
+/**
+ * Straight piece of a flattened outline, covering [t0, t1] of its source segment
+ */
+interface Chord {
+  a: Point;
+  b: Point;
+  source: SourceSegment;
+  t0: number;
+  t1: number;
+  operand: number;
+}
+
+interface Split {
+  s: number; // position along the chord, 0-1
+  point: Point;
+}
+
+/**
+ * Edge of the planar graph between vertices u and v
+ */
+interface GraphEdge {
+  u: number;
+  v: number;
+  // Per operand: chords running u→v minus chords running v→u
+  winding: number[];
+  source: SourceSegment;
+  tu: number; // source parameter at u
+  tv: number; // source parameter at v
+}
+
+/**
+ * Orient contours so the nonzero rule fills what the drawing shows.
+ * Free-standing and overlapping contours are filled (counter-clockwise);
+ * a contour nested inside another is a hole when it runs against it, as
+ * counters from the vectorizer do, and filled otherwise.
+ */
+function orientForFill(contours: Contour[]): Contour[] {
+  const polygons = contours.map((contour) => flattenContour(contour));
+  const areas = polygons.map(polygonSignedArea);
+
+  // Innermost larger contour that (almost) wholly encloses each contour
+  const parents = polygons.map((polygon, i) => {
+    let parent = -1;
+    polygons.forEach((other, j) => {
+      if (j === i || Math.abs(areas[j]) <= Math.abs(areas[i])) return;
+      const inside = polygon.filter((point) => pointInPolygon(point, other)).length;
+      if (inside < polygon.length * NESTED_SHARE) return;
+      if (parent === -1 || Math.abs(areas[j]) < Math.abs(areas[parent])) parent = j;
+    });
+    return parent;
+  });
+
+  const counterClockwise = new Map<number, boolean>();
+  const isCounterClockwise = (i: number): boolean => {
+    let result = counterClockwise.get(i);
+    if (result === undefined) {
+      const parent = parents[i];
+      result =
+        parent === -1
+          ? true
+          : Math.sign(areas[i]) === Math.sign(areas[parent])
+          ? isCounterClockwise(parent)
+          : !isCounterClockwise(parent);
+      counterClockwise.set(i, result);
+    }
+    return result;
+  };
+
+  return contours.map((contour, i) =>
+    areas[i] === 0 || areas[i] > 0 === isCounterClockwise(i) ? contour : reverseContour(contour)
+  );
+}
+
+function secondDifference(p0: Point, p1: Point, p2: Point): number {
+  return Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y);
+}
+
+/**
+ * Number of chords that keep a curve within FLATTEN_TOLERANCE
+ */
+function countPieces(from: Point, segment: ContourSegment): number {
+  if (segment.type === 'L') return 1;
+  const error =
+    segment.type === 'Q'
+      ? 0.25 * secondDifference(from, segment.c, segment.to)
+      : 0.75 * Math.max(secondDifference(from, segment.c1, segment.c2), secondDifference(segment.c1, segment.c2, segment.to));
+  return Math.min(MAX_CURVE_PIECES, Math.max(1, Math.ceil(Math.sqrt(error / FLATTEN_TOLERANCE))));
+}
+
+function addChords(contours: Contour[], operand: number, chords: Chord[]): void {
+  for (const contour of contours) {
+    const segments = [...contour.segments];
+    const end = segments[segments.length - 1].to;
+    if (end.x !== contour.start.x || end.y !== contour.start.y) {
+      segments.push({ type: 'L', to: contour.start }); // the implicit closing edge
+    }
+
+    let from = contour.start;
+    for (const segment of segments) {
+      const source = { from, segment };
+      const pieces = countPieces(from, segment);
+      let a = from;
+      for (let i = 1; i <= pieces; i++) {
+        const b = i === pieces ? segment.to : segmentPointAt(from, segment, i / pieces);
+        if (a.x !== b.x || a.y !== b.y) {
+          chords.push({ a, b, source, t0: (i - 1) / pieces, t1: i / pieces, operand });
+        }
+        a = b;
+      }
+      from = segment.to;
+    }
+  }
+}
+
+function cross(ax: number, ay: number, bx: number, by: number): number {
+  return ax * by - ay * bx;
+}
+
+/**
+ * Record where two chords cross, touch or overlap. Each chord is split only
+ * at points strictly inside it; a chord ending on another splits the other
+ * one at its exact end point.
+ */
+function intersectChords(p: Chord, q: Chord, pSplits: Split[], qSplits: Split[]): void {
+  if (
+    Math.max(p.a.y, p.b.y) < Math.min(q.a.y, q.b.y) - ON_CHORD ||
+    Math.max(q.a.y, q.b.y) < Math.min(p.a.y, p.b.y) - ON_CHORD
+  ) {
+    return;
+  }
+
+  const rx = p.b.x - p.a.x;
+  const ry = p.b.y - p.a.y;
+  const sx = q.b.x - q.a.x;
+  const sy = q.b.y - q.a.y;
+  const pLength = Math.hypot(rx, ry);
+  const qLength = Math.hypot(sx, sy);
+  const dx = q.a.x - p.a.x;
+  const dy = q.a.y - p.a.y;
+  const denominator = cross(rx, ry, sx, sy);
+
+  if (Math.abs(denominator) <= 1e-9 * pLength * qLength) {
+    // Parallel: only collinear overlaps matter, split at the other chord's ends
+    if (Math.abs(cross(rx, ry, dx, dy)) / pLength > ON_CHORD) return;
+    for (const point of [q.a, q.b]) {
+      const s = ((point.x - p.a.x) * rx + (point.y - p.a.y) * ry) / (pLength * pLength);
+      if (s * pLength > ON_CHORD && (1 - s) * pLength > ON_CHORD) pSplits.push({ s, point });
+    }
+    for (const point of [p.a, p.b]) {
+      const s = ((point.x - q.a.x) * sx + (point.y - q.a.y) * sy) / (qLength * qLength);
+      if (s * qLength > ON_CHORD && (1 - s) * qLength > ON_CHORD) qSplits.push({ s, point });
+    }
+    return;
+  }
+
+  const s = cross(dx, dy, sx, sy) / denominator;
+  const u = cross(dx, dy, rx, ry) / denominator;
+  const sTolerance = ON_CHORD / pLength;
+  const uTolerance = ON_CHORD / qLength;
+  if (s < -sTolerance || s > 1 + sTolerance || u < -uTolerance || u > 1 + uTolerance) return;
+
+  const point =
+    s <= sTolerance
+      ? p.a
+      : s >= 1 - sTolerance
+      ? p.b
+      : u <= uTolerance
+      ? q.a
+      : u >= 1 - uTolerance
+      ? q.b
+      : { x: p.a.x + s * rx, y: p.a.y + s * ry };
+  if (s > sTolerance && s < 1 - sTolerance) pSplits.push({ s, point });
+  if (u > uTolerance && u < 1 - uTolerance) qSplits.push({ s: u, point });
+}
+
+/**
+ * Split points of every chord, found with a sweep along x
+ */
+function findSplits(chords: Chord[]): Split[][] {
+  const splits: Split[][] = chords.map(() => []);
+  const minX = chords.map((chord) => Math.min(chord.a.x, chord.b.x));
+  const maxX = chords.map((chord) => Math.max(chord.a.x, chord.b.x));
+  const order = chords.map((_, i) => i).sort((i, j) => minX[i] - minX[j]);
+
+  let active: number[] = [];
+  for (const i of order) {
+    active = active.filter((j) => maxX[j] >= minX[i] - ON_CHORD);
+    for (const j of active) intersectChords(chords[i], chords[j], splits[i], splits[j]);
+    active.push(i);
+  }
+  return splits;
+}
+
+/**
+ * Planar graph of the split chords. Coincident pieces become one edge whose
+ * winding counts every chord along it.
+ */
+function buildGraph(chords: Chord[], operandCount: number): { nodes: Point[]; edges: GraphEdge[] } {
+  const nodes: Point[] = [];
+  const nodeIndex = new Map<string, number>();
+  const nodeAt = (point: Point): number => {
+    const key = `${Math.round(point.x * SNAP)},${Math.round(point.y * SNAP)}`;
+    let index = nodeIndex.get(key);
+    if (index === undefined) {
+      index = nodes.length;
+      nodes.push(point);
+      nodeIndex.set(key, index);
+    }
+    return index;
+  };
+
+  const edges: GraphEdge[] = [];
+  const edgeIndex = new Map<string, number>();
+  const splits = findSplits(chords);
+
+  chords.forEach((chord, i) => {
+    const stops = [{ s: 0, point: chord.a }, ...splits[i].sort((a, b) => a.s - b.s), { s: 1, point: chord.b }];
+    const t = (s: number) => chord.t0 + (chord.t1 - chord.t0) * s;
+    for (let k = 0; k + 1 < stops.length; k++) {
+      const u = nodeAt(stops[k].point);
+      const v = nodeAt(stops[k + 1].point);
+      if (u === v) continue;
+
+      const key = u < v ? `${u},${v}` : `${v},${u}`;
+      const existing = edgeIndex.get(key);
+      if (existing === undefined) {
+        const winding = new Array<number>(operandCount).fill(0);
+        winding[chord.operand] = 1;
+        edgeIndex.set(key, edges.length);
+        edges.push({ u, v, winding, source: chord.source, tu: t(stops[k].s), tv: t(stops[k + 1].s) });
+      } else {
+        edges[existing].winding[chord.operand] += edges[existing].u === u ? 1 : -1;
+      }
+    }
+  });
+
+  // Edges whose chords cancel out do not separate differently filled faces
+  return { nodes, edges: edges.filter((edge) => edge.winding.some((w) => w !== 0)) };
+}
+
+/**
+ * Run a boolean operation: `isInside` decides from the winding number of
+ * every operand whether a point belongs to the result
+ */
+function combineContours(operands: Contour[][], isInside: (winding: number[]) => boolean): Contour[] {
+  const chords: Chord[] = [];
+  operands.forEach((contours, operand) => addChords(orientForFill(contours), operand, chords));
+  if (chords.length === 0) return [];
+
+  const { nodes, edges } = buildGraph(chords, operands.length);
+
+  // Half-edge h runs along edges[h >> 1], forwards (u→v) when h is even
+  const origin = (h: number) => ((h & 1) === 0 ? edges[h >> 1].u : edges[h >> 1].v);
+  const target = (h: number) => ((h & 1) === 0 ? edges[h >> 1].v : edges[h >> 1].u);
+  const halfEdgeCount = edges.length * 2;
+
+  // Outgoing half-edges around every vertex, counter-clockwise
+  const outgoing: number[][] = nodes.map(() => []);
+  for (let h = 0; h < halfEdgeCount; h++) outgoing[origin(h)].push(h);
+  const angle = (h: number) => {
+    const from = nodes[origin(h)];
+    const to = nodes[target(h)];
+    return Math.atan2(to.y - from.y, to.x - from.x);
+  };
+  const slot = new Int32Array(halfEdgeCount);
+  for (const list of outgoing) {
+    list.sort((a, b) => angle(a) - angle(b));
+    list.forEach((h, i) => (slot[h] = i));
+  }
+
+  // Next half-edge keeping the face on the left: the sharpest right turn that `accept`s
+  const turnRight = (h: number, accept: (candidate: number) => boolean): number => {
+    const list = outgoing[target(h)];
+    const twin = slot[h ^ 1];
+    for (let step = 1; step <= list.length; step++) {
+      const candidate = list[(twin - step + list.length) % list.length];
+      if (accept(candidate)) return candidate;
+    }
+    return -1;
+  };
+
+  // Winding numbers on the left of a half-edge: cast a ray to +x from the
+  // middle of its edge, then step across the edge itself if the left is on -x
+  const windingLeftOf = (h: number): number[] => {
+    const edge = edges[h >> 1];
+    const a = nodes[edge.u];
+    const b = nodes[edge.v];
+    const mx = (a.x + b.x) / 2;
+    const my = (a.y + b.y) / 2;
+    const right = new Array<number>(operands.length).fill(0);
+    for (const other of edges) {
+      if (other === edge) continue;
+      const p = nodes[other.u];
+      const q = nodes[other.v];
+      const upward = p.y <= my && q.y > my;
+      if (!upward && !(q.y <= my && p.y > my)) continue;
+      if (p.x + ((my - p.y) * (q.x - p.x)) / (q.y - p.y) <= mx) continue;
+      other.winding.forEach((w, operand) => (right[operand] += upward ? w : -w));
+    }
+    const edgeUpward = b.y > a.y;
+    const halfEdgeUpward = (h & 1) === 0 ? edgeUpward : !edgeUpward;
+    if (!halfEdgeUpward) return right;
+    return right.map((w, operand) => w + (edgeUpward ? edge.winding[operand] : -edge.winding[operand]));
+  };
+
+  // Every face is bounded by a cycle of half-edges; one ray per cycle gives its winding
+  const inside = new Uint8Array(halfEdgeCount);
+  const visited = new Uint8Array(halfEdgeCount);
+  for (let start = 0; start < halfEdgeCount; start++) {
+    if (visited[start]) continue;
+    const cycle: number[] = [];
+    let steepest = start;
+    let steepness = -1;
+    for (let h = start; h >= 0 && !visited[h]; h = turnRight(h, () => true)) {
+      visited[h] = 1;
+      cycle.push(h);
+      const dy = Math.abs(nodes[target(h)].y - nodes[origin(h)].y);
+      if (dy > steepness) {
+        steepness = dy;
+        steepest = h;
+      }
+    }
+    // A cycle of horizontal edges only encloses no area
+    const filled = steepness > 0 && isInside(windingLeftOf(steepest));
+    for (const h of cycle) inside[h] = filled ? 1 : 0;
+  }
+
+  // The result boundary: edges with the inside on exactly one side, inside kept on the left
+  const boundary = new Uint8Array(halfEdgeCount);
+  for (let h = 0; h < halfEdgeCount; h++) {
+    if (inside[h] && !inside[h ^ 1]) boundary[h] = 1;
+  }
+
+  const contours: Contour[] = [];
+  const used = new Uint8Array(halfEdgeCount);
+  for (let start = 0; start < halfEdgeCount; start++) {
+    if (!boundary[start] || used[start]) continue;
+    const cycle: number[] = [];
+    for (let h = start; h >= 0 && !used[h]; h = turnRight(h, (candidate) => boundary[candidate] === 1)) {
+      used[h] = 1;
+      cycle.push(h);
+    }
+    const contour = traceContour(cycle, edges, nodes);
+    if (contour && Math.abs(polygonSignedArea(flattenContour(contour))) >= MIN_CONTOUR_AREA) {
+      contours.push(contour);
+    }
+  }
+  return contours;
+}
+
+/**
+ * Turn a cycle of boundary half-edges back into a contour, merging
+ * consecutive pieces of the same source segment into one segment
+ */
+function traceContour(cycle: number[], edges: GraphEdge[], nodes: Point[]): Contour | null {
+  const pieces = cycle.map((h) => {
+    const edge = edges[h >> 1];
+    const forward = (h & 1) === 0;
+    return {
+      source: edge.source,
+      t0: forward ? edge.tu : edge.tv,
+      t1: forward ? edge.tv : edge.tu,
+      from: nodes[forward ? edge.u : edge.v],
+      to: nodes[forward ? edge.v : edge.u],
+    };
+  });
+  type Piece = (typeof pieces)[number];
+  const continues = (a: Piece, b: Piece) =>
+    a.source === b.source && a.t1 === b.t0 && (a.t1 - a.t0) * (b.t1 - b.t0) > 0;
+
+  // Start at the beginning of a run so that no run is split in two
+  const first = pieces.findIndex((piece, i) => !continues(pieces[(i + pieces.length - 1) % pieces.length], piece));
+  const ordered = first > 0 ? [...pieces.slice(first), ...pieces.slice(0, first)] : pieces;
+
+  const segments: ContourSegment[] = [];
+  let runStart = ordered[0];
+  for (let i = 0; i < ordered.length; i++) {
+    const piece = ordered[i];
+    const next = ordered[i + 1];
+    if (next && continues(piece, next)) continue;
+    // Keep the snapped graph vertex as the end point so consecutive segments join exactly
+    const { from, segment } = piece.source;
+    segments.push({ ...sliceSegment(from, segment, runStart.t0, piece.t1), to: piece.to });
+    if (next) runStart = next;
+  }
+
+  // The closing line back to the start is implicit
+  const start = ordered[0].from;
+  const last = segments[segments.length - 1];
+  if (last.type === 'L' && last.to.x === start.x && last.to.y === start.y) segments.pop();
+  return segments.length > 0 ? { start, segments } : null;
+}
+
+/**
+ * Union of any number of paths
+ */
+export function unionPaths(...paths: opentype.Path[]): opentype.Path {
+  return contoursToPath(
+    combineContours(paths.map(pathToContours), (winding) => winding.some((w) => w !== 0))
+  );
+}
+
+/**
+ * Area covered by both paths
+ */
+export function intersectPaths(a: opentype.Path, b: opentype.Path): opentype.Path {
+  return contoursToPath(
+    combineContours([pathToContours(a), pathToContours(b)], ([wa, wb]) => wa !== 0 && wb !== 0)
+  );
+}
+
+/**
+ * Area of `a` not covered by `b`
+ */
+export function subtractPaths(a: opentype.Path, b: opentype.Path): opentype.Path {
+  return contoursToPath(
+    combineContours([pathToContours(a), pathToContours(b)], ([wa, wb]) => wa !== 0 && wb === 0)
+  );
+}
+
+/**
+ * Merge overlapping and self-intersecting contours of one outline
+ * (outer contours counter-clockwise, holes clockwise)
+ */
+export function removeOverlaps(path: opentype.Path): opentype.Path {
+  return unionPaths(path);
+}
@@ -0,0 +1,114 @@
+/**
+ * SFNT container reading and writing
+ * Lets us take the binary produced by opentype.js, add or replace tables,
+ * and reassemble a valid font with correct checksums.
+ */
+
+import { BinaryWriter } from './BinaryWriter';
+
+/** sfntVersion for fonts with TrueType (glyf) outlines */
+export const SFNT_VERSION_TRUETYPE = 0x00010000;
+/** sfntVersion ('OTTO') for fonts with CFF outlines */
+export const SFNT_VERSION_CFF = 0x4f54544f;
+
+export interface SfntFont {
+  sfntVersion: number;
+  tables: Map<string, Uint8Array>;
+}
+
+/**
+ * Split an SFNT binary into its tables
+ */
+export function readSfnt(buffer: ArrayBuffer): SfntFont {
+  const view = new DataView(buffer);
+  const sfntVersion = view.getUint32(0);
+  const numTables = view.getUint16(4);
+  const tables = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record),
+      view.getUint8(record + 1),
+      view.getUint8(record + 2),
+      view.getUint8(record + 3)
+    );
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    tables.set(tag, new Uint8Array(buffer.slice(offset, offset + length)));
+  }
+
+  return { sfntVersion, tables };
+}
+
+/**
+ * Checksum of a table: sum of big-endian uint32 words, zero-padded
+ */
+export function calculateChecksum(data: Uint8Array): number {
+  let sum = 0;
+  const fullWords = Math.floor(data.length / 4);
+  for (let i = 0; i < fullWords; i++) {
+    const p = i * 4;
+    sum = (sum + ((data[p] << 24) | (data[p + 1] << 16) | (data[p + 2] << 8) | data[p + 3])) >>> 0;
+  }
+  const rest = data.length % 4;
+  if (rest > 0) {
+    let word = 0;
+    for (let i = 0; i < 4; i++) {
+      word = (word << 8) | (i < rest ? data[fullWords * 4 + i] : 0);
+    }
+    sum = (sum + (word >>> 0)) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * Assemble tables into an SFNT binary.
+ * Recomputes table checksums and head.checkSumAdjustment.
+ */
+export function writeSfnt(font: SfntFont): ArrayBuffer {
+  const tables = new Map(font.tables);
+  const tags = Array.from(tables.keys()).sort();
+  const numTables = tags.length;
+
+  let entrySelector = 0;
+  while (1 << (entrySelector + 1) <= numTables) entrySelector++;
+  const searchRange = (1 << entrySelector) * 16;
+
+  // head.checkSumAdjustment must be zero while the whole-font checksum is computed
+  const head = tables.get('head');
+  if (head) {
+    const zeroed = head.slice();
+    new DataView(zeroed.buffer).setUint32(8, 0);
+    tables.set('head', zeroed);
+  }
+
+  const writer = new BinaryWriter(1024);
+  writer
+    .uint32(font.sfntVersion)
+    .uint16(numTables)
+    .uint16(searchRange)
+    .uint16(entrySelector)
+    .uint16(numTables * 16 - searchRange);
+
+  let offset = 12 + numTables * 16;
+  for (const tag of tags) {
+    const data = tables.get(tag)!;
+    writer.tag(tag).uint32(calculateChecksum(data)).uint32(offset).uint32(data.length);
+    offset += Math.ceil(data.length / 4) * 4;
+  }
+
+  let headOffset = -1;
+  for (const tag of tags) {
+    if (tag === 'head') headOffset = writer.offset;
+    writer.bytes(tables.get(tag)!).align(4);
+  }
+
+  const bytes = writer.toUint8Array();
+  if (headOffset >= 0) {
+    const adjustment = (0xb1b0afba - calculateChecksum(bytes)) >>> 0;
+    new DataView(bytes.buffer).setUint32(headOffset + 8, adjustment);
+  }
+
+  return bytes.buffer as ArrayBuffer;
+}
@@ -0,0 +1,350 @@
+/**
+ * Auto spacing
+ * Side bearings from the shape of each glyph's sides rather than its
+ * bounding box. A side is measured as a profile: how far in from the
+ * glyph's outermost point the ink starts, scanline by scanline, across the
+ * x-height (lowercase) or the cap height (capitals and figures), where
+ * heights with no ink count as open. Openings only count up to a limited
+ * depth, so the room under the arms of "T" or "r" does not push letters
+ * apart. A side then gets the target white width less its average depth:
+ * flat sides get the full width, round and open ones less, which evens out
+ * the white area between letters.
+ *
+ * The target comes from the reference letters, "n" and "o" for lowercase
+ * and "H" and "O" for capitals: their side bearings average a share of the
+ * counter of "n" (or "H"), and the tightness sets that share.
+ */
+
+import opentype from 'opentype.js';
+import type {
+  FontMetrics,
+  GlyphData,
+  GlyphForm,
+  LigatureDefinition,
+  PositionalForm,
+  Sidebearings,
+} from '@/types';
+import { flattenContour, pathToContours, type Point } from './Outline';
+import { translatePath } from './Composites';
+import { isCombiningMark } from './Anchors';
+
+export const DEFAULT_SPACING_TIGHTNESS = 50;
+
+// Distance between the scanlines of a side profile, font units
+export const PROFILE_STEP = 5;
+
+// Points sampled per curve when measuring profiles
+const PROFILE_CURVE_STEPS = 12;
+
+// Openings between two glyphs count as at most this share of the zone
+// height deep, half of it on each glyph's side
+const MAX_DEPTH_SHARE = 0.15;
+
+// Average side bearing of the reference letters as a share of their counter,
+// at tightness 0 and 100
+const LOOSE_COUNTER_SHARE = 0.5;
+const TIGHT_COUNTER_SHARE = 0.15;
+
+// Counter assumed when the straight reference letter is not drawn, as a share of the zone height
+const FALLBACK_COUNTER_SHARE = 0.5;
+
+export const SPACING_REFERENCES = {
+  lowercase: { straight: 0x006e, round: 0x006f }, // n, o
+  uppercase: { straight: 0x0048, round: 0x004f }, // H, O
+};
+
+export type SpacingGroup = keyof typeof SPACING_REFERENCES;
+
+// Spacing of the glyphs measured across one zone
+export interface ZoneSpacing {
+  // The zone runs from the baseline to this height
+  top: number;
+  // Side bearing of a flat side
+  whiteWidth: number;
+  // Deepest the white between two glyphs counts
+  maxDepth: number;
+}
+
+export type SpacingModel = Record<SpacingGroup, ZoneSpacing>;
+
+// What auto spacing did to one outline
+export interface GlyphSpacingReport {
+  name: string;
+  before: Sidebearings;
+  after: Sidebearings;
+}
+
+// A scanline of a side profile: the leftmost and rightmost ink at height `y`
+export interface ProfileRow {
+  y: number;
+  left: number;
+  right: number;
+}
+
+// Extremes of a side profile and how deep its openings are on average
+interface SideProfile {
+  left: number;
+  right: number;
+  leftDepth: number;
+  rightDepth: number;
+}
+
+/**
+ * Capitals and figures are spaced against "H" and "O", everything else against "n" and "o"
+ */
+export function spacingGroup(unicode: number): SpacingGroup {
+  return /[\p{Lu}\p{Nd}]/u.test(String.fromCodePoint(unicode)) ? 'uppercase' : 'lowercase';
+}
+
+function outlinePolygons(path: opentype.Path): Point[][] {
+  return pathToContours(path).map((contour) => flattenContour(contour, PROFILE_CURVE_STEPS));
+}
+
+/**
+ * Stretches of a horizontal line at height `y` that are inside the outline (nonzero fill)
+ */
+function inkSpans(polygons: Point[][], y: number): Array<[number, number]> {
+  const crossings: Array<{ x: number; winding: number }> = [];
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % polygon.length];
+      if ((a.y > y) !== (b.y > y)) {
+        crossings.push({ x: a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y), winding: b.y > a.y ? 1 : -1 });
+      }
+    }
+  }
+  crossings.sort((a, b) => a.x - b.x);
+
+  const spans: Array<[number, number]> = [];
+  let winding = 0;
+  for (const crossing of crossings) {
+    const wasInside = winding !== 0;
+    winding += crossing.winding;
+    if (!wasInside && winding !== 0) spans.push([crossing.x, crossing.x]);
+    else if (wasInside && winding === 0) spans[spans.length - 1][1] = crossing.x;
+  }
+  return spans;
+}
+
+/**
+ * Scanlines of an outline across a band of heights that cross ink. They sit
+ * on one grid for all glyphs, so the profiles of neighbours line up.
+ */
+function profileRows(polygons: Point[][], bottom: number, top: number): ProfileRow[] {
+  const rows: ProfileRow[] = [];
+  const first = Math.ceil((bottom - PROFILE_STEP / 2) / PROFILE_STEP) * PROFILE_STEP + PROFILE_STEP / 2;
+  for (let y = first; y < top; y += PROFILE_STEP) {
+    const spans = inkSpans(polygons, y);
+    if (spans.length > 0) rows.push({ y, left: spans[0][0], right: spans[spans.length - 1][1] });
+  }
+  return rows;
+}
+
+/**
+ * Side profile of the scanlines taken across a band of heights, or null
+ * when there are none. Heights without ink count as `maxDepth` deep.
+ */
+function measureProfile(rows: ProfileRow[], bottom: number, top: number, maxDepth: number): SideProfile | null {
+  if (rows.length === 0) return null;
+
+  const first = Math.ceil((bottom - PROFILE_STEP / 2) / PROFILE_STEP) * PROFILE_STEP + PROFILE_STEP / 2;
+  const scanlines = Math.max(rows.length, Math.ceil((top - first) / PROFILE_STEP));
+  const left = Math.min(...rows.map((row) => row.left));
+  const right = Math.max(...rows.map((row) => row.right));
+  const meanDepth = (depth: (row: ProfileRow) => number) =>
+    (rows.reduce((sum, row) => sum + Math.min(depth(row), maxDepth), 0) + (scanlines - rows.length) * maxDepth) /
+    scanlines;
+  return {
+    left,
+    right,
+    leftDepth: meanDepth((row) => row.left - left),
+    rightDepth: meanDepth((row) => right - row.right),
+  };
+}
+
+/**
+ * Widest gap between the strokes of an outline at height `y` (the counter of "n" or "H")
+ */
+function measureCounter(polygons: Point[][], y: number): number | null {
+  const spans = inkSpans(polygons, y);
+  let widest: number | null = null;
+  for (let i = 1; i < spans.length; i++) {
+    const gap = spans[i][0] - spans[i - 1][1];
+    if (widest === null || gap > widest) widest = gap;
+  }
+  return widest;
+}
+
+function drawnPath(glyph: GlyphData | undefined): opentype.Path | null {
+  return glyph?.isComplete && glyph.path && glyph.path.commands.length > 0 ? glyph.path : null;
+}
+
+function zoneSpacing(glyphs: Record<number, GlyphData>, group: SpacingGroup, top: number, share: number): ZoneSpacing {
+  const maxDepth = top * MAX_DEPTH_SHARE;
+  const straight = drawnPath(glyphs[SPACING_REFERENCES[group].straight]);
+  const round = drawnPath(glyphs[SPACING_REFERENCES[group].round]);
+
+  const counter = (straight && measureCounter(outlinePolygons(straight), top / 2)) ?? top * FALLBACK_COUNTER_SHARE;
+  const depths = [straight, round]
+    .map((path) => path && measureProfile(profileRows(outlinePolygons(path), 0, top), 0, top, maxDepth / 2))
+    .flatMap((profile) => (profile ? [profile.leftDepth, profile.rightDepth] : []));
+  const meanDepth = depths.length > 0 ? depths.reduce((sum, depth) => sum + depth, 0) / depths.length : 0;
+
+  return { top, maxDepth, whiteWidth: counter * share + meanDepth };
+}
+
+/**
+ * Measure the reference letters of a project. `tightness` runs from 0 (loose) to 100 (tight).
+ */
+export function createSpacingModel(
+  glyphs: Record<number, GlyphData>,
+  metrics: FontMetrics,
+  tightness: number
+): SpacingModel {
+  const t = Math.min(100, Math.max(0, tightness)) / 100;
+  const share = LOOSE_COUNTER_SHARE + (TIGHT_COUNTER_SHARE - LOOSE_COUNTER_SHARE) * t;
+  return {
+    lowercase: zoneSpacing(glyphs, 'lowercase', metrics.xHeight, share),
+    uppercase: zoneSpacing(glyphs, 'uppercase', metrics.capHeight, share),
+  };
+}
+
+/**
+ * Side bearings of an outline as drawn
+ */
+export function getSidebearings(path: opentype.Path, advanceWidth: number): Sidebearings {
+  const box = path.getBoundingBox();
+  return { left: Math.round(box.x1), right: Math.round(advanceWidth - box.x2) };
+}
+
+/**
+ * Side profile scanlines of an outline of a character, the band of heights
+ * they were taken across and the zone; null for an empty outline. The band
+ * is the zone, or the outline's own height for outlines with no ink in
+ * their zone (quotes, commas).
+ */
+export function sideProfile(
+  path: opentype.Path,
+  unicode: number,
+  model: SpacingModel
+): { rows: ProfileRow[]; bottom: number; top: number; zone: ZoneSpacing } | null {
+  const zone = model[spacingGroup(unicode)];
+  const polygons = outlinePolygons(path);
+  if (polygons.length === 0) return null;
+
+  const rows = profileRows(polygons, 0, zone.top);
+  if (rows.length > 0) return { rows, bottom: 0, top: zone.top, zone };
+  const box = path.getBoundingBox();
+  const own = profileRows(polygons, box.y1, box.y2);
+  return own.length > 0 ? { rows: own, bottom: box.y1, top: box.y2, zone } : null;
+}
+
+/**
+ * Side bearings auto spacing gives an outline of a character; null for an empty outline
+ */
+export function autoSidebearings(path: opentype.Path, unicode: number, model: SpacingModel): Sidebearings | null {
+  const measured = sideProfile(path, unicode, model);
+  const profile =
+    measured && measureProfile(measured.rows, measured.bottom, measured.top, measured.zone.maxDepth / 2);
+  if (!measured || !profile) return null;
+
+  const { zone } = measured;
+  const box = path.getBoundingBox();
+
+  // The profile's extremes lie within the zone; side bearings are measured from the whole outline's
+  return {
+    left: Math.round(zone.whiteWidth - profile.leftDepth - (profile.left - box.x1)),
+    right: Math.round(zone.whiteWidth - profile.rightDepth - (box.x2 - profile.right)),
+  };
+}
+
+/**
+ * Horizontal shift and advance width that give an outline the side bearings
+ */
+function fitSidebearings(path: opentype.Path, sidebearings: Sidebearings): { dx: number; advanceWidth: number } {
+  const box = path.getBoundingBox();
+  return {
+    dx: sidebearings.left - box.x1,
+    advanceWidth: Math.max(0, Math.round(sidebearings.left + (box.x2 - box.x1) + sidebearings.right)),
+  };
+}
+
+/**
+ * Respace a glyph's outline, alternates and positional forms. Fixed side
+ * bearings in the glyph's spacing override win over computed ones; the
+ * skeleton and placed anchors move with the outline. Spaces and combining
+ * marks (which take no room) are left alone.
+ */
+export function autoSpaceGlyph(
+  glyph: GlyphData,
+  model: SpacingModel
+): { glyph: GlyphData; report: GlyphSpacingReport[] } {
+  if (!glyph.isComplete || !glyph.path || glyph.unicode === 32 || isCombiningMark(glyph.unicode)) {
+    return { glyph, report: [] };
+  }
+  const report: GlyphSpacingReport[] = [];
+  const space = (name: string, path: opentype.Path, advanceWidth: number) => {
+    const computed = autoSidebearings(path, glyph.unicode, model);
+    if (!computed) return { path, advanceWidth, dx: 0 };
+    const override = glyph.spacingOverride;
+    const after = { left: override?.left ?? computed.left, right: override?.right ?? computed.right };
+    const fit = fitSidebearings(path, after);
+    report.push({ name, before: getSidebearings(path, advanceWidth), after });
+    return { path: translatePath(path, fit.dx, 0), advanceWidth: fit.advanceWidth, dx: fit.dx };
+  };
+  const shiftSkeleton = (skeleton: GlyphData['skeleton'], dx: number) =>
+    skeleton && { ...skeleton, strokes: skeleton.strokes.map((stroke) => stroke.map((p) => ({ x: p.x + dx, y: p.y }))) };
+
+  const main = space(glyph.name, glyph.path, glyph.advanceWidth);
+  const anchors = glyph.anchors
+    ? (Object.fromEntries(
+        Object.entries(glyph.anchors).map(([name, p]) => [name, { x: p.x + main.dx, y: p.y }])
+      ) as GlyphData['anchors'])
+    : undefined;
+  const forms: GlyphData['forms'] = {};
+  for (const [form, drawing] of Object.entries(glyph.forms ?? {}) as Array<[PositionalForm, GlyphForm]>) {
+    const spaced = space(`${glyph.name}.${form}`, drawing.path, drawing.advanceWidth);
+    forms[form] = { path: spaced.path, advanceWidth: spaced.advanceWidth };
+  }
+
+  return {
+    glyph: {
+      ...glyph,
+      path: main.path,
+      advanceWidth: main.advanceWidth,
+      skeleton: shiftSkeleton(glyph.skeleton, main.dx),
+      anchors,
+      alternates: glyph.alternates?.map((alternate, i) => {
+        const spaced = space(`${glyph.name}.alt${i + 1}`, alternate.path, alternate.advanceWidth);
+        return {
+          ...alternate,
+          path: spaced.path,
+          advanceWidth: spaced.advanceWidth,
+          skeleton: shiftSkeleton(alternate.skeleton, spaced.dx),
+        };
+      }),
+      forms: glyph.forms ? forms : undefined,
+    },
+    report,
+  };
+}
+
+/**
+ * Respace a ligature like a glyph of its first character
+ */
+export function autoSpaceLigature(
+  ligature: LigatureDefinition,
+  model: SpacingModel
+): { ligature: LigatureDefinition; report: GlyphSpacingReport[] } {
+  const first = ligature.sequence.codePointAt(0);
+  if (!ligature.isComplete || !ligature.path || first === undefined) return { ligature, report: [] };
+  const sidebearings = autoSidebearings(ligature.path, first, model);
+  if (!sidebearings) return { ligature, report: [] };
+
+  const fit = fitSidebearings(ligature.path, sidebearings);
+  return {
+    ligature: { ...ligature, path: translatePath(ligature.path, fit.dx, 0), advanceWidth: fit.advanceWidth },
+    report: [{ name: ligature.name, before: getSidebearings(ligature.path, ligature.advanceWidth), after: sidebearings }],
+  };
+}
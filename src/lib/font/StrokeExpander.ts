@@ -0,0 +1,271 @@
+/**
+ * Stroke expansion
+ * Turns centrelines (skeleton strokes of a scan) into filled outlines by
+ * sweeping a pen along them: a round pen gives an even monoline weight, an
+ * elliptical or broad-nib pen held at an angle gives calligraphic contrast.
+ *
+ * Each stroke is offset on both sides by the pen's extent across it, with
+ * joins and caps that follow the pen's edge (round) or run straight past the
+ * end (square). Overlaps between strokes and at tight turns are then merged
+ * and the polyline outline is fitted with curves by the cleanup pass.
+ *
+ * Before merging, the stroke outlines depend on the pen width only through
+ * their coordinates, never their point structure, so sweeps of one skeleton
+ * with pens of different widths interpolate (variable font masters).
+ */
+
+import opentype from 'opentype.js';
+import { contoursToPath, segmentPointAt, type Contour, type ContourSegment, type Point } from './Outline';
+import { removeOverlaps } from './PathBoolean';
+import { cleanupOutline } from './OutlineCleanup';
+import { fitCurve } from './CurveFitter';
+import type { PenOptions, StrokeEnd } from '@/types';
+
+export const DEFAULT_PEN: PenOptions = {
+  shape: 'round',
+  width: 60,
+  angle: 30,
+  cap: 'round',
+  join: 'round',
+};
+
+// Vertices of the polygon standing in for a round or elliptical pen
+const PEN_VERTICES = 32;
+
+// Short axis of the elliptical pen and thickness of the broad nib, as shares of the width
+const ELLIPSE_RATIO = 0.4;
+const BROAD_NIB_RATIO = 0.1;
+
+// Smoothed centrelines are followed in steps that stay within this share of
+// the curve tolerance of the curves (Wang's formula), and at most this many per curve
+const FLATTENING_SHARE = 0.25;
+const MAX_CURVE_STEPS = 32;
+
+// The pen as a convex polygon, counter-clockwise: the shape at half-width 1,
+// which picks the vertices, and the polygon at the pen's size
+interface Nib {
+  shape: Point[];
+  polygon: Point[];
+}
+
+function createNib(pen: PenOptions): Nib {
+  const shape = penShape(pen);
+  return { shape, polygon: shape.map((p) => scale(p, pen.width / 2)) };
+}
+
+/**
+ * The pen's outline at half-width 1 around the origin, counter-clockwise
+ */
+function penShape(pen: PenOptions): Point[] {
+  const angle = (pen.angle * Math.PI) / 180;
+  const rotate = (p: Point): Point => ({
+    x: p.x * Math.cos(angle) - p.y * Math.sin(angle),
+    y: p.x * Math.sin(angle) + p.y * Math.cos(angle),
+  });
+
+  if (pen.shape === 'broad') {
+    return [
+      { x: -1, y: -BROAD_NIB_RATIO },
+      { x: 1, y: -BROAD_NIB_RATIO },
+      { x: 1, y: BROAD_NIB_RATIO },
+      { x: -1, y: BROAD_NIB_RATIO },
+    ].map(rotate);
+  }
+
+  const minor = pen.shape === 'ellipse' ? ELLIPSE_RATIO : 1;
+  return Array.from({ length: PEN_VERTICES }, (_, i) => {
+    const t = (2 * Math.PI * i) / PEN_VERTICES;
+    return rotate({ x: Math.cos(t), y: minor * Math.sin(t) });
+  });
+}
+
+function add(a: Point, b: Point): Point {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function sub(a: Point, b: Point): Point {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(v: Point, s: number): Point {
+  return { x: v.x * s, y: v.y * s };
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function cross(a: Point, b: Point): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function normalize(v: Point): Point {
+  const length = Math.hypot(v.x, v.y);
+  return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+}
+
+// Left of a direction, in Y-up coordinates
+function leftOf(direction: Point): Point {
+  return { x: -direction.y, y: direction.x };
+}
+
+/**
+ * Index of the pen vertex that reaches furthest in a direction
+ */
+function support(nib: Nib, direction: Point): number {
+  let best = 0;
+  for (let i = 1; i < nib.shape.length; i++) {
+    if (dot(nib.shape[i], direction) > dot(nib.shape[best], direction)) best = i;
+  }
+  return best;
+}
+
+// How far the pen reaches in a (unit) direction
+function reach(nib: Nib, direction: Point): number {
+  return dot(nib.polygon[support(nib, direction)], direction);
+}
+
+/**
+ * Pen vertices from `from` to `to` going clockwise, both included
+ */
+function penArc(nib: Nib, from: number, to: number, center: Point): Point[] {
+  const { polygon } = nib;
+  const points = [add(center, polygon[from])];
+  for (let i = from; i !== to; ) {
+    i = (i + polygon.length - 1) % polygon.length;
+    points.push(add(center, polygon[i]));
+  }
+  return points;
+}
+
+/**
+ * The left edge of the swept pen, from the start of the centreline to its end
+ */
+function offsetSide(points: Point[], nib: Nib, join: StrokeEnd): Point[] {
+  const side: Point[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const direction = normalize(sub(points[i + 1], points[i]));
+    const offset = nib.polygon[support(nib, leftOf(direction))];
+    const start = add(points[i], offset);
+    const end = add(points[i + 1], offset);
+
+    if (i > 0) {
+      const previous = normalize(sub(points[i], points[i - 1]));
+      const last = side[side.length - 1];
+      if (cross(previous, direction) >= 0) {
+        // Inner side of a left turn: pivot on the centreline; the loop this
+        // leaves lies inside the stroke and the nonzero fill covers it
+        side.push(points[i]);
+      } else if (join === 'round') {
+        side.push(...penArc(nib, support(nib, leftOf(previous)), support(nib, leftOf(direction)), points[i]).slice(1, -1));
+      } else {
+        // Square join: run both edges on past the corner by the pen's reach along them
+        side.push(add(last, scale(previous, reach(nib, previous))));
+        side.push(sub(start, scale(direction, reach(nib, scale(direction, -1)))));
+      }
+    }
+    side.push(start, end);
+  }
+  return side;
+}
+
+/**
+ * The end of a stroke, from its left edge round to its right edge
+ */
+function strokeCap(end: Point, direction: Point, nib: Nib, cap: StrokeEnd): Point[] {
+  const left = support(nib, leftOf(direction));
+  const right = support(nib, scale(leftOf(direction), -1));
+  if (cap === 'round') return penArc(nib, left, right, end).slice(1, -1);
+  const extension = scale(direction, reach(nib, direction));
+  return [add(add(end, nib.polygon[left]), extension), add(add(end, nib.polygon[right]), extension)];
+}
+
+/**
+ * Outline of one stroke swept by the pen, clockwise (may overlap itself)
+ */
+function expandStroke(points: Point[], nib: Nib, pen: PenOptions): Contour | null {
+  const centreline = points.filter((p, i) => i === 0 || Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y) > 1e-6);
+
+  let outline: Point[];
+  if (centreline.length < 2) {
+    // A dot: just the pen, turned clockwise like the strokes it may touch
+    if (centreline.length === 0) return null;
+    outline = nib.polygon.map((p) => add(centreline[0], p)).reverse();
+  } else {
+    const reversed = [...centreline].reverse();
+    const n = centreline.length;
+    outline = [
+      ...offsetSide(centreline, nib, pen.join),
+      ...strokeCap(centreline[n - 1], normalize(sub(centreline[n - 1], centreline[n - 2])), nib, pen.cap),
+      ...offsetSide(reversed, nib, pen.join),
+      ...strokeCap(centreline[0], normalize(sub(centreline[0], centreline[1])), nib, pen.cap),
+    ];
+  }
+
+  return {
+    start: outline[0],
+    segments: outline.slice(1).map((to): ContourSegment => ({ type: 'L', to })),
+  };
+}
+
+// Largest second difference of a segment's control points, scaled for Wang's formula
+function flatness(from: Point, seg: ContourSegment): number {
+  const secondDifference = (a: Point, b: Point, c: Point) => Math.hypot(a.x - 2 * b.x + c.x, a.y - 2 * b.y + c.y);
+  if (seg.type === 'Q') return secondDifference(from, seg.c, seg.to) / 4;
+  if (seg.type === 'C') {
+    return (Math.max(secondDifference(from, seg.c1, seg.c2), secondDifference(seg.c1, seg.c2, seg.to)) * 3) / 4;
+  }
+  return 0;
+}
+
+/**
+ * Smooth a centreline with fitted curves and follow them in short steps
+ */
+function smoothCentreline(points: Point[], tolerance: number): Point[] {
+  const segments = fitCurve(points, tolerance);
+  if (segments.length === 0) return points.slice(0, 1);
+
+  const result = [points[0]];
+  let from = points[0];
+  for (const seg of segments) {
+    const needed = Math.ceil(Math.sqrt(flatness(from, seg) / (tolerance * FLATTENING_SHARE)));
+    const steps = Math.min(MAX_CURVE_STEPS, Math.max(1, needed));
+    for (let i = 1; i <= steps; i++) result.push(segmentPointAt(from, seg, i / steps));
+    from = seg.to;
+  }
+  return result;
+}
+
+/**
+ * Outlines of the centrelines (in font units) swept by the pen, one
+ * clockwise contour per stroke, overlapping where the strokes do. The
+ * contours have the same points in the same order for any pen width.
+ * `curveTolerance` is how far smoothing may move the centrelines.
+ */
+export function strokeOutlines(strokes: Point[][], pen: PenOptions, curveTolerance: number): Contour[] {
+  const nib = createNib(pen);
+  return strokes
+    .map((stroke) => expandStroke(smoothCentreline(stroke, curveTolerance), nib, pen))
+    .filter((contour): contour is Contour => contour !== null);
+}
+
+/**
+ * Expand centrelines (in font units) into one filled outline.
+ * `curveTolerance` is how far smoothing and curve fitting may move the
+ * centrelines and the outline, in font units.
+ */
+export function expandStrokes(strokes: Point[][], pen: PenOptions, curveTolerance: number): opentype.Path {
+  return mergeStrokeOutlines(strokeOutlines(strokes, pen, curveTolerance), curveTolerance);
+}
+
+/**
+ * One filled outline from stroke outlines: overlaps merged, then fitted
+ * with curves within `curveTolerance` font units
+ */
+export function mergeStrokeOutlines(contours: Contour[], curveTolerance: number): opentype.Path {
+  if (contours.length === 0) return new opentype.Path();
+
+  const merged = removeOverlaps(contoursToPath(contours));
+  // Same contour directions as traced glyphs: outer counter-clockwise
+  return cleanupOutline(merged, { tolerance: curveTolerance, outerClockwise: false }).path;
+}
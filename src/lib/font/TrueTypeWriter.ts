@@ -0,0 +1,473 @@
+/**
+ * TrueType outline writer
+ * Converts the cubic outlines opentype.js holds into quadratic splines and
+ * encodes them as glyf/loca with a version 1.0 maxp, so the .ttf export
+ * is a real TrueType font rather than a renamed CFF one.
+ */
+
+import type opentype from 'opentype.js';
+import { BinaryWriter } from './BinaryWriter';
+import { SFNT_VERSION_TRUETYPE, type SfntFont } from './Sfnt';
+import { orientContours, pathToContours, type Contour, type Point } from './Outline';
+import { autohint, buildGaspTable } from './Hinting';
+import type { FontMetrics } from '@/types';
+
+// Max distance (font units) between a cubic and its quadratic approximation
+export const DEFAULT_QUADRATIC_TOLERANCE = 1;
+
+// Upper bound on quadratic pieces per cubic before giving up on the tolerance
+const MAX_QUADRATIC_SPLIT = 16;
+
+// glyf simple glyph flags
+const ON_CURVE = 0x01;
+const X_SHORT = 0x02;
+const Y_SHORT = 0x04;
+const REPEAT = 0x08;
+const X_SAME_OR_POSITIVE = 0x10;
+const Y_SAME_OR_POSITIVE = 0x20;
+const OVERLAP_SIMPLE = 0x40;
+
+interface GlyfPoint extends Point {
+  onCurve: boolean;
+}
+
+export interface GlyphBounds {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export interface TrueTypeGlyph {
+  data: Uint8Array;
+  // Null for empty glyphs (space)
+  bounds: GlyphBounds | null;
+  pointCount: number;
+  contourCount: number;
+}
+
+// Outline of a variation master, written point for point; overlapping
+// contours (unmerged pen sweeps) are flagged for the rasterizer
+export interface MasterOutline {
+  contours: Contour[];
+  overlapping: boolean;
+}
+
+export interface TrueTypeOutlineTables {
+  glyf: Uint8Array;
+  loca: Uint8Array;
+  maxp: Uint8Array;
+  indexToLocFormat: 0 | 1;
+  glyphs: TrueTypeGlyph[];
+  // cvt, fpgm and prep of a hinted font, empty otherwise
+  hinting: Map<string, Uint8Array>;
+}
+
+function lerp(a: Point, b: Point, t: number): Point {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function cubicAt(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const mt = 1 - t;
+  return {
+    x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+    y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y,
+  };
+}
+
+/**
+ * Split a cubic at t (de Casteljau) and return the [t0, t1] piece
+ */
+function cubicSegment(p: Point[], t0: number, t1: number): Point[] {
+  const splitRight = (q: Point[], t: number): Point[] => {
+    const a = lerp(q[0], q[1], t), b = lerp(q[1], q[2], t), c = lerp(q[2], q[3], t);
+    const d = lerp(a, b, t), e = lerp(b, c, t);
+    return [lerp(d, e, t), e, c, q[3]];
+  };
+  const splitLeft = (q: Point[], t: number): Point[] => {
+    const a = lerp(q[0], q[1], t), b = lerp(q[1], q[2], t), c = lerp(q[2], q[3], t);
+    const d = lerp(a, b, t), e = lerp(b, c, t);
+    return [q[0], a, d, lerp(d, e, t)];
+  };
+  const right = splitRight(p, t0);
+  return t0 === 1 ? right : splitLeft(right, (t1 - t0) / (1 - t0));
+}
+
+/**
+ * Approximate a cubic Bézier by a chain of quadratic Béziers whose distance
+ * from the original stays within `tolerance`. Returns [control, end] pairs.
+ */
+export function cubicToQuadratics(
+  p0: Point,
+  p1: Point,
+  p2: Point,
+  p3: Point,
+  tolerance: number = DEFAULT_QUADRATIC_TOLERANCE
+): Array<{ c: Point; to: Point }> {
+  let best: Array<{ c: Point; to: Point }> = [];
+
+  for (let n = 1; n <= MAX_QUADRATIC_SPLIT; n++) {
+    const pieces: Array<{ c: Point; to: Point }> = [];
+    let withinTolerance = true;
+
+    for (let i = 0; i < n; i++) {
+      const [a, b, c, d] = cubicSegment([p0, p1, p2, p3], i / n, (i + 1) / n);
+      // Best single quadratic for a cubic piece: average of the two extrapolated controls
+      const control = {
+        x: (3 * (b.x + c.x) - (a.x + d.x)) / 4,
+        y: (3 * (b.y + c.y) - (a.y + d.y)) / 4,
+      };
+      pieces.push({ c: control, to: d });
+
+      for (const t of [0.25, 0.5, 0.75]) {
+        const onCubic = cubicAt(a, b, c, d, t);
+        const mt = 1 - t;
+        const onQuad = {
+          x: mt * mt * a.x + 2 * mt * t * control.x + t * t * d.x,
+          y: mt * mt * a.y + 2 * mt * t * control.y + t * t * d.y,
+        };
+        if (Math.hypot(onCubic.x - onQuad.x, onCubic.y - onQuad.y) > tolerance) {
+          withinTolerance = false;
+        }
+      }
+    }
+
+    best = pieces;
+    if (withinTolerance) break;
+  }
+
+  return best;
+}
+
+/**
+ * Convert a contour to TrueType points (quadratic only, integer coordinates)
+ */
+function contourToGlyfPoints(contour: Contour, tolerance: number): GlyfPoint[] {
+  const round = (p: Point): Point => ({ x: Math.round(p.x), y: Math.round(p.y) });
+  const points: GlyfPoint[] = [{ ...round(contour.start), onCurve: true }];
+  let from = contour.start;
+
+  for (const seg of contour.segments) {
+    if (seg.type === 'L') {
+      points.push({ ...round(seg.to), onCurve: true });
+    } else if (seg.type === 'Q') {
+      points.push({ ...round(seg.c), onCurve: false }, { ...round(seg.to), onCurve: true });
+    } else {
+      for (const quad of cubicToQuadratics(from, seg.c1, seg.c2, seg.to, tolerance)) {
+        points.push({ ...round(quad.c), onCurve: false }, { ...round(quad.to), onCurve: true });
+      }
+    }
+    from = seg.to;
+  }
+
+  // Closing point duplicates the start
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && last.onCurve && last.x === first.x && last.y === first.y) {
+    points.pop();
+  }
+
+  // Drop repeated on-curve points and on-curve points implied by their off-curve neighbours
+  const result: GlyfPoint[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    const prev = result[result.length - 1];
+    if (prev && point.onCurve && prev.onCurve && prev.x === point.x && prev.y === point.y) continue;
+
+    const next = points[(i + 1) % points.length];
+    if (
+      i > 0 &&
+      point.onCurve &&
+      prev && !prev.onCurve &&
+      !next.onCurve &&
+      prev.x + next.x === point.x * 2 &&
+      prev.y + next.y === point.y * 2
+    ) {
+      continue;
+    }
+    result.push(point);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a contour to TrueType points exactly as given: every on-curve and
+ * control point in order, none merged or dropped, and each cubic split into
+ * the same two quadratics. Contours with the same structure (the masters of
+ * a variable glyph) give point lists that match one for one.
+ */
+function contourToMasterPoints(contour: Contour): GlyfPoint[] {
+  const round = (p: Point): GlyfPoint => ({ x: Math.round(p.x), y: Math.round(p.y), onCurve: true });
+  const points: GlyfPoint[] = [round(contour.start)];
+  let from = contour.start;
+
+  for (const seg of contour.segments) {
+    if (seg.type === 'L') {
+      points.push(round(seg.to));
+    } else if (seg.type === 'Q') {
+      points.push({ ...round(seg.c), onCurve: false }, round(seg.to));
+    } else {
+      for (const t of [0, 0.5]) {
+        const [a, b, c, d] = cubicSegment([from, seg.c1, seg.c2, seg.to], t, t + 0.5);
+        const control = { x: (3 * (b.x + c.x) - (a.x + d.x)) / 4, y: (3 * (b.y + c.y) - (a.y + d.y)) / 4 };
+        points.push({ ...round(control), onCurve: false }, round(d));
+      }
+    }
+    from = seg.to;
+  }
+  return points;
+}
+
+/**
+ * Coordinates of the TrueType points of a master outline, in glyf order
+ */
+export function masterPointCoordinates(contours: Contour[]): Point[] {
+  return contours.flatMap((contour) => contourToMasterPoints(contour).map(({ x, y }) => ({ x, y })));
+}
+
+/**
+ * Encode one simple glyph; `overlapping` flags contours that overlap each other
+ */
+function encodeGlyph(
+  contours: GlyfPoint[][],
+  overlapping: boolean = false,
+  instructions: Uint8Array = new Uint8Array(0)
+): TrueTypeGlyph {
+  const nonEmpty = contours.filter((c) => c.length > 0);
+  if (nonEmpty.length === 0) {
+    return { data: new Uint8Array(0), bounds: null, pointCount: 0, contourCount: 0 };
+  }
+
+  const all = nonEmpty.flat();
+  const bounds: GlyphBounds = {
+    xMin: Math.min(...all.map((p) => p.x)),
+    yMin: Math.min(...all.map((p) => p.y)),
+    xMax: Math.max(...all.map((p) => p.x)),
+    yMax: Math.max(...all.map((p) => p.y)),
+  };
+
+  const writer = new BinaryWriter(12 + all.length * 5);
+  writer.int16(nonEmpty.length).int16(bounds.xMin).int16(bounds.yMin).int16(bounds.xMax).int16(bounds.yMax);
+
+  let endPoint = -1;
+  for (const contour of nonEmpty) {
+    endPoint += contour.length;
+    writer.uint16(endPoint);
+  }
+  writer.uint16(instructions.length).bytes(instructions);
+
+  const flags: number[] = [];
+  const xBytes = new BinaryWriter(all.length * 2);
+  const yBytes = new BinaryWriter(all.length * 2);
+  let prevX = 0;
+  let prevY = 0;
+
+  for (const point of all) {
+    let flag = point.onCurve ? ON_CURVE : 0;
+    const dx = point.x - prevX;
+    const dy = point.y - prevY;
+
+    if (dx === 0) {
+      flag |= X_SAME_OR_POSITIVE;
+    } else if (Math.abs(dx) < 256) {
+      flag |= X_SHORT | (dx > 0 ? X_SAME_OR_POSITIVE : 0);
+      xBytes.uint8(Math.abs(dx));
+    } else {
+      xBytes.int16(dx);
+    }
+
+    if (dy === 0) {
+      flag |= Y_SAME_OR_POSITIVE;
+    } else if (Math.abs(dy) < 256) {
+      flag |= Y_SHORT | (dy > 0 ? Y_SAME_OR_POSITIVE : 0);
+      yBytes.uint8(Math.abs(dy));
+    } else {
+      yBytes.int16(dy);
+    }
+
+    flags.push(flags.length === 0 && overlapping ? flag | OVERLAP_SIMPLE : flag);
+    prevX = point.x;
+    prevY = point.y;
+  }
+
+  // Run-length encode identical flags
+  for (let i = 0; i < flags.length; ) {
+    let run = 1;
+    while (i + run < flags.length && flags[i + run] === flags[i] && run < 256) run++;
+    if (run > 1) {
+      writer.uint8(flags[i] | REPEAT).uint8(run - 1);
+    } else {
+      writer.uint8(flags[i]);
+    }
+    i += run;
+  }
+
+  writer.bytes(xBytes.toUint8Array()).bytes(yBytes.toUint8Array());
+  writer.align(4);
+
+  return { data: writer.toUint8Array(), bounds, pointCount: all.length, contourCount: nonEmpty.length };
+}
+
+/**
+ * Convert an opentype.js path to an encoded TrueType glyph.
+ * Contours are re-oriented to the TrueType convention (outer clockwise),
+ * unless they are `overlapping`: those are written as drawn and flagged.
+ */
+export function pathToTrueTypeGlyph(
+  path: opentype.Path,
+  tolerance: number = DEFAULT_QUADRATIC_TOLERANCE,
+  overlapping: boolean = false
+): TrueTypeGlyph {
+  const contours = overlapping ? pathToContours(path) : orientContours(pathToContours(path), true);
+  return encodeGlyph(
+    contours.map((c) => contourToGlyfPoints(c, tolerance)),
+    overlapping
+  );
+}
+
+/**
+ * Build glyf, loca and maxp (version 1.0) for every glyph of a font.
+ * Glyphs in `masterOutlines` (by glyph index) are written point for point
+ * from the given contours instead of their path, as variation masters need.
+ * With `hinting` metrics the glyphs are autohinted against their blue zones.
+ * Glyphs in `overlappingGlyphs` keep their contour directions and are
+ * flagged as overlapping.
+ */
+export function buildTrueTypeOutlines(
+  font: opentype.Font,
+  tolerance: number = DEFAULT_QUADRATIC_TOLERANCE,
+  masterOutlines?: Map<number, MasterOutline>,
+  hinting?: FontMetrics,
+  overlappingGlyphs?: Set<number>
+): TrueTypeOutlineTables {
+  const outlines: Array<{ contours: GlyfPoint[][]; overlapping: boolean }> = [];
+  for (let i = 0; i < font.glyphs.length; i++) {
+    const master = masterOutlines?.get(i);
+    if (master) {
+      outlines.push({ contours: master.contours.map(contourToMasterPoints), overlapping: master.overlapping });
+      continue;
+    }
+    const overlapping = overlappingGlyphs?.has(i) ?? false;
+    const drawn = pathToContours(font.glyphs.get(i).path);
+    const contours = overlapping ? drawn : orientContours(drawn, true);
+    outlines.push({ contours: contours.map((c) => contourToGlyfPoints(c, tolerance)), overlapping });
+  }
+
+  const program = hinting ? autohint(outlines.map((outline) => outline.contours), hinting) : null;
+  const glyphs = outlines.map((outline, i) =>
+    encodeGlyph(outline.contours, outline.overlapping, program?.instructions[i])
+  );
+
+  const totalSize = glyphs.reduce((sum, g) => sum + g.data.length, 0);
+  const indexToLocFormat: 0 | 1 = totalSize / 2 > 0xffff ? 1 : 0;
+
+  const glyf = new BinaryWriter(totalSize);
+  const loca = new BinaryWriter((glyphs.length + 1) * (indexToLocFormat ? 4 : 2));
+  const writeOffset = (offset: number) => {
+    if (indexToLocFormat) loca.uint32(offset);
+    else loca.uint16(offset / 2);
+  };
+  for (const glyph of glyphs) {
+    writeOffset(glyf.offset);
+    glyf.bytes(glyph.data);
+  }
+  writeOffset(glyf.offset);
+
+  const maxp = new BinaryWriter(32);
+  maxp
+    .uint32(0x00010000)
+    .uint16(glyphs.length)
+    .uint16(Math.max(0, ...glyphs.map((g) => g.pointCount)))
+    .uint16(Math.max(0, ...glyphs.map((g) => g.contourCount)))
+    .uint16(0) // maxCompositePoints
+    .uint16(0) // maxCompositeContours
+    .uint16(2) // maxZones
+    .uint16(0) // maxTwilightPoints
+    .uint16(0) // maxStorage
+    .uint16(program?.maxFunctionDefs ?? 0)
+    .uint16(0) // maxInstructionDefs
+    .uint16(program?.maxStackElements ?? 0)
+    .uint16(program?.maxSizeOfInstructions ?? 0)
+    .uint16(0) // maxComponentElements
+    .uint16(0); // maxComponentDepth
+
+  return {
+    glyf: glyf.toUint8Array(),
+    loca: loca.toUint8Array(),
+    maxp: maxp.toUint8Array(),
+    indexToLocFormat,
+    glyphs,
+    hinting: program?.tables ?? new Map(),
+  };
+}
+
+/**
+ * Swap the CFF outlines of an SFNT font for TrueType ones.
+ * Also rewrites the tables that depend on the outlines: head (bbox and
+ * loca format), hmtx (left side bearings) and hhea (extents), and writes
+ * gasp, with the hinting programs when `hinting` metrics are given.
+ */
+export function convertToTrueType(
+  sfnt: SfntFont,
+  font: opentype.Font,
+  tolerance: number = DEFAULT_QUADRATIC_TOLERANCE,
+  masterOutlines?: Map<number, MasterOutline>,
+  hinting?: FontMetrics,
+  overlappingGlyphs?: Set<number>
+): SfntFont {
+  const outlines = buildTrueTypeOutlines(font, tolerance, masterOutlines, hinting, overlappingGlyphs);
+  const tables = new Map(sfnt.tables);
+  tables.delete('CFF ');
+  tables.set('glyf', outlines.glyf);
+  tables.set('loca', outlines.loca);
+  tables.set('maxp', outlines.maxp);
+  for (const [tag, data] of outlines.hinting) {
+    tables.set(tag, data);
+  }
+  tables.set('gasp', buildGaspTable(hinting !== undefined));
+
+  const advanceWidths: number[] = [];
+  for (let i = 0; i < font.glyphs.length; i++) {
+    advanceWidths.push(Math.round(font.glyphs.get(i).advanceWidth ?? 0));
+  }
+  const bounded = outlines.glyphs
+    .map((g, i) => ({ bounds: g.bounds, advance: advanceWidths[i] }))
+    .filter((g): g is { bounds: GlyphBounds; advance: number } => g.bounds !== null);
+
+  const head = tables.get('head');
+  if (head) {
+    const patched = head.slice();
+    const view = new DataView(patched.buffer);
+    if (bounded.length > 0) {
+      view.setInt16(36, Math.min(...bounded.map((g) => g.bounds.xMin)));
+      view.setInt16(38, Math.min(...bounded.map((g) => g.bounds.yMin)));
+      view.setInt16(40, Math.max(...bounded.map((g) => g.bounds.xMax)));
+      view.setInt16(42, Math.max(...bounded.map((g) => g.bounds.yMax)));
+    }
+    view.setInt16(50, outlines.indexToLocFormat);
+    // Hinted: scale to whole pixels per em, as the instructions expect
+    if (hinting) view.setUint16(16, view.getUint16(16) | 0x0008);
+    tables.set('head', patched);
+  }
+
+  const hmtx = new BinaryWriter(outlines.glyphs.length * 4);
+  outlines.glyphs.forEach((glyph, i) => {
+    hmtx.uint16(advanceWidths[i]).int16(glyph.bounds?.xMin ?? 0);
+  });
+  tables.set('hmtx', hmtx.toUint8Array());
+
+  const hhea = tables.get('hhea');
+  if (hhea && bounded.length > 0) {
+    const patched = hhea.slice();
+    const view = new DataView(patched.buffer);
+    view.setUint16(10, Math.max(...advanceWidths));
+    view.setInt16(12, Math.min(...bounded.map((g) => g.bounds.xMin)));
+    view.setInt16(14, Math.min(...bounded.map((g) => g.advance - g.bounds.xMax)));
+    view.setInt16(16, Math.max(...bounded.map((g) => g.bounds.xMax)));
+    view.setUint16(34, outlines.glyphs.length); // numberOfHMetrics
+    tables.set('hhea', patched);
+  }
+
+  return { sfntVersion: SFNT_VERSION_TRUETYPE, tables };
+}
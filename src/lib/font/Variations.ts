@@ -0,0 +1,581 @@
+/**
+ * Variable font tables for weight and slant axes
+ * Glyphs read as monoline strokes are swept once per weight master, with the
+ * master's pen width. The sweeps match point for point, so each master's
+ * offsets from the default master become a gvar tuple; advance widths vary
+ * through gvar's phantom points. The slant axis skews every glyph: its tuple
+ * holds the offsets of the skewed default outline, and for each weight
+ * master a corner tuple adds what skewing does to that master's offsets.
+ * fvar declares the axes with named instances and STAT names the axis values.
+ */
+
+import type opentype from 'opentype.js';
+import type { FontMetrics, GlyphSkeleton, PenOptions, SlantSettings, WeightMaster } from '@/types';
+import { BinaryWriter } from './BinaryWriter';
+import { addFontSpecificName } from './FontInfo';
+import { slantTransform, transformContours, transformPoint, translation, type GlyphTransform } from './GlyphTransform';
+import type { Contour, ContourSegment, Point } from './Outline';
+import { strokeOutlines } from './StrokeExpander';
+import { masterPointCoordinates } from './TrueTypeWriter';
+
+// gvar tuple variation flags
+const EMBEDDED_PEAK_TUPLE = 0x8000;
+const INTERMEDIATE_REGION = 0x4000;
+const SHARED_POINT_NUMBERS = 0x8000;
+
+// Packed delta run headers
+const DELTAS_ARE_ZERO = 0x80;
+const DELTAS_ARE_WORDS = 0x40;
+const MAX_DELTA_RUN = 64;
+
+// Points within this distance (font units) of the line past them, in every master, are dropped
+const MASTER_SIMPLIFY_TOLERANCE = 1;
+
+// Origin, advance and the two vertical phantom points after a glyph's outline points
+const PHANTOM_POINTS = 4;
+
+// STAT axis value flag for the name left out of full names ("Regular")
+const ELIDABLE_AXIS_VALUE_NAME = 0x0002;
+
+// Subfamily name of STAT's elided fallback
+const SUBFAMILY_NAME_ID = 2;
+
+const WEIGHT_NAMES: Record<number, string> = {
+  100: 'Thin',
+  200: 'ExtraLight',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'SemiBold',
+  700: 'Bold',
+  800: 'ExtraBold',
+  900: 'Black',
+};
+
+// Thin, regular and black masters around the default pen
+export const DEFAULT_WEIGHT_MASTERS: WeightMaster[] = [
+  { weight: 100, penWidth: 20 },
+  { weight: 400, penWidth: 60 },
+  { weight: 900, penWidth: 150 },
+];
+
+export interface WeightAxis {
+  // Sorted by weight, at least two
+  masters: WeightMaster[];
+  defaultIndex: number;
+}
+
+// Upright by default, leaning right by `angle` degrees at the far end (slnt -angle)
+export interface SlantAxis {
+  angle: number;
+  transform: GlyphTransform;
+}
+
+export interface VariationAxes {
+  weight: WeightAxis | null;
+  slant: SlantAxis | null;
+}
+
+export interface VariableGlyph {
+  glyphIndex: number;
+  // Outline and advance width of each weight master, in axis order; glyphs
+  // that only slant have just their default outline
+  masters: Contour[][];
+  advances: number[];
+}
+
+export interface AxisRange {
+  min: number;
+  default: number;
+  max: number;
+}
+
+export interface VariableFontInfo {
+  // Ranges of the axes the font has, in fvar units (slnt is negative leaning right)
+  weight: AxisRange | null;
+  slant: AxisRange | null;
+  // Glyphs swept along the weight axis, and glyphs left static because their masters do not match
+  variableGlyphs: number;
+  incompatibleGlyphs: string[];
+}
+
+/**
+ * Weight axis from the masters in the settings: one master per weight,
+ * the default being the one nearest the font's weight class. Null without
+ * two distinct weights.
+ */
+export function resolveWeightAxis(masters: WeightMaster[], weightClass: number): WeightAxis | null {
+  const byWeight = new Map<number, WeightMaster>();
+  for (const master of masters) {
+    const weight = Math.min(1000, Math.max(1, Math.round(master.weight)));
+    if (!byWeight.has(weight) && master.penWidth > 0) byWeight.set(weight, { ...master, weight });
+  }
+  const sorted = Array.from(byWeight.values()).sort((a, b) => a.weight - b.weight);
+  if (sorted.length < 2) return null;
+
+  let defaultIndex = 0;
+  sorted.forEach((master, i) => {
+    if (Math.abs(master.weight - weightClass) < Math.abs(sorted[defaultIndex].weight - weightClass)) defaultIndex = i;
+  });
+  return { masters: sorted, defaultIndex };
+}
+
+/**
+ * Slant axis from the slant settings; null unless they ask for one
+ */
+export function resolveSlantAxis(slant: SlantSettings, metrics: FontMetrics): SlantAxis | null {
+  if (slant.output !== 'axis' || slant.angle <= 0) return null;
+  return { angle: slant.angle, transform: slantTransform(slant, metrics) };
+}
+
+/**
+ * Style name for a weight, e.g. 700 → "Bold"; in-between weights keep their number
+ */
+export function weightName(weight: number): string {
+  return WEIGHT_NAMES[weight] ?? String(weight);
+}
+
+function distanceToLine(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / length;
+}
+
+/**
+ * Drop the same points from every master of a polygon contour: those that
+ * stay within tolerance of the line from the last kept point to the next
+ * point in all of them, so the masters still match point for point
+ */
+function simplifyMasterContours(contours: Contour[]): Contour[] {
+  const rings = contours.map((contour) => [contour.start, ...contour.segments.map((seg) => seg.to)]);
+  const kept = [0];
+  const skipped: number[] = [];
+  for (let i = 1; i < rings[0].length; i++) {
+    const next = (i + 1) % rings[0].length;
+    const last = kept[kept.length - 1];
+    const removable = rings.every((ring) =>
+      [...skipped, i].every((j) => distanceToLine(ring[j], ring[last], ring[next]) <= MASTER_SIMPLIFY_TOLERANCE)
+    );
+    if (removable) {
+      skipped.push(i);
+    } else {
+      kept.push(i);
+      skipped.length = 0;
+    }
+  }
+  return rings.map((ring) => ({
+    start: ring[0],
+    segments: kept.slice(1).map((j): ContourSegment => ({ type: 'L', to: ring[j] })),
+  }));
+}
+
+/**
+ * Sweep a skeleton with each master's pen. A wider pen needs more room, so
+ * the outline moves right and the advance grows to keep the side bearings
+ * the skeleton was placed with. Points that are redundant in every master
+ * are left out.
+ */
+export function sweepWeightMasters(
+  skeleton: GlyphSkeleton,
+  advanceWidth: number,
+  pen: PenOptions,
+  axis: WeightAxis,
+  curveTolerance: number
+): Pick<VariableGlyph, 'masters' | 'advances'> {
+  const masters = axis.masters.map((master) => {
+    const dx = (master.penWidth - skeleton.penWidth) / 2;
+    return transformContours(
+      strokeOutlines(skeleton.strokes, { ...pen, width: master.penWidth }, curveTolerance),
+      translation(dx, 0)
+    );
+  });
+  if (areMastersCompatible(masters) && masters[0].every((contour) => contour.segments.every((seg) => seg.type === 'L'))) {
+    const simplified = masters[0].map((_, i) => simplifyMasterContours(masters.map((master) => master[i])));
+    masters.forEach((master, m) => master.forEach((_, i) => (master[i] = simplified[i][m])));
+  }
+  const advances = axis.masters.map((master) => Math.round(advanceWidth + master.penWidth - skeleton.penWidth));
+  return { masters, advances };
+}
+
+/**
+ * Whether outlines can be interpolated: the same contours with the same
+ * segment types in the same order
+ */
+export function areMastersCompatible(masters: Contour[][]): boolean {
+  const [first, ...rest] = masters;
+  return rest.every(
+    (master) =>
+      master.length === first.length &&
+      master.every(
+        (contour, i) =>
+          contour.segments.length === first[i].segments.length &&
+          contour.segments.every((seg, j) => seg.type === first[i].segments[j].type)
+      )
+  );
+}
+
+/**
+ * Normalized axis coordinate (-1 to 1, 0 at the default) of a weight
+ */
+function normalizeWeight(axis: WeightAxis, weight: number): number {
+  const min = axis.masters[0].weight;
+  const max = axis.masters[axis.masters.length - 1].weight;
+  const defaultWeight = axis.masters[axis.defaultIndex].weight;
+  if (weight < defaultWeight) return -(defaultWeight - weight) / (defaultWeight - min);
+  if (weight > defaultWeight) return (weight - defaultWeight) / (max - defaultWeight);
+  return 0;
+}
+
+/**
+ * Packed deltas: runs of zeros, of values that fit a byte, and of words
+ */
+function writePackedDeltas(writer: BinaryWriter, deltas: number[]): void {
+  const fitsByte = (value: number) => value >= -128 && value <= 127;
+  for (let i = 0; i < deltas.length; ) {
+    let run = 1;
+    if (deltas[i] === 0) {
+      while (i + run < deltas.length && deltas[i + run] === 0 && run < MAX_DELTA_RUN) run++;
+      writer.uint8(DELTAS_ARE_ZERO | (run - 1));
+    } else if (fitsByte(deltas[i])) {
+      while (i + run < deltas.length && deltas[i + run] !== 0 && fitsByte(deltas[i + run]) && run < MAX_DELTA_RUN) run++;
+      writer.uint8(run - 1);
+      for (let j = i; j < i + run; j++) writer.int8(deltas[j]);
+    } else {
+      while (i + run < deltas.length && !fitsByte(deltas[i + run]) && run < MAX_DELTA_RUN) run++;
+      writer.uint8(DELTAS_ARE_WORDS | (run - 1));
+      for (let j = i; j < i + run; j++) writer.int16(deltas[j]);
+    }
+    i += run;
+  }
+}
+
+// Region of a tuple on one axis; a peak of 0 leaves the axis out of it
+interface AxisRegion {
+  peak: number;
+  start: number;
+  end: number;
+}
+
+const ANY_REGION: AxisRegion = { peak: 0, start: 0, end: 0 };
+
+// The far end of the slant axis (normalized slnt -1) and everything up to it
+const SLANTED_REGION: AxisRegion = { peak: -1, start: -1, end: 0 };
+
+/**
+ * Tags of the axes a font has, in fvar order
+ */
+function axisTags(axes: VariationAxes): string[] {
+  return [...(axes.weight ? ['wght'] : []), ...(axes.slant ? ['slnt'] : [])];
+}
+
+/**
+ * Region on every axis of the font: the weight region given, the slant one given
+ */
+function tupleRegions(axes: VariationAxes, weight: AxisRegion, slant: AxisRegion): AxisRegion[] {
+  return [...(axes.weight ? [weight] : []), ...(axes.slant ? [slant] : [])];
+}
+
+/**
+ * Region of a weight master: peaking at the master and fading out at its
+ * neighbours, so that between two masters the outline is interpolated from
+ * those two alone
+ */
+function weightRegion(axis: WeightAxis, index: number): AxisRegion {
+  const coordinates = axis.masters.map((master) => normalizeWeight(axis, master.weight));
+  const inward = index < axis.defaultIndex ? index + 1 : index - 1;
+  const outward = index < axis.defaultIndex ? index - 1 : index + 1;
+  const around = [coordinates[inward], coordinates[outward] ?? coordinates[index]];
+  return { peak: coordinates[index], start: Math.min(...around), end: Math.max(...around) };
+}
+
+/**
+ * TrueType points of a master outline followed by its phantom points
+ */
+function glyphPoints(master: Contour[], advance: number): Point[] {
+  return [
+    ...masterPointCoordinates(master),
+    { x: 0, y: 0 },
+    { x: advance, y: 0 },
+    { x: 0, y: 0 },
+    { x: 0, y: 0 },
+  ];
+}
+
+/**
+ * Points skewed by the slant axis: the outline moves, the origin stays and
+ * the advance scales with the glyph
+ */
+function slantPoints(points: Point[], slant: SlantAxis): Point[] {
+  const outlineCount = points.length - PHANTOM_POINTS;
+  return points.map((p, i) => {
+    if (i >= outlineCount) return { x: Math.round(p.x * slant.transform.advanceScale), y: p.y };
+    const skewed = transformPoint(slant.transform.matrix, p);
+    return { x: Math.round(skewed.x), y: Math.round(skewed.y) };
+  });
+}
+
+function pointOffsets(to: Point[], from: Point[]): Point[] {
+  return to.map((p, i) => ({ x: p.x - from[i].x, y: p.y - from[i].y }));
+}
+
+/**
+ * Variation data of one glyph: a tuple per non-default weight master, one
+ * for the slant, and one per non-default weight master at the slanted end
+ * with what the skew does to that master's offsets
+ */
+function buildGlyphVariationData(glyph: VariableGlyph, axes: VariationAxes): Uint8Array {
+  const { weight, slant } = axes;
+  const swept = weight !== null && glyph.masters.length > 1;
+  const defaultIndex = swept ? weight.defaultIndex : 0;
+  const points = glyph.masters.map((master, i) => glyphPoints(master, glyph.advances[i]));
+  const defaultPoints = points[defaultIndex];
+  const defaultSlant = slant ? pointOffsets(slantPoints(defaultPoints, slant), defaultPoints) : [];
+
+  const candidates: Array<{ regions: AxisRegion[]; offsets: Point[] }> = [];
+  if (swept) {
+    points.forEach((masterPoints, i) => {
+      if (i === defaultIndex) return;
+      const region = weightRegion(weight, i);
+      candidates.push({
+        regions: tupleRegions(axes, region, ANY_REGION),
+        offsets: pointOffsets(masterPoints, defaultPoints),
+      });
+      if (slant) {
+        const masterSlant = pointOffsets(slantPoints(masterPoints, slant), masterPoints);
+        candidates.push({
+          regions: tupleRegions(axes, region, SLANTED_REGION),
+          offsets: pointOffsets(masterSlant, defaultSlant),
+        });
+      }
+    });
+  }
+  if (slant) {
+    candidates.push({ regions: tupleRegions(axes, ANY_REGION, SLANTED_REGION), offsets: defaultSlant });
+  }
+
+  const tuples = candidates
+    .filter(({ offsets }) => offsets.some((d) => d.x !== 0 || d.y !== 0))
+    .map(({ regions, offsets }) => {
+      const data = new BinaryWriter(offsets.length * 2);
+      writePackedDeltas(data, offsets.map((d) => d.x));
+      writePackedDeltas(data, offsets.map((d) => d.y));
+      return { regions, data: data.toUint8Array() };
+    });
+  if (tuples.length === 0) return new Uint8Array(0);
+
+  const axisCount = axisTags(axes).length;
+  const headerSize = 4 + tuples.length * (4 + axisCount * 6);
+  const writer = new BinaryWriter(headerSize + 1 + tuples.reduce((sum, t) => sum + t.data.length, 0));
+  writer.uint16(SHARED_POINT_NUMBERS | tuples.length).uint16(headerSize);
+  for (const tuple of tuples) {
+    writer.uint16(tuple.data.length).uint16(EMBEDDED_PEAK_TUPLE | INTERMEDIATE_REGION);
+    for (const region of tuple.regions) writer.f2dot14(region.peak);
+    for (const region of tuple.regions) writer.f2dot14(region.start);
+    for (const region of tuple.regions) writer.f2dot14(region.end);
+  }
+  writer.uint8(0); // shared point numbers: all points
+  for (const tuple of tuples) writer.bytes(tuple.data);
+  writer.align(2);
+  return writer.toUint8Array();
+}
+
+/**
+ * gvar: variation data for every glyph, empty for glyphs that do not vary
+ */
+function buildGvarTable(glyphCount: number, glyphs: VariableGlyph[], axes: VariationAxes): Uint8Array {
+  const dataByGlyph = new Map(glyphs.map((glyph) => [glyph.glyphIndex, buildGlyphVariationData(glyph, axes)]));
+
+  const dataOffset = 20 + (glyphCount + 1) * 4;
+  const writer = new BinaryWriter(dataOffset);
+  writer
+    .uint16(1)
+    .uint16(0)
+    .uint16(axisTags(axes).length)
+    .uint16(0) // sharedTupleCount
+    .uint32(dataOffset) // sharedTuplesOffset (none)
+    .uint16(glyphCount)
+    .uint16(1) // long offsets
+    .uint32(dataOffset);
+
+  let offset = 0;
+  const data = new BinaryWriter();
+  for (let i = 0; i < glyphCount; i++) {
+    writer.uint32(offset);
+    const glyphData = dataByGlyph.get(i);
+    if (glyphData) {
+      data.bytes(glyphData);
+      offset += glyphData.length;
+    }
+  }
+  writer.uint32(offset);
+  writer.bytes(data.toUint8Array());
+  return writer.toUint8Array();
+}
+
+// An axis as fvar and STAT describe it, with the values STAT names
+interface AxisDescription {
+  tag: string;
+  range: AxisRange;
+  nameId: number;
+  values: Array<{ value: number; nameId: number; elidable: boolean }>;
+}
+
+// A named instance: its name and a coordinate on every axis
+interface NamedInstance {
+  nameId: number;
+  coordinates: number[];
+}
+
+/**
+ * fvar: the axes and their named instances
+ */
+function buildFvarTable(axes: AxisDescription[], instances: NamedInstance[]): Uint8Array {
+  const instanceSize = 4 + axes.length * 4;
+  const writer = new BinaryWriter(16 + axes.length * 20 + instances.length * instanceSize);
+  writer
+    .uint16(1)
+    .uint16(0)
+    .uint16(16) // axesArrayOffset
+    .uint16(2) // reserved
+    .uint16(axes.length)
+    .uint16(20) // axisSize
+    .uint16(instances.length)
+    .uint16(instanceSize);
+
+  for (const axis of axes) {
+    writer.tag(axis.tag).fixed(axis.range.min).fixed(axis.range.default).fixed(axis.range.max).uint16(0).uint16(axis.nameId);
+  }
+  for (const instance of instances) {
+    writer.uint16(instance.nameId).uint16(0);
+    for (const coordinate of instance.coordinates) writer.fixed(coordinate);
+  }
+  return writer.toUint8Array();
+}
+
+/**
+ * STAT (version 1.1): the axes and a named value per master, slant stop or italic style
+ */
+function buildStatTable(axes: AxisDescription[]): Uint8Array {
+  const values = axes.flatMap((axis, axisIndex) => axis.values.map((value) => ({ axisIndex, ...value })));
+  const valuesOffset = 20 + axes.length * 8;
+  const writer = new BinaryWriter(valuesOffset + values.length * 14);
+  writer
+    .uint16(1)
+    .uint16(1)
+    .uint16(8) // designAxisSize
+    .uint16(axes.length)
+    .uint32(20) // designAxesOffset
+    .uint16(values.length)
+    .uint32(valuesOffset) // offsetToAxisValueOffsets
+    .uint16(SUBFAMILY_NAME_ID);
+
+  axes.forEach((axis, ordering) => writer.tag(axis.tag).uint16(axis.nameId).uint16(ordering));
+
+  values.forEach((_, i) => writer.uint16(values.length * 2 + i * 12));
+  for (const value of values) {
+    writer
+      .uint16(1) // format
+      .uint16(value.axisIndex)
+      .uint16(value.elidable ? ELIDABLE_AXIS_VALUE_NAME : 0)
+      .uint16(value.nameId)
+      .fixed(value.value);
+  }
+  return writer.toUint8Array();
+}
+
+/**
+ * Ranges of the axes as fvar declares them
+ */
+export function axisRanges(axes: VariationAxes): Pick<VariableFontInfo, 'weight' | 'slant'> {
+  const { weight, slant } = axes;
+  return {
+    weight: weight && {
+      min: weight.masters[0].weight,
+      default: weight.masters[weight.defaultIndex].weight,
+      max: weight.masters[weight.masters.length - 1].weight,
+    },
+    slant: slant && { min: -slant.angle, default: 0, max: 0 },
+  };
+}
+
+// Style name of an instance once slanted: "Bold Italic", or just "Italic"
+function italicName(upright: string): string {
+  return upright === 'Regular' ? 'Italic' : `${upright} Italic`;
+}
+
+/**
+ * fvar, gvar and STAT for a font whose glyphs in `glyphs` vary along the
+ * given axes. Adds the axis, value and instance names to the font's name table.
+ * An `italic` font (every glyph slanted, with no slant axis) names its
+ * instances as italics and tells STAT so on an "ital" axis fvar does not have.
+ */
+export function buildVariationTables(
+  font: opentype.Font,
+  axes: VariationAxes,
+  glyphs: VariableGlyph[],
+  italic: boolean = false
+): Map<string, Uint8Array> {
+  const nameIds = new Map<string, number>();
+  const nameId = (text: string) => {
+    if (!nameIds.has(text)) nameIds.set(text, addFontSpecificName(font, text));
+    return nameIds.get(text)!;
+  };
+
+  const ranges = axisRanges(axes);
+  const descriptions: AxisDescription[] = [];
+  if (axes.weight && ranges.weight) {
+    descriptions.push({
+      tag: 'wght',
+      range: ranges.weight,
+      nameId: nameId('Weight'),
+      values: axes.weight.masters.map((master) => ({
+        value: master.weight,
+        nameId: nameId(weightName(master.weight)),
+        elidable: master.weight === 400,
+      })),
+    });
+  }
+  if (axes.slant && ranges.slant) {
+    descriptions.push({
+      tag: 'slnt',
+      range: ranges.slant,
+      nameId: nameId('Slant'),
+      values: [
+        { value: 0, nameId: nameId('Upright'), elidable: true },
+        { value: ranges.slant.min, nameId: nameId('Italic'), elidable: false },
+      ],
+    });
+  }
+
+  const statAxes = [...descriptions];
+  if (italic && !axes.slant) {
+    statAxes.push({
+      tag: 'ital',
+      range: { min: 1, default: 1, max: 1 },
+      nameId: nameId('Italic'),
+      values: [{ value: 1, nameId: nameId('Italic'), elidable: false }],
+    });
+  }
+
+  // Every weight master, upright and then slanted: "Bold", ..., "Italic", "Bold Italic", ...
+  const weights: Array<number | null> = axes.weight ? axes.weight.masters.map((master) => master.weight) : [null];
+  const slants: Array<number | null> = ranges.slant ? [0, ranges.slant.min] : [null];
+  const instances = slants.flatMap((slant) =>
+    weights.map((weight): NamedInstance => {
+      const upright = weight === null ? 'Regular' : weightName(weight);
+      const name = slant || italic ? italicName(upright) : upright;
+      return {
+        nameId: nameId(name),
+        coordinates: [weight, slant].filter((coordinate): coordinate is number => coordinate !== null),
+      };
+    })
+  );
+
+  return new Map([
+    ['fvar', buildFvarTable(descriptions, instances)],
+    ['gvar', buildGvarTable(font.glyphs.length, glyphs, axes)],
+    ['STAT', buildStatTable(statAxes)],
+  ]);
+}
@@ -0,0 +1,334 @@
+/**
+ * WOFF and WOFF2 serializers
+ * Both wrap an existing SFNT binary (OTF or TTF). WOFF compresses each table
+ * with zlib; WOFF2 compresses one Brotli stream and, for TrueType fonts,
+ * applies the glyf/loca transform that makes outlines much smaller.
+ */
+
+import { zlibSync } from 'fflate';
+import { BinaryWriter } from './BinaryWriter';
+import { calculateChecksum, readSfnt, SFNT_VERSION_TRUETYPE, writeSfnt } from './Sfnt';
+
+// Table tags with a one-byte code in the WOFF2 table directory (index = code)
+const WOFF2_KNOWN_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm',
+  'glyf', 'loca', 'prep', 'CFF ', 'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern',
+  'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS', 'GSUB', 'EBSC',
+  'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar',
+  'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty',
+  'just', 'lcar', 'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat',
+  'Gloc', 'Feat', 'Sill',
+];
+
+// glyf flags needed to decode simple glyphs
+const GLYF_ON_CURVE = 0x01;
+const GLYF_X_SHORT = 0x02;
+const GLYF_Y_SHORT = 0x04;
+const GLYF_REPEAT = 0x08;
+const GLYF_X_SAME_OR_POSITIVE = 0x10;
+const GLYF_Y_SAME_OR_POSITIVE = 0x20;
+const GLYF_OVERLAP_SIMPLE = 0x40;
+
+// Transformed glyf option flag: an overlapSimpleBitmap follows the streams
+const HAS_OVERLAP_SIMPLE_BITMAP = 0x0001;
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+/**
+ * Tables of a font whose head.checkSumAdjustment is final, so that the
+ * per-table checksums stored in WOFF match the reconstructed font.
+ */
+function finalizedTables(sfntBuffer: ArrayBuffer) {
+  return readSfnt(writeSfnt(readSfnt(sfntBuffer)));
+}
+
+/**
+ * Wrap an SFNT font in WOFF 1.0 (zlib per table)
+ */
+export function toWOFF(sfntBuffer: ArrayBuffer): ArrayBuffer {
+  const { sfntVersion, tables } = finalizedTables(sfntBuffer);
+  const tags = Array.from(tables.keys()).sort();
+
+  const entries = tags.map((tag) => {
+    const data = tables.get(tag)!;
+    const compressed = zlibSync(data, { level: 9 });
+    // Tables that do not shrink are stored uncompressed
+    return { tag, data, stored: compressed.length < data.length ? compressed : data };
+  });
+
+  const headerSize = 44 + entries.length * 20;
+  const totalSfntSize = 12 + entries.length * 16 + entries.reduce((sum, e) => sum + align4(e.data.length), 0);
+  const totalLength = headerSize + entries.reduce((sum, e) => sum + align4(e.stored.length), 0);
+
+  const writer = new BinaryWriter(totalLength);
+  writer
+    .tag('wOFF')
+    .uint32(sfntVersion)
+    .uint32(totalLength)
+    .uint16(entries.length)
+    .uint16(0)
+    .uint32(totalSfntSize)
+    .uint16(1) // font version (major)
+    .uint16(0) // font version (minor)
+    .uint32(0) // metaOffset
+    .uint32(0) // metaLength
+    .uint32(0) // metaOrigLength
+    .uint32(0) // privOffset
+    .uint32(0); // privLength
+
+  let offset = headerSize;
+  for (const entry of entries) {
+    writer
+      .tag(entry.tag)
+      .uint32(offset)
+      .uint32(entry.stored.length)
+      .uint32(entry.data.length)
+      .uint32(calculateChecksum(entry.data));
+    offset += align4(entry.stored.length);
+  }
+  for (const entry of entries) {
+    writer.bytes(entry.stored).align(4);
+  }
+
+  return writer.toUint8Array().buffer as ArrayBuffer;
+}
+
+function writeUIntBase128(writer: BinaryWriter, value: number): void {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value & 0x7f);
+    value = Math.floor(value / 128);
+  } while (value > 0);
+  bytes.forEach((b, i) => writer.uint8(i < bytes.length - 1 ? b | 0x80 : b));
+}
+
+function write255UInt16(writer: BinaryWriter, value: number): void {
+  if (value < 253) {
+    writer.uint8(value);
+  } else if (value < 506) {
+    writer.uint8(255).uint8(value - 253);
+  } else if (value < 762) {
+    writer.uint8(254).uint8(value - 506);
+  } else {
+    writer.uint8(253).uint16(value);
+  }
+}
+
+/**
+ * Encode one point delta as a WOFF2 triplet: flag byte plus 1-4 data bytes
+ */
+function writeTriplet(flags: BinaryWriter, glyphs: BinaryWriter, onCurve: boolean, dx: number, dy: number): void {
+  const absX = Math.abs(dx);
+  const absY = Math.abs(dy);
+  const onCurveBit = onCurve ? 0 : 128;
+  const xSign = dx < 0 ? 0 : 1;
+  const ySign = dy < 0 ? 0 : 1;
+  const xySigns = xSign + 2 * ySign;
+
+  if (dx === 0 && absY < 1280) {
+    flags.uint8(onCurveBit + ((absY & 0xf00) >> 7) + ySign);
+    glyphs.uint8(absY & 0xff);
+  } else if (dy === 0 && absX < 1280) {
+    flags.uint8(onCurveBit + 10 + ((absX & 0xf00) >> 7) + xSign);
+    glyphs.uint8(absX & 0xff);
+  } else if (absX < 65 && absY < 65) {
+    flags.uint8(onCurveBit + 20 + ((absX - 1) & 0x30) + (((absY - 1) & 0x30) >> 2) + xySigns);
+    glyphs.uint8((((absX - 1) & 0xf) << 4) | ((absY - 1) & 0xf));
+  } else if (absX < 769 && absY < 769) {
+    flags.uint8(onCurveBit + 84 + 12 * (((absX - 1) & 0x300) >> 8) + (((absY - 1) & 0x300) >> 6) + xySigns);
+    glyphs.uint8((absX - 1) & 0xff).uint8((absY - 1) & 0xff);
+  } else if (absX < 4096 && absY < 4096) {
+    flags.uint8(onCurveBit + 120 + xySigns);
+    glyphs.uint8(absX >> 4).uint8(((absX & 0xf) << 4) | (absY >> 8)).uint8(absY & 0xff);
+  } else {
+    flags.uint8(onCurveBit + 124 + xySigns);
+    glyphs.uint16(absX).uint16(absY);
+  }
+}
+
+/**
+ * WOFF2 glyf transform (version 0). Only simple glyphs are supported,
+ * which is all the TrueType writer produces. Glyphs flagged OVERLAP_SIMPLE
+ * are listed in the overlap bitmap, the only place the flag survives.
+ */
+function transformGlyf(glyf: Uint8Array, loca: Uint8Array, indexFormat: number, numGlyphs: number): Uint8Array {
+  const glyfView = new DataView(glyf.buffer, glyf.byteOffset, glyf.byteLength);
+  const locaView = new DataView(loca.buffer, loca.byteOffset, loca.byteLength);
+  const locaAt = (i: number) => (indexFormat ? locaView.getUint32(i * 4) : locaView.getUint16(i * 2) * 2);
+
+  const nContours = new BinaryWriter();
+  const nPoints = new BinaryWriter();
+  const flagStream = new BinaryWriter();
+  const glyphStream = new BinaryWriter();
+  const instructionStream = new BinaryWriter();
+  const bboxBitmap = new Uint8Array(4 * Math.floor((numGlyphs + 31) / 32));
+  const overlapBitmap = new Uint8Array(bboxBitmap.length);
+  let hasOverlaps = false;
+
+  for (let g = 0; g < numGlyphs; g++) {
+    const start = locaAt(g);
+    const end = locaAt(g + 1);
+    if (end <= start) {
+      nContours.int16(0);
+      continue;
+    }
+
+    const contourCount = glyfView.getInt16(start);
+    if (contourCount < 0) {
+      throw new Error('WOFF2 export does not support composite glyphs');
+    }
+    nContours.int16(contourCount);
+
+    let p = start + 10;
+    const endPoints: number[] = [];
+    for (let c = 0; c < contourCount; c++) {
+      endPoints.push(glyfView.getUint16(p));
+      p += 2;
+    }
+    const instructionLength = glyfView.getUint16(p);
+    p += 2;
+    const instructions = glyf.subarray(p, p + instructionLength);
+    p += instructionLength;
+
+    const pointCount = contourCount > 0 ? endPoints[contourCount - 1] + 1 : 0;
+    endPoints.forEach((endPoint, c) => {
+      write255UInt16(nPoints, endPoint - (c > 0 ? endPoints[c - 1] : -1));
+    });
+
+    // Decode flags and coordinates
+    const flags: number[] = [];
+    while (flags.length < pointCount) {
+      const flag = glyf[p++];
+      flags.push(flag);
+      if (flag & GLYF_REPEAT) {
+        const repeat = glyf[p++];
+        for (let r = 0; r < repeat; r++) flags.push(flag);
+      }
+    }
+    const readDeltas = (shortBit: number, sameBit: number): number[] =>
+      flags.map((flag) => {
+        if (flag & shortBit) {
+          const value = glyf[p++];
+          return flag & sameBit ? value : -value;
+        }
+        if (flag & sameBit) return 0;
+        const value = glyfView.getInt16(p);
+        p += 2;
+        return value;
+      });
+    if (flags[0] & GLYF_OVERLAP_SIMPLE) {
+      overlapBitmap[g >> 3] |= 0x80 >> (g & 7);
+      hasOverlaps = true;
+    }
+    const dxs = readDeltas(GLYF_X_SHORT, GLYF_X_SAME_OR_POSITIVE);
+    const dys = readDeltas(GLYF_Y_SHORT, GLYF_Y_SAME_OR_POSITIVE);
+
+    for (let i = 0; i < pointCount; i++) {
+      writeTriplet(flagStream, glyphStream, (flags[i] & GLYF_ON_CURVE) !== 0, dxs[i], dys[i]);
+    }
+    write255UInt16(glyphStream, instructionLength);
+    instructionStream.bytes(instructions);
+    // Bounding boxes are recomputed from the points by the decoder, so none are stored
+  }
+
+  const streams = [
+    nContours.toUint8Array(),
+    nPoints.toUint8Array(),
+    flagStream.toUint8Array(),
+    glyphStream.toUint8Array(),
+    new Uint8Array(0), // composite stream
+    bboxBitmap,
+    instructionStream.toUint8Array(),
+  ];
+
+  const trailer = hasOverlaps ? overlapBitmap : new Uint8Array(0);
+  const writer = new BinaryWriter(36 + streams.reduce((sum, s) => sum + s.length, 0) + trailer.length);
+  writer.uint16(0).uint16(hasOverlaps ? HAS_OVERLAP_SIMPLE_BITMAP : 0).uint16(numGlyphs).uint16(indexFormat);
+  for (const stream of streams) writer.uint32(stream.length);
+  for (const stream of streams) writer.bytes(stream);
+  writer.bytes(trailer);
+  return writer.toUint8Array();
+}
+
+/**
+ * Wrap an SFNT font in WOFF2 (Brotli, glyf/loca transform for TrueType).
+ * Brotli is loaded on demand since it ships as WebAssembly.
+ */
+export async function toWOFF2(sfntBuffer: ArrayBuffer): Promise<ArrayBuffer> {
+  const { sfntVersion, tables } = finalizedTables(sfntBuffer);
+
+  // loca has to directly follow glyf in the directory
+  const tags = Array.from(tables.keys())
+    .filter((tag) => tag !== 'loca')
+    .sort();
+  if (tables.has('loca')) tags.splice(tags.indexOf('glyf') + 1, 0, 'loca');
+
+  const transformGlyph = sfntVersion === SFNT_VERSION_TRUETYPE && tables.has('glyf') && tables.has('loca');
+  let transformedGlyf: Uint8Array | null = null;
+  if (transformGlyph) {
+    const head = new DataView(tables.get('head')!.buffer);
+    const maxp = new DataView(tables.get('maxp')!.buffer);
+    transformedGlyf = transformGlyf(tables.get('glyf')!, tables.get('loca')!, head.getInt16(50), maxp.getUint16(4));
+  }
+
+  const directory = new BinaryWriter();
+  const streamParts: Uint8Array[] = [];
+  for (const tag of tags) {
+    const data = tables.get(tag)!;
+    const known = WOFF2_KNOWN_TAGS.indexOf(tag);
+    const isGlyphTable = transformGlyph && (tag === 'glyf' || tag === 'loca');
+    // Transform version 0 means "transformed" for glyf/loca but "none" for everything else
+    const transformVersion = tag === 'glyf' || tag === 'loca' ? (isGlyphTable ? 0 : 3) : 0;
+
+    directory.uint8((known >= 0 ? known : 63) | (transformVersion << 6));
+    if (known < 0) directory.tag(tag);
+    writeUIntBase128(directory, data.length);
+
+    if (tag === 'glyf' && transformedGlyf) {
+      writeUIntBase128(directory, transformedGlyf.length);
+      streamParts.push(transformedGlyf);
+    } else if (tag === 'loca' && isGlyphTable) {
+      writeUIntBase128(directory, 0); // rebuilt by the decoder
+    } else {
+      streamParts.push(data);
+    }
+  }
+
+  const stream = new Uint8Array(streamParts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of streamParts) {
+    stream.set(part, position);
+    position += part.length;
+  }
+
+  const brotli = await (await import('brotli-wasm')).default;
+  const compressed = brotli.compress(stream, { quality: 11 });
+
+  const directoryBytes = directory.toUint8Array();
+  const totalSfntSize = 12 + tags.length * 16 + tags.reduce((sum, tag) => sum + align4(tables.get(tag)!.length), 0);
+  const totalLength = align4(48 + directoryBytes.length + compressed.length);
+
+  const writer = new BinaryWriter(totalLength);
+  writer
+    .tag('wOF2')
+    .uint32(sfntVersion)
+    .uint32(totalLength)
+    .uint16(tags.length)
+    .uint16(0)
+    .uint32(totalSfntSize)
+    .uint32(compressed.length)
+    .uint16(1) // font version (major)
+    .uint16(0) // font version (minor)
+    .uint32(0) // metaOffset
+    .uint32(0) // metaLength
+    .uint32(0) // metaOrigLength
+    .uint32(0) // privOffset
+    .uint32(0) // privLength
+    .bytes(directoryBytes)
+    .bytes(compressed)
+    .align(4);
+
+  return writer.toUint8Array().buffer as ArrayBuffer;
+}
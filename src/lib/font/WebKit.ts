@@ -0,0 +1,141 @@
+/**
+ * Web font kit
+ * Bundles WOFF2/WOFF/TTF files with a ready-to-use @font-face stylesheet
+ * and a demo page into a single zip download.
+ */
+
+import opentype from 'opentype.js';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import type { FontSettings } from '@/types';
+import { downloadBlob, exportAsTTF, getVariableFontInfo } from './FontBuilder';
+import { exportedStyleName } from './FontInfo';
+import type { VariableFontInfo } from './Variations';
+import { toWOFF, toWOFF2 } from './WebFontWriter';
+
+const STYLESHEET_NAME = 'stylesheet.css';
+const DEMO_NAME = 'demo.html';
+
+const DEMO_TEXT = 'The quick brown fox jumps over the lazy dog';
+const DEMO_SIZES = [12, 16, 24, 36, 48, 72];
+
+/**
+ * File-system friendly base name for the font files
+ */
+export function fontFileBaseName(settings: FontSettings): string {
+  return `${settings.familyName}-${exportedStyleName(settings)}`.replace(/\s+/g, '-').replace(/[^A-Za-z0-9_-]/g, '');
+}
+
+function cssString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * @font-face stylesheet referencing the kit's font files; a variable font
+ * covers its whole weight and slant range
+ */
+export function buildFontFaceCss(
+  settings: FontSettings,
+  baseName: string,
+  variable: VariableFontInfo | null = null
+): string {
+  const weight = variable?.weight ? `${variable.weight.min} ${variable.weight.max}` : settings.metadata.weightClass;
+  let style = /italic|oblique/i.test(exportedStyleName(settings)) ? 'italic' : 'normal';
+  // CSS oblique angles lean right when positive, slnt values when negative
+  if (variable?.slant) style = `oblique 0deg ${-variable.slant.min}deg`;
+  return `@font-face {
+  font-family: ${cssString(settings.familyName)};
+  src: url('${baseName}.woff2') format('woff2'),
+       url('${baseName}.woff') format('woff'),
+       url('${baseName}.ttf') format('truetype');
+  font-weight: ${weight};
+  font-style: ${style};
+  font-display: swap;
+}
+`;
+}
+
+/**
+ * Demo page showing the font at several sizes
+ */
+export function buildDemoHtml(settings: FontSettings): string {
+  const family = escapeHtml(settings.familyName);
+  const samples = DEMO_SIZES.map(
+    (size) => `    <div class="sample">
+      <span class="size">${size}px</span>
+      <p style="font-size: ${size}px">${DEMO_TEXT}</p>
+    </div>`
+  ).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${family} ${escapeHtml(exportedStyleName(settings))}</title>
+  <link rel="stylesheet" href="${STYLESHEET_NAME}">
+  <style>
+    body { margin: 2rem; color: #171717; font-family: system-ui, sans-serif; }
+    .font { font-family: ${escapeHtml(cssString(settings.familyName))}, sans-serif; }
+    .sample { display: flex; align-items: baseline; gap: 1rem; border-bottom: 1px solid #e5e5e5; }
+    .size { width: 3rem; flex-shrink: 0; color: #737373; font-size: 12px; }
+    .sample p { margin: 0.5rem 0; }
+    .charset { font-size: 32px; line-height: 1.4; word-break: break-all; }
+    pre { background: #f5f5f5; padding: 1rem; overflow-x: auto; }
+  </style>
+</head>
+<body>
+  <h1 class="font">${family}</h1>
+  <p class="font charset">
+    ABCDEFGHIJKLMNOPQRSTUVWXYZ<br>
+    abcdefghijklmnopqrstuvwxyz<br>
+    0123456789 !?&amp;@#$%()
+  </p>
+  <div class="font">
+${samples}
+  </div>
+  <h2>Usage</h2>
+  <pre>&lt;link rel="stylesheet" href="${STYLESHEET_NAME}"&gt;
+
+.my-text {
+  font-family: ${escapeHtml(cssString(settings.familyName))}, sans-serif;
+}</pre>
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the web kit zip: font files, stylesheet and demo page
+ */
+export async function buildWebKit(font: opentype.Font, settings: FontSettings): Promise<Blob> {
+  const baseName = fontFileBaseName(settings);
+  const ttf = exportAsTTF(font);
+
+  // WOFF/WOFF2 are already compressed, so they are stored as-is
+  const files: Zippable = {
+    [`${baseName}.woff2`]: [new Uint8Array(await toWOFF2(ttf)), { level: 0 }],
+    [`${baseName}.woff`]: [new Uint8Array(toWOFF(ttf)), { level: 0 }],
+    [`${baseName}.ttf`]: new Uint8Array(ttf),
+    [STYLESHEET_NAME]: strToU8(buildFontFaceCss(settings, baseName, getVariableFontInfo(font))),
+    [DEMO_NAME]: strToU8(buildDemoHtml(settings)),
+  };
+
+  const zip = zipSync(files, { level: 6 });
+  return new Blob([zip], { type: 'application/zip' });
+}
+
+/**
+ * Build and download the web kit as `<family>-<style>-webkit.zip`
+ */
+export async function downloadWebKit(font: opentype.Font, settings: FontSettings): Promise<void> {
+  const blob = await buildWebKit(font, settings);
+  downloadBlob(blob, `${fontFileBaseName(settings)}-webkit.zip`);
+}
@@ -8,6 +8,7 @@
 import ImageTracer from 'imagetracerjs';
 
 import type { TemplateCoordinates } from '../template/TemplateDefinition';
+import { fitClosedCurve, fitCurve } from '../font/CurveFitter';
 
 // Font metrics constants (1000 unitsPerEm)
 const UNITS_PER_EM = 1000;
@@ -20,6 +21,7 @@ const BLUR_SIGMA = 0.8;        // Gaussian blur sigma for pre-trace smoothing
 const BLUR_THRESHOLD = 128;    // Re-threshold value after blur
 const DP_EPSILON = 0.6;        // Douglas-Peucker simplification epsilon (lower = more detail)
 const CURVE_SAMPLES = 12;      // Number of points to sample per curve segment
+const FIT_TOLERANCE = 0.3;     // Curve fitting tolerance in pixels, when none is given in font units
 
 // ============================================================================
 // PRE-TRACE BITMAP SMOOTHING
@@ -257,53 +259,31 @@ function parseSvgPathToPoints(d: string): Point[][] {
 }
 
 /**
- * Convert simplified points back to SVG path using quadratic curves
- * Uses "midpoint quadratic" smoothing for natural handwriting look
+ * Convert simplified points back to an SVG path of smooth cubics,
+ * fitted to within `tolerance` (pixels) of the points
  */
-function pointsToSvgPath(contours: Point[][]): string {
+function pointsToSvgPath(contours: Point[][], tolerance: number): string {
   let path = '';
   const CLOSE_THRESHOLD = 2.5; // If start/end within this distance, treat as closed
+  const format = (p: Point) => `${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
 
   for (const contour of contours) {
-    if (contour.length === 0) continue;
-    if (contour.length === 1) {
-      // Single point - skip
-      continue;
-    }
-
-    const p = contour;
-    const n = p.length;
+    if (contour.length < 2) continue; // Single point - skip
 
     // Check if contour should be closed
-    const dx = p[0].x - p[n - 1].x;
-    const dy = p[0].y - p[n - 1].y;
-    const isClosed = Math.sqrt(dx * dx + dy * dy) <= CLOSE_THRESHOLD;
-
-    // Start path
-    path += `M ${p[0].x.toFixed(2)} ${p[0].y.toFixed(2)} `;
-
-    if (n === 2) {
-      // Just two points - use line
-      path += `L ${p[1].x.toFixed(2)} ${p[1].y.toFixed(2)} `;
-    } else {
-      // Midpoint quadratic smoothing:
-      // For each point p[i] (except first and last), use it as control point
-      // and the midpoint between p[i] and p[i+1] as the endpoint
-
-      for (let i = 1; i < n - 1; i++) {
-        const ctrl = p[i];
-        const next = p[i + 1];
-        // Midpoint between control and next point
-        const midX = (ctrl.x + next.x) / 2;
-        const midY = (ctrl.y + next.y) / 2;
-        path += `Q ${ctrl.x.toFixed(2)} ${ctrl.y.toFixed(2)} ${midX.toFixed(2)} ${midY.toFixed(2)} `;
-      }
-
-      // Final segment to the last point
-      // Use second-to-last point as control, last point as endpoint
-      const lastCtrl = p[n - 2];
-      const lastPt = p[n - 1];
-      path += `Q ${lastCtrl.x.toFixed(2)} ${lastCtrl.y.toFixed(2)} ${lastPt.x.toFixed(2)} ${lastPt.y.toFixed(2)} `;
+    const n = contour.length;
+    const isClosed = Math.hypot(contour[0].x - contour[n - 1].x, contour[0].y - contour[n - 1].y) <= CLOSE_THRESHOLD;
+
+    const fitted = isClosed
+      ? fitClosedCurve(contour, tolerance)
+      : { start: contour[0], segments: fitCurve(contour, tolerance) };
+    if (!fitted || fitted.segments.length === 0) continue;
+
+    path += `M ${format(fitted.start)} `;
+    for (const seg of fitted.segments) {
+      if (seg.type === 'L') path += `L ${format(seg.to)} `;
+      else if (seg.type === 'Q') path += `Q ${format(seg.c)} ${format(seg.to)} `;
+      else path += `C ${format(seg.c1)} ${format(seg.c2)} ${format(seg.to)} `;
     }
 
     // Close path only if it's actually a closed contour
@@ -316,12 +296,12 @@ function pointsToSvgPath(contours: Point[][]): string {
 }
 
 /**
- * Apply Douglas-Peucker simplification to an SVG path string
+ * Apply Douglas-Peucker simplification to an SVG path string, then fit curves
  */
-function simplifySvgPath(d: string, epsilon: number = DP_EPSILON): string {
+function simplifySvgPath(d: string, epsilon: number = DP_EPSILON, fitTolerance: number = FIT_TOLERANCE): string {
   const contours = parseSvgPathToPoints(d);
   const simplified = contours.map(c => simplifyPath(c, epsilon));
-  return pointsToSvgPath(simplified);
+  return pointsToSvgPath(simplified, fitTolerance);
 }
 
 export interface VectorizationResult {
@@ -342,8 +322,9 @@ export interface VectorizationResult {
  *   - INK = WHITE (255)
  *   - BACKGROUND = BLACK (0)
  * (Standard binary image convention for morphological ops)
+ * Curves are fitted to within `fitTolerance` pixels of the traced outline.
  */
-export function vectorizeCell(cellImageData: ImageData): VectorizationResult {
+export function vectorizeCell(cellImageData: ImageData, fitTolerance: number = FIT_TOLERANCE): VectorizationResult {
   const { width, height, data } = cellImageData;
 
   // First, find content bounds (looking for WHITE pixels = ink)
@@ -434,7 +415,7 @@ export function vectorizeCell(cellImageData: ImageData): VectorizationResult {
     // DEBUG: Log raw SVG for inspection
     console.log('[CleanVectorizer] Raw SVG from imagetracer:', svgString.substring(0, 500));
 
-    const pathData = extractPathFromSvg(svgString, bounds.width, bounds.height);
+    const pathData = extractPathFromSvg(svgString, bounds.width, bounds.height, fitTolerance);
 
     return {
       svgPath: pathData,
@@ -458,7 +439,12 @@ export function vectorizeCell(cellImageData: ImageData): VectorizationResult {
  * Instead, it keeps paths whose bounding box is in a sensible range for ink
  * (not too big = background, not too small = noise)
  */
-function extractPathFromSvg(svgString: string, imageWidth: number, imageHeight: number): string {
+function extractPathFromSvg(
+  svgString: string,
+  imageWidth: number,
+  imageHeight: number,
+  fitTolerance: number
+): string {
   // Need SVG in DOM to compute getBBox()
   const temp = document.createElement('div');
   temp.style.position = 'absolute';
@@ -547,14 +533,14 @@ function extractPathFromSvg(svgString: string, imageWidth: number, imageHeight:
   // Apply separately to outlines and holes to preserve topology
   const simplifiedOutlines = outlines.map(d => {
     const before = d.length;
-    const simplified = simplifySvgPath(d, DP_EPSILON);
+    const simplified = simplifySvgPath(d, DP_EPSILON, fitTolerance);
     console.log(`[CleanVectorizer] Simplified outline: ${before} chars → ${simplified.length} chars`);
     return simplified;
   });
 
   const simplifiedHoles = holes.map(d => {
     const before = d.length;
-    const simplified = simplifySvgPath(d, DP_EPSILON);
+    const simplified = simplifySvgPath(d, DP_EPSILON, fitTolerance);
     console.log(`[CleanVectorizer] Simplified hole: ${before} chars → ${simplified.length} chars`);
     return simplified;
   });
@@ -809,6 +795,14 @@ const FONT_ASCENDER = 800;
 const LEFT_SIDE_BEARING = 10;
 const RIGHT_SIDE_BEARING = 10;
 
+/**
+ * Font units per writing-area pixel: the template's cap-height-to-baseline
+ * distance maps to the font's
+ */
+export function getTemplateScale(guides: TemplateGuides): number {
+  return (FONT_CAP_HEIGHT - FONT_BASELINE) / (guides.baseline - guides.capHeight);
+}
+
 export function templateNormalize(
   svgPath: string,
   pathBounds: { x: number; y: number; width: number; height: number },
@@ -825,7 +819,7 @@ export function templateNormalize(
   const fontCapToBaseline = FONT_CAP_HEIGHT - FONT_BASELINE;
 
   // Single scale factor for both x and y (uniform scaling preserves aspect ratio)
-  const scale = fontCapToBaseline / templateCapToBaseline;
+  const scale = getTemplateScale(guides);
 
   console.log(`[templateNormalize] Template cap-to-baseline: ${templateCapToBaseline.toFixed(1)}px`);
   console.log(`[templateNormalize] Font cap-to-baseline: ${fontCapToBaseline}`);
@@ -894,6 +888,36 @@ export function templateNormalize(
   };
 }
 
+/**
+ * Template normalization for centreline strokes (writing area pixels).
+ * Same baseline mapping as templateNormalize; `penMargin` (font units) is
+ * the room the pen takes up on each side of the strokes once expanded.
+ */
+export function templateNormalizeStrokes(
+  strokes: Point[][],
+  guides: TemplateGuides,
+  penMargin: number
+): { normalizedStrokes: Point[][]; advanceWidth: number } {
+  const points = strokes.flat();
+  if (points.length === 0) {
+    return { normalizedStrokes: [], advanceWidth: 0 };
+  }
+
+  const scale = getTemplateScale(guides);
+  const minX = Math.min(...points.map((p) => p.x));
+  const maxX = Math.max(...points.map((p) => p.x));
+
+  const normalizedStrokes = strokes.map((stroke) =>
+    stroke.map((p) => ({
+      x: (p.x - minX) * scale + LEFT_SIDE_BEARING + penMargin,
+      y: (guides.baseline - p.y) * scale,
+    }))
+  );
+  const advanceWidth = Math.round(LEFT_SIDE_BEARING + (maxX - minX) * scale + 2 * penMargin + RIGHT_SIDE_BEARING);
+
+  return { normalizedStrokes, advanceWidth };
+}
+
 /**
  * Transform a path using a custom point transformation function
  */
@@ -3,7 +3,7 @@
  * Detects corner markers and extracts individual character cells
  */
 
-import { ALL_CHARACTERS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import { getTemplateCharacters, type TemplateCharacterSet } from '@/lib/constants/characters';
 import type { CharacterDefinition } from '@/types';
 
 export interface GridCell {
@@ -281,7 +281,7 @@ export function detectGrid(
   imageData: ImageData,
   options: {
     pageNumber?: number;
-    characterSet?: 'required' | 'all';
+    characterSet?: TemplateCharacterSet;
     cellsPerRow?: number;
     rowsPerPage?: number;
   } = {}
@@ -293,7 +293,7 @@ export function detectGrid(
     rowsPerPage: forceRowsPerPage,
   } = options;
 
-  const characters = characterSet === 'all' ? ALL_CHARACTERS : REQUIRED_CHARACTERS;
+  const characters = getTemplateCharacters(characterSet);
 
   // Find corner markers
   const markers = findCornerMarkers(imageData);
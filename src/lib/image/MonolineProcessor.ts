@@ -1,4 +1,8 @@
 import { zhangSuenThinning } from './Thinning';
+import { fitCurve } from '../font/CurveFitter';
+
+// Default curve fitting tolerance for strokes, in pixels
+const CURVE_TOLERANCE = 0.5;
 
 export interface Point {
   x: number;
@@ -669,12 +673,18 @@ export function countNearbyEndpoints(strokes: Stroke[], radius: number): number
 // ============================================================================
 
 /**
- * Convert strokes to SVG path string using quadratic curves for smoothness
- * Uses M (moveto) and Q (quadratic curve) commands
- * This produces much smoother output for pen plotters
+ * Convert strokes to SVG path string
+ * With `useCurves`, each stroke is fitted with a few smooth cubics (C commands)
+ * that stay within `curveTolerance` pixels of its points; otherwise the
+ * points are joined by line segments
  */
-export function strokesToSvgPath(strokes: Stroke[], useCurves: boolean = false): string {
+export function strokesToSvgPath(
+  strokes: Stroke[],
+  useCurves: boolean = false,
+  curveTolerance: number = CURVE_TOLERANCE
+): string {
   let path = '';
+  const format = (p: Point) => `${p.x.toFixed(2)} ${p.y.toFixed(2)}`;
 
   console.log(`[strokesToSvgPath] Converting ${strokes.length} strokes to SVG`);
 
@@ -690,35 +700,20 @@ export function strokesToSvgPath(strokes: Stroke[], useCurves: boolean = false):
     console.log(`[strokesToSvgPath]   Last point: (${stroke.points[stroke.points.length - 1].x.toFixed(1)}, ${stroke.points[stroke.points.length - 1].y.toFixed(1)})`);
 
     const points = stroke.points;
-    const first = points[0];
-    path += `M ${first.x.toFixed(2)} ${first.y.toFixed(2)} `;
+    path += `M ${format(points[0])} `;
 
     if (!useCurves || points.length < 3) {
       // Simple line segments
       for (let i = 1; i < points.length; i++) {
-        const p = points[i];
-        path += `L ${p.x.toFixed(2)} ${p.y.toFixed(2)} `;
+        path += `L ${format(points[i])} `;
       }
     } else {
-      // Quadratic curves through midpoints for smooth output
-      // This is the Catmull-Rom to quadratic conversion approach
-      for (let i = 1; i < points.length - 1; i++) {
-        const p0 = points[i - 1];
-        const p1 = points[i];
-        const p2 = points[i + 1];
-
-        // Midpoint between current and next
-        const midX = (p1.x + p2.x) / 2;
-        const midY = (p1.y + p2.y) / 2;
-
-        // Quadratic curve with p1 as control point, midpoint as end
-        path += `Q ${p1.x.toFixed(2)} ${p1.y.toFixed(2)} ${midX.toFixed(2)} ${midY.toFixed(2)} `;
+      // Least-squares cubic fit; sharp turns stay corners
+      for (const seg of fitCurve(points, curveTolerance)) {
+        if (seg.type === 'L') path += `L ${format(seg.to)} `;
+        else if (seg.type === 'Q') path += `Q ${format(seg.c)} ${format(seg.to)} `;
+        else path += `C ${format(seg.c1)} ${format(seg.c2)} ${format(seg.to)} `;
       }
-
-      // Final segment to last point
-      const last = points[points.length - 1];
-      const secondLast = points[points.length - 2];
-      path += `Q ${secondLast.x.toFixed(2)} ${secondLast.y.toFixed(2)} ${last.x.toFixed(2)} ${last.y.toFixed(2)} `;
     }
   }
 
@@ -26,22 +26,39 @@ import {
 
 import { getBlankTemplate } from '../template/BlankTemplateRenderer';
 
-import { vectorizeCell, simpleNormalize, templateNormalize, type TemplateGuides } from './CleanVectorizer';
+import {
+  vectorizeCell,
+  simpleNormalize,
+  templateNormalize,
+  templateNormalizeStrokes,
+  getTemplateScale,
+  type TemplateGuides,
+} from './CleanVectorizer';
+import { processMonoline } from './MonolineProcessor';
 
 import { normalizedSvgToOpentypePath } from '../canvas/PathConverter';
+import { DEFAULT_CURVE_FIT_TOLERANCE } from '../font/CurveFitter';
+import { DEFAULT_PEN, expandStrokes } from '../font/StrokeExpander';
 
-import { REQUIRED_CHARACTERS, ALL_CHARACTERS } from '@/lib/constants/characters';
-import type { CharacterDefinition } from '@/types';
+import { getTemplateCharacters, type TemplateCharacterSet } from '@/lib/constants/characters';
+import type { CharacterDefinition, GlyphSkeleton, PenOptions } from '@/types';
 import type { Path } from 'opentype.js';
 
+export type GlyphTraceMode = 'outline' | 'monoline';
+
 export interface ProcessingOptions {
   config?: TemplateConfig;
-  characterSet?: 'required' | 'all';
+  characterSet?: TemplateCharacterSet;
   pageNumber?: number;
   subtractThreshold?: number;
   morphologyCloseSize?: number;
   morphologyOpenSize?: number;
   minComponentArea?: number;
+  // How far fitted curves may stray from the traced outline, in font units
+  curveTolerance?: number;
+  // 'outline' traces the edges of the ink; 'monoline' follows its centreline with a pen
+  mode?: GlyphTraceMode;
+  pen?: PenOptions;
   onProgress?: (stage: string, progress: number) => void;
 }
 
@@ -53,6 +70,8 @@ export interface ExtractedGlyph {
   cleanedImageData: ImageData;
   bounds: { x: number; y: number; width: number; height: number };
   advanceWidth: number;
+  // Centrelines the outline was swept from (monoline mode)
+  skeleton?: GlyphSkeleton;
 }
 
 export interface ProcessingResult {
@@ -83,6 +102,9 @@ export async function processTemplatePage(
     morphologyCloseSize = 3,
     morphologyOpenSize = 2,
     minComponentArea = 50,
+    curveTolerance = DEFAULT_CURVE_FIT_TOLERANCE,
+    mode = 'outline',
+    pen = DEFAULT_PEN,
     onProgress,
   } = options;
 
@@ -152,7 +174,7 @@ export async function processTemplatePage(
     }
 
     // Step 4: Extract and vectorize each cell
-    const characters = characterSet === 'all' ? ALL_CHARACTERS : REQUIRED_CHARACTERS;
+    const characters = getTemplateCharacters(characterSet);
     const cellsPerPage = config.cellsPerRow * config.rowsPerPage;
     const startIdx = pageNumber * cellsPerPage;
     const endIdx = Math.min(startIdx + cellsPerPage, characters.length);
@@ -180,6 +202,9 @@ export async function processTemplatePage(
       capToBaseline: (templateGuides.baseline - templateGuides.capHeight).toFixed(1),
     });
 
+    // Curves are fitted in pixels, so the tolerance is converted from font units
+    const fitTolerance = curveTolerance / getTemplateScale(templateGuides);
+
     console.log(`[TemplateProcessor] Extracting cells ${startIdx} to ${endIdx - 1}`);
 
     for (let i = startIdx; i < endIdx; i++) {
@@ -221,8 +246,24 @@ export async function processTemplatePage(
       const warpedCellImageData = matToImageData(warpedCellMat);
       warpedCellMat.delete();
 
+      if (mode === 'monoline') {
+        const glyph = expandCell(cellImageData, templateGuides, pen, curveTolerance);
+        if (glyph) {
+          result.glyphs.push({
+            character: characters[i],
+            cellImageData: warpedCellImageData,
+            cleanedImageData: cellImageData,
+            ...glyph,
+          });
+          console.log(`[TemplateProcessor] ✓ ${characters[i].character} expanded (advance=${glyph.advanceWidth})`);
+        } else {
+          console.log(`[TemplateProcessor] ✗ ${characters[i].character} empty`);
+        }
+        continue;
+      }
+
       // Vectorize the cell
-      const vectorResult = vectorizeCell(cellImageData);
+      const vectorResult = vectorizeCell(cellImageData, fitTolerance);
 
       // Debug: extra logging for M which is mysteriously missing
       if (characters[i].character === 'M') {
@@ -275,6 +316,33 @@ export async function processTemplatePage(
   return result;
 }
 
+/**
+ * Monoline glyph for a cell: skeleton strokes normalized to font units and
+ * swept with the pen. Null when the cell has no strokes.
+ */
+function expandCell(
+  cellImageData: ImageData,
+  guides: TemplateGuides,
+  pen: PenOptions,
+  curveTolerance: number
+): Pick<ExtractedGlyph, 'svgPath' | 'opentypePath' | 'bounds' | 'advanceWidth' | 'skeleton'> | null {
+  const monoline = processMonoline(cellImageData);
+  const strokes = monoline.smoothedStrokes.map((stroke) => stroke.points).filter((points) => points.length > 0);
+  if (strokes.length === 0) return null;
+
+  const { normalizedStrokes, advanceWidth } = templateNormalizeStrokes(strokes, guides, pen.width / 2);
+  const opentypePath = expandStrokes(normalizedStrokes, pen, curveTolerance);
+  if (opentypePath.commands.length === 0) return null;
+
+  return {
+    svgPath: opentypePath.toPathData(2),
+    opentypePath,
+    bounds: monoline.stats.boundingBox,
+    advanceWidth,
+    skeleton: { strokes: normalizedStrokes, penWidth: pen.width },
+  };
+}
+
 /**
  * Quick check if an image likely contains a valid template
  * (has markers in roughly the right positions)
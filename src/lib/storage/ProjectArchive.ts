@@ -0,0 +1,533 @@
+/**
+ * Portable project files (.fontmaker)
+ * A zip holding a JSON manifest with everything in the project (settings,
+ * glyph outlines as command lists, alternates, positional forms, ligatures,
+ * kerning and the saved revisions of each glyph) next to the template scans
+ * it was traced from and the cell each glyph was cut out of. Archives are versioned: reading one checks its
+ * manifest field by field and migrates it up to the current version, so
+ * files written by older releases still open.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import type { GlyphRevision, ProjectData } from '@/types';
+import { POSITIONAL_FORMS, STYLISTIC_SET_COUNT } from '@/lib/constants/characters';
+import {
+  deserializeProject,
+  deserializeRevision,
+  serializeProject,
+  serializeRevision,
+  SERIALIZATION_VERSION,
+  type SerializedProject,
+  type SerializedRevision,
+} from './Serialization';
+import type { GlyphCrop, ProjectImages, ProjectScan } from './ProjectStorage';
+
+export const ARCHIVE_EXTENSION = '.fontmaker';
+
+// Bumped whenever the manifest changes shape; add a migration from the old version alongside
+export const ARCHIVE_VERSION = 2;
+
+const ARCHIVE_FORMAT = 'fontmaker';
+const MANIFEST_NAME = 'manifest.json';
+
+interface ArchivedScan {
+  id: string;
+  name: string;
+  addedAt: number;
+  type: string;
+  file: string;
+}
+
+interface ArchivedCrop {
+  unicode: number;
+  scanId: string;
+  alternate: boolean;
+  type: string;
+  file: string;
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  project: SerializedProject;
+  scans: ArchivedScan[];
+  crops: ArchivedCrop[];
+  revisions: SerializedRevision[];
+}
+
+export interface ProjectArchive {
+  project: ProjectData;
+  images: ProjectImages;
+  revisions: GlyphRevision[];
+}
+
+type Json = Record<string, unknown>;
+
+// Migrations by the version they upgrade from: MIGRATIONS[n] turns a
+// version n manifest into a version n + 1 one
+const MIGRATIONS: Record<number, (manifest: Json) => Json> = {
+  // Version 1 had no glyph revisions
+  1: (manifest) => ({ ...manifest, revisions: [] }),
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+function imageExtension(type: string): string {
+  return IMAGE_EXTENSIONS[type] ?? 'bin';
+}
+
+async function blobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Pack a project, its images and glyph revisions into a .fontmaker file
+ */
+export async function writeProjectArchive(
+  project: ProjectData,
+  images: ProjectImages,
+  revisions: GlyphRevision[]
+): Promise<Blob> {
+  const files: Zippable = {};
+  const scans: ArchivedScan[] = [];
+  const crops: ArchivedCrop[] = [];
+
+  for (const [i, scan] of images.scans.entries()) {
+    const file = `scans/${i + 1}.${imageExtension(scan.image.type)}`;
+    // Scans are already compressed images
+    files[file] = [await blobBytes(scan.image), { level: 0 }];
+    scans.push({ id: scan.id, name: scan.name, addedAt: scan.addedAt, type: scan.image.type, file });
+  }
+  for (const [i, crop] of images.crops.entries()) {
+    const file = `cells/${crop.unicode.toString(16).padStart(4, '0')}-${i + 1}.${imageExtension(crop.image.type)}`;
+    files[file] = [await blobBytes(crop.image), { level: 0 }];
+    crops.push({ unicode: crop.unicode, scanId: crop.scanId, alternate: crop.alternate, type: crop.image.type, file });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    project: serializeProject(project),
+    scans,
+    crops,
+    revisions: revisions.map(serializeRevision),
+  };
+  files[MANIFEST_NAME] = strToU8(JSON.stringify(manifest));
+  return new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' });
+}
+
+/**
+ * Unpack a .fontmaker file; throws with the reason when it is not one or
+ * its manifest is malformed
+ */
+export function readProjectArchive(data: Uint8Array): ProjectArchive {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('Not a project file: it is not a zip archive');
+  }
+  if (!files[MANIFEST_NAME]) throw new Error(`Not a project file: ${MANIFEST_NAME} is missing`);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(strFromU8(files[MANIFEST_NAME]));
+  } catch {
+    throw new Error(`Not a project file: ${MANIFEST_NAME} is not valid JSON`);
+  }
+  const manifest = validateManifest(migrateManifest(raw));
+
+  const image = (entry: ArchivedScan | ArchivedCrop): Blob => {
+    const bytes = files[entry.file];
+    if (!bytes) throw new Error(`Project file is incomplete: ${entry.file} is missing`);
+    return new Blob([new Uint8Array(bytes)], { type: entry.type });
+  };
+  const scans: ProjectScan[] = manifest.scans.map((scan) => ({
+    id: scan.id,
+    name: scan.name,
+    addedAt: scan.addedAt,
+    image: image(scan),
+  }));
+  const crops: GlyphCrop[] = manifest.crops.map((crop) => ({
+    unicode: crop.unicode,
+    scanId: crop.scanId,
+    alternate: crop.alternate,
+    image: image(crop),
+  }));
+
+  return {
+    project: deserializeProject(manifest.project),
+    images: { scans, crops },
+    revisions: manifest.revisions.map(deserializeRevision),
+  };
+}
+
+function migrateManifest(raw: unknown): Json {
+  if (!isObject(raw) || raw.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a project file: the manifest is not a font maker project');
+  }
+  let manifest = raw;
+  let version = manifest.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Project file has no valid version');
+  }
+  if (version > ARCHIVE_VERSION) {
+    throw new Error(`Project file is version ${version}, newer than this app reads (${ARCHIVE_VERSION}); update the app`);
+  }
+  for (; version < ARCHIVE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Project files of version ${version} can no longer be read`);
+    manifest = { ...migrate(manifest), version: version + 1 };
+  }
+  return manifest;
+}
+
+// Validation: every check names where in the manifest it failed
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(at: string, expected: string): never {
+  throw new Error(`Project file is malformed: ${at} should be ${expected}`);
+}
+
+function expectObject(value: unknown, at: string): Json {
+  return isObject(value) ? value : invalid(at, 'an object');
+}
+
+function expectArray(value: unknown, at: string): unknown[] {
+  return Array.isArray(value) ? value : invalid(at, 'a list');
+}
+
+function expectString(value: unknown, at: string): string {
+  return typeof value === 'string' ? value : invalid(at, 'text');
+}
+
+function expectNumber(value: unknown, at: string): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : invalid(at, 'a number');
+}
+
+function expectBoolean(value: unknown, at: string): boolean {
+  return typeof value === 'boolean' ? value : invalid(at, 'true or false');
+}
+
+function expectNumberIn(value: unknown, at: string, min: number, max: number): number {
+  const number = expectNumber(value, at);
+  return number >= min && number <= max ? number : invalid(at, `a number from ${min} to ${max}`);
+}
+
+function expectPositive(value: unknown, at: string): number {
+  const number = expectNumber(value, at);
+  return number > 0 ? number : invalid(at, 'a positive number');
+}
+
+function expectIntegerIn(value: unknown, at: string, min: number, max: number): number {
+  const number = expectNumber(value, at);
+  return Number.isInteger(number) && number >= min && number <= max
+    ? number
+    : invalid(at, `a whole number from ${min} to ${max}`);
+}
+
+function expectOneOf<T extends string>(value: unknown, at: string, options: readonly T[]): T {
+  return options.includes(value as T) ? (value as T) : invalid(at, `one of ${options.join(', ')}`);
+}
+
+function expectCodePoint(value: unknown, at: string): number {
+  const unicode = expectNumber(value, at);
+  return Number.isInteger(unicode) && unicode >= 0 && unicode <= 0x10ffff ? unicode : invalid(at, 'a code point');
+}
+
+// Fields that may be left out are checked only when they are there
+function optional(value: unknown, at: string, check: (value: unknown, at: string) => unknown): void {
+  if (value !== undefined) check(value, at);
+}
+
+// An object whose every key is one of `keys`, each value passing `check`
+function expectRecord(
+  value: unknown,
+  at: string,
+  keys: readonly string[],
+  check: (value: unknown, at: string) => unknown
+): Json {
+  const record = expectObject(value, at);
+  for (const [key, entry] of Object.entries(record)) {
+    if (!keys.includes(key)) invalid(at, `keyed by ${keys.join(', ')} (not ${key})`);
+    check(entry, `${at}.${key}`);
+  }
+  return record;
+}
+
+const ANCHOR_NAMES = ['top', 'bottom', '_top', '_bottom', 'entry', 'exit'] as const;
+const FORM_NAMES = POSITIONAL_FORMS.map((form) => form.value);
+const LIGATURE_FEATURES = ['liga', 'dlig'] as const;
+const PEN_SHAPES = ['round', 'ellipse', 'broad'] as const;
+const STROKE_ENDS = ['round', 'square'] as const;
+const SLANT_OUTPUTS = ['none', 'italic', 'axis'] as const;
+const STYLISTIC_SETS = Array.from({ length: STYLISTIC_SET_COUNT }, (_, i) => String(i + 1));
+const METADATA_TEXT_FIELDS = [
+  'version',
+  'designer',
+  'designerUrl',
+  'manufacturer',
+  'vendorUrl',
+  'vendorId',
+  'copyright',
+  'trademark',
+  'description',
+  'license',
+  'licenseUrl',
+];
+
+// Coordinates each command type carries
+const COMMAND_FIELDS: Record<string, string[]> = {
+  M: ['x', 'y'],
+  L: ['x', 'y'],
+  Q: ['x1', 'y1', 'x', 'y'],
+  C: ['x1', 'y1', 'x2', 'y2', 'x', 'y'],
+  Z: [],
+};
+
+function validatePath(value: unknown, at: string): void {
+  for (const [i, command] of expectArray(value, at).entries()) {
+    const entry = expectObject(command, `${at}[${i}]`);
+    const fields = COMMAND_FIELDS[entry.type as string];
+    if (!fields) invalid(`${at}[${i}].type`, 'one of M, L, Q, C or Z');
+    for (const field of fields) expectNumber(entry[field], `${at}[${i}].${field}`);
+  }
+}
+
+function validateOptionalPath(value: unknown, at: string): void {
+  if (value !== null) validatePath(value, at);
+}
+
+function validatePoint(value: unknown, at: string): void {
+  const point = expectObject(value, at);
+  expectNumber(point.x, `${at}.x`);
+  expectNumber(point.y, `${at}.y`);
+}
+
+function validateSkeleton(value: unknown, at: string): void {
+  const skeleton = expectObject(value, at);
+  for (const [i, stroke] of expectArray(skeleton.strokes, `${at}.strokes`).entries()) {
+    for (const [j, point] of expectArray(stroke, `${at}.strokes[${i}]`).entries()) {
+      validatePoint(point, `${at}.strokes[${i}][${j}]`);
+    }
+  }
+  expectPositive(skeleton.penWidth, `${at}.penWidth`);
+}
+
+function validateAlternate(value: unknown, at: string): void {
+  const alternate = expectObject(value, at);
+  expectString(alternate.id, `${at}.id`);
+  validatePath(alternate.path, `${at}.path`);
+  expectNumber(alternate.advanceWidth, `${at}.advanceWidth`);
+  optional(alternate.skeleton, `${at}.skeleton`, validateSkeleton);
+  optional(alternate.stylisticSet, `${at}.stylisticSet`, (set, setAt) =>
+    expectIntegerIn(set, setAt, 1, STYLISTIC_SET_COUNT)
+  );
+  optional(alternate.random, `${at}.random`, expectBoolean);
+}
+
+function validateGlyph(value: unknown, at: string): void {
+  const glyph = expectObject(value, at);
+  expectCodePoint(glyph.unicode, `${at}.unicode`);
+  expectString(glyph.name, `${at}.name`);
+  expectString(glyph.character, `${at}.character`);
+  validateOptionalPath(glyph.path, `${at}.path`);
+  expectNumber(glyph.advanceWidth, `${at}.advanceWidth`);
+  expectBoolean(glyph.isComplete, `${at}.isComplete`);
+  optional(glyph.skeleton, `${at}.skeleton`, validateSkeleton);
+  optional(glyph.alternates, `${at}.alternates`, (alternates, listAt) => {
+    for (const [i, alternate] of expectArray(alternates, listAt).entries()) {
+      validateAlternate(alternate, `${listAt}[${i}]`);
+    }
+  });
+  optional(glyph.anchors, `${at}.anchors`, (anchors, anchorsAt) =>
+    expectRecord(anchors, anchorsAt, ANCHOR_NAMES, validatePoint)
+  );
+  optional(glyph.forms, `${at}.forms`, (forms, formsAt) =>
+    expectRecord(forms, formsAt, FORM_NAMES, (form, formAt) => {
+      const entry = expectObject(form, formAt);
+      validatePath(entry.path, `${formAt}.path`);
+      expectNumber(entry.advanceWidth, `${formAt}.advanceWidth`);
+    })
+  );
+  optional(glyph.keepOverlaps, `${at}.keepOverlaps`, expectBoolean);
+  optional(glyph.spacingOverride, `${at}.spacingOverride`, (override, overrideAt) =>
+    expectRecord(override, overrideAt, ['left', 'right'], expectNumber)
+  );
+}
+
+function validateLigature(value: unknown, at: string): void {
+  const ligature = expectObject(value, at);
+  expectString(ligature.id, `${at}.id`);
+  expectString(ligature.sequence, `${at}.sequence`);
+  expectString(ligature.name, `${at}.name`);
+  validateOptionalPath(ligature.path, `${at}.path`);
+  expectNumber(ligature.advanceWidth, `${at}.advanceWidth`);
+  expectBoolean(ligature.isComplete, `${at}.isComplete`);
+  optional(ligature.feature, `${at}.feature`, (feature, featureAt) =>
+    expectOneOf(feature, featureAt, LIGATURE_FEATURES)
+  );
+}
+
+function validateKerning(value: unknown, at: string): void {
+  const kerning = expectObject(value, at);
+  const classSides = new Map<string, string>();
+  for (const [i, kerningClass] of expectArray(kerning.classes, `${at}.classes`).entries()) {
+    const entry = expectObject(kerningClass, `${at}.classes[${i}]`);
+    const id = expectString(entry.id, `${at}.classes[${i}].id`);
+    expectString(entry.name, `${at}.classes[${i}].name`);
+    classSides.set(id, expectOneOf(entry.side, `${at}.classes[${i}].side`, ['left', 'right']));
+    for (const [j, member] of expectArray(entry.members, `${at}.classes[${i}].members`).entries()) {
+      expectCodePoint(member, `${at}.classes[${i}].members[${j}]`);
+    }
+  }
+  // A side is a glyph, or the id of one of the classes on that side
+  for (const [i, pair] of expectArray(kerning.pairs, `${at}.pairs`).entries()) {
+    const entry = expectObject(pair, `${at}.pairs[${i}]`);
+    for (const side of ['left', 'right']) {
+      const sideAt = `${at}.pairs[${i}].${side}`;
+      if (typeof entry[side] !== 'string') expectCodePoint(entry[side], sideAt);
+      else if (classSides.get(entry[side] as string) !== side) invalid(sideAt, `the id of a ${side} kerning class`);
+    }
+    expectNumber(entry.value, `${at}.pairs[${i}].value`);
+  }
+}
+
+function validateMetadata(value: unknown, at: string): void {
+  const metadata = expectObject(value, at);
+  for (const field of METADATA_TEXT_FIELDS) optional(metadata[field], `${at}.${field}`, expectString);
+  optional(metadata.weightClass, `${at}.weightClass`, (weight, weightAt) => expectIntegerIn(weight, weightAt, 1, 1000));
+  optional(metadata.widthClass, `${at}.widthClass`, (width, widthAt) => expectIntegerIn(width, widthAt, 1, 9));
+}
+
+function validatePen(value: unknown, at: string): void {
+  const pen = expectObject(value, at);
+  optional(pen.shape, `${at}.shape`, (shape, shapeAt) => expectOneOf(shape, shapeAt, PEN_SHAPES));
+  optional(pen.width, `${at}.width`, expectPositive);
+  optional(pen.angle, `${at}.angle`, (angle, angleAt) => expectNumberIn(angle, angleAt, -90, 90));
+  optional(pen.cap, `${at}.cap`, (cap, capAt) => expectOneOf(cap, capAt, STROKE_ENDS));
+  optional(pen.join, `${at}.join`, (join, joinAt) => expectOneOf(join, joinAt, STROKE_ENDS));
+}
+
+function validateSlant(value: unknown, at: string): void {
+  const slant = expectObject(value, at);
+  optional(slant.angle, `${at}.angle`, (angle, angleAt) => expectNumberIn(angle, angleAt, 0, 30));
+  optional(slant.compensate, `${at}.compensate`, expectBoolean);
+  optional(slant.output, `${at}.output`, (output, outputAt) => expectOneOf(output, outputAt, SLANT_OUTPUTS));
+}
+
+function validateWeightMasters(value: unknown, at: string): void {
+  for (const [i, master] of expectArray(value, at).entries()) {
+    const entry = expectObject(master, `${at}[${i}]`);
+    expectIntegerIn(entry.weight, `${at}[${i}].weight`, 1, 1000);
+    expectPositive(entry.penWidth, `${at}[${i}].penWidth`);
+  }
+}
+
+// Settings fields added after the file was written are filled with defaults
+// when it is opened, so only the ones there are checked
+function validateSettings(value: unknown, at: string): void {
+  const settings = expectObject(value, at);
+  expectString(settings.familyName, `${at}.familyName`);
+  optional(settings.styleName, `${at}.styleName`, expectString);
+  const metrics = expectObject(settings.metrics, `${at}.metrics`);
+  expectPositive(metrics.unitsPerEm, `${at}.metrics.unitsPerEm`);
+  for (const field of ['ascender', 'descender', 'capHeight', 'xHeight']) {
+    expectNumber(metrics[field], `${at}.metrics.${field}`);
+  }
+  optional(settings.metadata, `${at}.metadata`, validateMetadata);
+  optional(settings.cursive, `${at}.cursive`, expectBoolean);
+  optional(settings.stylisticSetNames, `${at}.stylisticSetNames`, (names, namesAt) =>
+    expectRecord(names, namesAt, STYLISTIC_SETS, expectString)
+  );
+  optional(settings.cleanupOutlines, `${at}.cleanupOutlines`, expectBoolean);
+  optional(settings.curveFitTolerance, `${at}.curveFitTolerance`, expectPositive);
+  optional(settings.monolinePen, `${at}.monolinePen`, validatePen);
+  optional(settings.variableWeight, `${at}.variableWeight`, expectBoolean);
+  optional(settings.weightMasters, `${at}.weightMasters`, validateWeightMasters);
+  optional(settings.slant, `${at}.slant`, validateSlant);
+  optional(settings.spacingTightness, `${at}.spacingTightness`, (tightness, tightnessAt) =>
+    expectNumberIn(tightness, tightnessAt, 0, 100)
+  );
+  optional(settings.hinting, `${at}.hinting`, expectBoolean);
+}
+
+function validateProject(value: unknown, at: string): void {
+  const project = expectObject(value, at);
+  expectString(project.name, `${at}.name`);
+  expectNumber(project.createdAt, `${at}.createdAt`);
+  expectNumber(project.updatedAt, `${at}.updatedAt`);
+  if (project.version !== SERIALIZATION_VERSION) invalid(`${at}.version`, String(SERIALIZATION_VERSION));
+  validateSettings(project.settings, `${at}.settings`);
+  for (const [i, glyph] of expectArray(project.glyphs, `${at}.glyphs`).entries()) {
+    validateGlyph(glyph, `${at}.glyphs[${i}]`);
+  }
+  for (const [i, ligature] of expectArray(project.ligatures, `${at}.ligatures`).entries()) {
+    validateLigature(ligature, `${at}.ligatures[${i}]`);
+  }
+  validateKerning(project.kerning, `${at}.kerning`);
+}
+
+const REVISION_SOURCE_FIELDS: Record<string, Array<[string, 'string' | 'number' | 'optional number']>> = {
+  drawn: [],
+  scan: [
+    ['scanId', 'string'],
+    ['page', 'optional number'],
+  ],
+  imported: [['fileName', 'string']],
+  restored: [
+    ['revisionId', 'string'],
+    ['time', 'number'],
+  ],
+};
+
+function validateRevision(value: unknown, at: string): void {
+  const revision = expectObject(value, at);
+  expectString(revision.id, `${at}.id`);
+  expectCodePoint(revision.unicode, `${at}.unicode`);
+  expectNumber(revision.time, `${at}.time`);
+  validatePath(revision.path, `${at}.path`);
+  expectNumber(revision.advanceWidth, `${at}.advanceWidth`);
+  optional(revision.skeleton, `${at}.skeleton`, validateSkeleton);
+  const source = expectObject(revision.source, `${at}.source`);
+  const fields = REVISION_SOURCE_FIELDS[source.type as string];
+  if (!fields) invalid(`${at}.source.type`, 'drawn, scan, imported or restored');
+  for (const [field, kind] of fields) {
+    if (kind === 'string') expectString(source[field], `${at}.source.${field}`);
+    else if (kind === 'number' || source[field] !== undefined) expectNumber(source[field], `${at}.source.${field}`);
+  }
+}
+
+function validateImageEntry(value: unknown, at: string): Json {
+  const entry = expectObject(value, at);
+  expectString(entry.type, `${at}.type`);
+  expectString(entry.file, `${at}.file`);
+  return entry;
+}
+
+function validateManifest(manifest: Json): ArchiveManifest {
+  validateProject(manifest.project, 'project');
+  for (const [i, scan] of expectArray(manifest.scans, 'scans').entries()) {
+    const entry = validateImageEntry(scan, `scans[${i}]`);
+    expectString(entry.id, `scans[${i}].id`);
+    expectString(entry.name, `scans[${i}].name`);
+    expectNumber(entry.addedAt, `scans[${i}].addedAt`);
+  }
+  for (const [i, crop] of expectArray(manifest.crops, 'crops').entries()) {
+    const entry = validateImageEntry(crop, `crops[${i}]`);
+    expectCodePoint(entry.unicode, `crops[${i}].unicode`);
+    expectString(entry.scanId, `crops[${i}].scanId`);
+    expectBoolean(entry.alternate, `crops[${i}].alternate`);
+  }
+  for (const [i, revision] of expectArray(manifest.revisions, 'revisions').entries()) {
+    validateRevision(revision, `revisions[${i}]`);
+  }
+  return manifest as unknown as ArchiveManifest;
+}
@@ -0,0 +1,229 @@
+/**
+ * IndexedDB storage for projects
+ * Each project is saved whole under its own key, settings included, and an
+ * index lists them all with what the project list shows (name, dates,
+ * completion and a thumbnail), so listing never loads any outlines. The
+ * store's persist middleware remembers which project is open. The scans a
+ * project was traced from are kept apart from it, as Blobs, since they are
+ * only needed when the project is exported, and so are the revisions of its
+ * glyphs, which only the revision drawer reads: each glyph's under its own
+ * key, so saving or showing one glyph's never touches the others'.
+ */
+
+import opentype from 'opentype.js';
+import { del, delMany, get, getMany, keys, set, update } from 'idb-keyval';
+import type { GlyphRevision, ProjectData } from '@/types';
+import { REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import { transformPath, translation } from '../font/GlyphTransform';
+import {
+  deserializeFontData,
+  deserializeProject,
+  deserializeRevision,
+  serializeProject,
+  serializeRevision,
+  type FontData,
+  type SerializedFontData,
+  type SerializedProject,
+  type SerializedRevision,
+} from './Serialization';
+
+const PROJECT_INDEX_KEY = 'projects';
+
+// Where glyphs, ligatures and kerning were saved before there were projects
+const LEGACY_FONT_DATA_KEY = 'font-data';
+
+// Text a project's thumbnail is set in
+const THUMBNAIL_TEXT = 'Aa Bb Cc';
+
+// A line of the project's own glyphs, in font units (y up)
+export interface ProjectThumbnail {
+  pathData: string;
+  width: number;
+  ascender: number;
+  descender: number;
+}
+
+// A template page as uploaded, kept so the project can be traced again
+export interface ProjectScan {
+  id: string;
+  name: string;
+  image: Blob;
+  addedAt: number;
+}
+
+// The template cell a glyph (or one of its alternates) was traced from
+export interface GlyphCrop {
+  unicode: number;
+  scanId: string;
+  alternate: boolean;
+  image: Blob;
+}
+
+export interface ProjectImages {
+  scans: ProjectScan[];
+  crops: GlyphCrop[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Share of the required characters drawn, percent
+  completion: number;
+  thumbnail: ProjectThumbnail | null;
+}
+
+function projectKey(id: string): string {
+  return `project:${id}`;
+}
+
+function imagesKey(id: string): string {
+  return `images:${id}`;
+}
+
+function revisionsKey(id: string, unicode: number): string {
+  return `revisions:${id}:${unicode}`;
+}
+
+// Keys of every glyph of a project that has revisions
+async function revisionKeys(id: string): Promise<string[]> {
+  const prefix = `revisions:${id}:`;
+  return (await keys()).filter((key): key is string => typeof key === 'string' && key.startsWith(prefix));
+}
+
+function samePath(a: SerializedRevision['path'], b: SerializedRevision['path']): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// A glyph's saved revisions with new ones added, leaving out any already
+// saved or with the same outline as the latest
+function appendRevisions(saved: SerializedRevision[], added: SerializedRevision[]): SerializedRevision[] {
+  const kept = [...saved];
+  for (const revision of added) {
+    const latest = kept[kept.length - 1];
+    if (kept.some((entry) => entry.id === revision.id) || (latest && samePath(latest.path, revision.path))) continue;
+    kept.push(revision);
+  }
+  return kept;
+}
+
+function projectThumbnail(project: ProjectData): ProjectThumbnail | null {
+  const { metrics } = project.settings;
+  const path = new opentype.Path();
+  let x = 0;
+  for (const character of THUMBNAIL_TEXT) {
+    const glyph = project.glyphs[character.codePointAt(0)!];
+    if (character === ' ') {
+      x += glyph?.isComplete ? glyph.advanceWidth : metrics.unitsPerEm / 4;
+      continue;
+    }
+    if (!glyph?.isComplete || !glyph.path) continue;
+    path.extend(transformPath(glyph.path, translation(x, 0)));
+    x += glyph.advanceWidth;
+  }
+  if (path.commands.length === 0) return null;
+  return { pathData: path.toPathData(0), width: x, ascender: metrics.ascender, descender: metrics.descender };
+}
+
+export function summarizeProject(project: ProjectData): ProjectSummary {
+  const drawn = REQUIRED_CHARACTERS.filter((c) => project.glyphs[c.unicode]?.isComplete).length;
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    completion: Math.round((drawn / REQUIRED_CHARACTERS.length) * 100),
+    thumbnail: projectThumbnail(project),
+  };
+}
+
+export async function loadProjectIndex(): Promise<ProjectSummary[]> {
+  return (await get<ProjectSummary[]>(PROJECT_INDEX_KEY)) ?? [];
+}
+
+export async function loadProject(id: string): Promise<ProjectData | null> {
+  const saved = await get<SerializedProject>(projectKey(id));
+  return saved ? deserializeProject(saved) : null;
+}
+
+/**
+ * Write a project and its entry in the index; returns the entry
+ */
+export async function saveProject(project: ProjectData): Promise<ProjectSummary> {
+  const summary = summarizeProject(project);
+  await set(projectKey(project.id), serializeProject(project));
+  await update<ProjectSummary[]>(PROJECT_INDEX_KEY, (index = []) => [
+    ...index.filter((entry) => entry.id !== project.id),
+    summary,
+  ]);
+  return summary;
+}
+
+export async function removeProject(id: string): Promise<void> {
+  await update<ProjectSummary[]>(PROJECT_INDEX_KEY, (index = []) => index.filter((entry) => entry.id !== id));
+  await del(projectKey(id));
+  await del(imagesKey(id));
+  await delMany(await revisionKeys(id));
+}
+
+export async function loadProjectImages(id: string): Promise<ProjectImages> {
+  return (await get<ProjectImages>(imagesKey(id))) ?? { scans: [], crops: [] };
+}
+
+export async function saveProjectImages(id: string, images: ProjectImages): Promise<void> {
+  await set(imagesKey(id), images);
+}
+
+/**
+ * Add a scan and the cells cut from it; a glyph traced again replaces its
+ * old crop, while alternates add to theirs
+ */
+export async function addProjectScan(id: string, scan: ProjectScan, crops: GlyphCrop[]): Promise<void> {
+  const replaced = new Set(crops.filter((crop) => !crop.alternate).map((crop) => crop.unicode));
+  await update<ProjectImages>(imagesKey(id), (images = { scans: [], crops: [] }) => ({
+    scans: [...images.scans, scan],
+    crops: [...images.crops.filter((crop) => crop.alternate || !replaced.has(crop.unicode)), ...crops],
+  }));
+}
+
+/**
+ * Glyphs, ligatures and kerning saved before there were projects, or null
+ */
+export async function loadLegacyFontData(): Promise<FontData | null> {
+  const saved = await get<SerializedFontData>(LEGACY_FONT_DATA_KEY);
+  return saved ? deserializeFontData(saved) : null;
+}
+
+export async function clearLegacyFontData(): Promise<void> {
+  await del(LEGACY_FONT_DATA_KEY);
+}
+
+/**
+ * Saved versions of a project's glyphs, each glyph's oldest first; of one
+ * glyph when a code point is given
+ */
+export async function loadGlyphRevisions(id: string, unicode?: number): Promise<GlyphRevision[]> {
+  if (unicode !== undefined) {
+    return ((await get<SerializedRevision[]>(revisionsKey(id, unicode))) ?? []).map(deserializeRevision);
+  }
+  const saved = await getMany<SerializedRevision[] | undefined>(await revisionKeys(id));
+  return saved.flatMap((revisions) => revisions ?? []).map(deserializeRevision);
+}
+
+/**
+ * Add revisions to their glyphs, each glyph's written on its own
+ */
+export async function addGlyphRevisions(id: string, revisions: GlyphRevision[]): Promise<void> {
+  const byGlyph = new Map<number, GlyphRevision[]>();
+  for (const revision of revisions) {
+    byGlyph.set(revision.unicode, [...(byGlyph.get(revision.unicode) ?? []), revision]);
+  }
+  await Promise.all(
+    Array.from(byGlyph, ([unicode, added]) =>
+      update<SerializedRevision[]>(revisionsKey(id, unicode), (saved = []) =>
+        appendRevisions(saved, added.map(serializeRevision))
+      )
+    )
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Project serialization
+ * opentype.js Paths are class instances, so they can neither go through
+ * JSON nor be structured-cloned into IndexedDB. Everything that holds one
+ * (glyphs, their alternates and positional forms, ligatures) is stored with
+ * the path's command list in its place and rebuilt into Paths on load.
+ */
+
+import opentype, { type Path, type PathCommand } from 'opentype.js';
+import type {
+  GlyphAlternate,
+  GlyphData,
+  GlyphForm,
+  GlyphRevision,
+  KerningData,
+  LigatureDefinition,
+  PositionalForm,
+  ProjectData,
+} from '@/types';
+
+// Bumped when the stored shape changes in a way older data must be migrated from
+export const SERIALIZATION_VERSION = 1;
+
+export type SerializedPath = PathCommand[];
+
+export interface SerializedAlternate extends Omit<GlyphAlternate, 'path'> {
+  path: SerializedPath;
+}
+
+export interface SerializedForm extends Omit<GlyphForm, 'path'> {
+  path: SerializedPath;
+}
+
+export interface SerializedGlyph extends Omit<GlyphData, 'path' | 'alternates' | 'forms'> {
+  path: SerializedPath | null;
+  alternates?: SerializedAlternate[];
+  forms?: Partial<Record<PositionalForm, SerializedForm>>;
+}
+
+export interface SerializedLigature extends Omit<LigatureDefinition, 'path'> {
+  path: SerializedPath | null;
+}
+
+export interface SerializedRevision extends Omit<GlyphRevision, 'path'> {
+  path: SerializedPath;
+}
+
+// Drawn glyphs, ligatures and kerning of a project
+export interface FontData {
+  glyphs: Record<number, GlyphData>;
+  ligatures: LigatureDefinition[];
+  kerning: KerningData;
+}
+
+// FontData in storable form
+export interface SerializedFontData {
+  version: number;
+  glyphs: SerializedGlyph[];
+  ligatures: SerializedLigature[];
+  kerning: KerningData;
+}
+
+// A whole project in storable form
+export interface SerializedProject extends Omit<ProjectData, 'glyphs' | 'ligatures' | 'kerning'>, SerializedFontData {}
+
+export function serializePath(path: Path): SerializedPath {
+  return path.commands.map((command) => ({ ...command }));
+}
+
+export function deserializePath(commands: SerializedPath): Path {
+  const path = new opentype.Path();
+  path.commands = commands.map((command) => ({ ...command }));
+  return path;
+}
+
+function mapForms<From, To>(
+  forms: Partial<Record<PositionalForm, From>> | undefined,
+  convert: (form: From) => To
+): Partial<Record<PositionalForm, To>> | undefined {
+  if (!forms) return undefined;
+  const converted: Partial<Record<PositionalForm, To>> = {};
+  for (const [name, form] of Object.entries(forms) as Array<[PositionalForm, From | undefined]>) {
+    if (form) converted[name] = convert(form);
+  }
+  return converted;
+}
+
+export function serializeGlyph(glyph: GlyphData): SerializedGlyph {
+  return {
+    ...glyph,
+    path: glyph.path ? serializePath(glyph.path) : null,
+    alternates: glyph.alternates?.map((alternate) => ({ ...alternate, path: serializePath(alternate.path) })),
+    forms: mapForms(glyph.forms, (form) => ({ ...form, path: serializePath(form.path) })),
+  };
+}
+
+export function deserializeGlyph(glyph: SerializedGlyph): GlyphData {
+  return {
+    ...glyph,
+    path: glyph.path ? deserializePath(glyph.path) : null,
+    alternates: glyph.alternates?.map((alternate) => ({ ...alternate, path: deserializePath(alternate.path) })),
+    forms: mapForms(glyph.forms, (form) => ({ ...form, path: deserializePath(form.path) })),
+  };
+}
+
+export function serializeLigature(ligature: LigatureDefinition): SerializedLigature {
+  return { ...ligature, path: ligature.path ? serializePath(ligature.path) : null };
+}
+
+export function deserializeLigature(ligature: SerializedLigature): LigatureDefinition {
+  return { ...ligature, path: ligature.path ? deserializePath(ligature.path) : null };
+}
+
+export function serializeRevision(revision: GlyphRevision): SerializedRevision {
+  return { ...revision, path: serializePath(revision.path) };
+}
+
+export function deserializeRevision(revision: SerializedRevision): GlyphRevision {
+  return { ...revision, path: deserializePath(revision.path) };
+}
+
+export function serializeFontData(data: FontData): SerializedFontData {
+  return {
+    version: SERIALIZATION_VERSION,
+    glyphs: Object.values(data.glyphs).map(serializeGlyph),
+    ligatures: data.ligatures.map(serializeLigature),
+    kerning: data.kerning,
+  };
+}
+
+export function deserializeFontData(data: SerializedFontData): FontData {
+  const glyphs: Record<number, GlyphData> = {};
+  for (const glyph of data.glyphs) {
+    glyphs[glyph.unicode] = deserializeGlyph(glyph);
+  }
+  return { glyphs, ligatures: data.ligatures.map(deserializeLigature), kerning: data.kerning };
+}
+
+export function serializeProject(project: ProjectData): SerializedProject {
+  const { glyphs, ligatures, kerning, ...info } = project;
+  return { ...info, ...serializeFontData({ glyphs, ligatures, kerning }) };
+}
+
+export function deserializeProject(data: SerializedProject): ProjectData {
+  const { version, glyphs, ligatures, kerning, ...info } = data;
+  return { ...info, ...deserializeFontData({ version, glyphs, ligatures, kerning }) };
+}
@@ -9,7 +9,7 @@ import {
   getTemplateCoordinates,
   getCellBounds,
 } from './TemplateDefinition';
-import { REQUIRED_CHARACTERS, ALL_CHARACTERS } from '@/lib/constants/characters';
+import { getTemplateCharacters, type TemplateCharacterSet } from '@/lib/constants/characters';
 
 /**
  * Render a blank template page to canvas and return ImageData
@@ -17,10 +17,10 @@ import { REQUIRED_CHARACTERS, ALL_CHARACTERS } from '@/lib/constants/characters'
 export function renderBlankTemplate(
   config: TemplateConfig,
   pageNumber: number = 0,
-  characterSet: 'required' | 'all' = 'required'
+  characterSet: TemplateCharacterSet = 'required'
 ): ImageData {
   const coords = getTemplateCoordinates(config);
-  const characters = characterSet === 'all' ? ALL_CHARACTERS : REQUIRED_CHARACTERS;
+  const characters = getTemplateCharacters(characterSet);
 
   // Create canvas at exact template resolution
   const canvas = document.createElement('canvas');
@@ -203,7 +203,7 @@ const templateCache = new Map<string, ImageData>();
 export function getBlankTemplate(
   config: TemplateConfig,
   pageNumber: number = 0,
-  characterSet: 'required' | 'all' = 'required'
+  characterSet: TemplateCharacterSet = 'required'
 ): ImageData {
   const cacheKey = `${config.pageSize}-${config.cellsPerRow}-${config.rowsPerPage}-${config.dpi}-${pageNumber}-${characterSet}`;
 
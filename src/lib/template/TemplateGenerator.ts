@@ -1,5 +1,5 @@
 import { jsPDF } from 'jspdf';
-import { ALL_CHARACTERS, REQUIRED_CHARACTERS } from '@/lib/constants/characters';
+import { REQUIRED_CHARACTERS, getTemplateCharacters, type TemplateCharacterSet } from '@/lib/constants/characters';
 import type { CharacterDefinition } from '@/types';
 
 interface TemplateOptions {
@@ -7,7 +7,7 @@ interface TemplateOptions {
   cellsPerRow: number;
   rowsPerPage: number;
   includeGuides: boolean;
-  characterSet: 'required' | 'all' | 'custom';
+  characterSet: TemplateCharacterSet | 'custom';
   customCharacters?: CharacterDefinition[];
   fontName?: string;
 }
@@ -130,20 +130,10 @@ export function generateTemplate(options: Partial<TemplateOptions> = {}): jsPDF
   const pageSize = PAGE_SIZES[opts.pageSize];
 
   // Get characters to include
-  let characters: CharacterDefinition[];
-  switch (opts.characterSet) {
-    case 'required':
-      characters = REQUIRED_CHARACTERS;
-      break;
-    case 'all':
-      characters = ALL_CHARACTERS;
-      break;
-    case 'custom':
-      characters = opts.customCharacters || REQUIRED_CHARACTERS;
-      break;
-    default:
-      characters = REQUIRED_CHARACTERS;
-  }
+  const characters: CharacterDefinition[] =
+    opts.characterSet === 'custom'
+      ? opts.customCharacters || REQUIRED_CHARACTERS
+      : getTemplateCharacters(opts.characterSet);
 
   // Calculate dimensions
   const contentWidth = pageSize.width - MARGIN.left - MARGIN.right;
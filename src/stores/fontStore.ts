@@ -1,25 +1,133 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { Path } from 'opentype.js';
-import type { GlyphData, LigatureDefinition, FontSettings, FontMetrics } from '@/types';
-import { ALL_CHARACTERS, DEFAULT_METRICS } from '@/lib/constants/characters';
+import type {
+  AnchorName,
+  AnchorPoint,
+  GlyphData,
+  GlyphForm,
+  GlyphRevision,
+  GlyphSkeleton,
+  PositionalForm,
+  LigatureDefinition,
+  LigatureFeature,
+  KerningData,
+  KerningClass,
+  KerningPair,
+  FontSettings,
+  FontMetadata,
+  FontMetrics,
+  ProjectData,
+  RevisionSource,
+  Sidebearings,
+} from '@/types';
+import { ALL_CHARACTERS, DEFAULT_METADATA, DEFAULT_METRICS } from '@/lib/constants/characters';
+import { buildKerningClassesFromCharacters } from '@/lib/font/Kerning';
+import { cleanupOutline, type GlyphCleanupReport } from '@/lib/font/OutlineCleanup';
+import { DEFAULT_CURVE_FIT_TOLERANCE } from '@/lib/font/CurveFitter';
+import { DEFAULT_PEN } from '@/lib/font/StrokeExpander';
+import { DEFAULT_WEIGHT_MASTERS } from '@/lib/font/Variations';
+import { DEFAULT_SLANT } from '@/lib/font/GlyphTransform';
+import {
+  DEFAULT_SPACING_TIGHTNESS,
+  autoSpaceGlyph,
+  autoSpaceLigature,
+  createSpacingModel,
+  type GlyphSpacingReport,
+} from '@/lib/font/Spacing';
+import {
+  addGlyphRevisions,
+  addProjectScan,
+  clearLegacyFontData,
+  loadGlyphRevisions,
+  loadLegacyFontData,
+  loadProject,
+  loadProjectImages,
+  loadProjectIndex,
+  removeProject,
+  saveProject,
+  saveProjectImages,
+  type GlyphCrop,
+  type ProjectScan,
+  type ProjectSummary,
+} from '@/lib/storage/ProjectStorage';
+import { readProjectArchive, writeProjectArchive } from '@/lib/storage/ProjectArchive';
+
+// The parts of the store that make up the font, which undo and redo restore
+export type FontDocument = Pick<FontStore, 'settings' | 'glyphs' | 'ligatures' | 'kerning'>;
+
+// A named change to the font, undone and redone as a whole
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  time: number;
+  before: FontDocument;
+  after: FontDocument;
+}
 
 interface FontStore {
   // Font settings
   settings: FontSettings;
   setSettings: (settings: Partial<FontSettings>) => void;
+  setMetadata: (metadata: Partial<FontMetadata>) => void;
+  setStylisticSetName: (stylisticSet: number, name: string) => void;
 
   // Glyphs
   glyphs: Record<number, GlyphData>;
   setGlyph: (unicode: number, data: Partial<GlyphData>) => void;
-  setGlyphPath: (unicode: number, path: Path, advanceWidth?: number) => void;
+  // Outlines swept from monoline strokes pass their skeleton along; drawn ones clear it.
+  // Each outline saved is kept as a revision of the glyph, tagged with where it came from.
+  setGlyphPath: (
+    unicode: number,
+    path: Path,
+    advanceWidth?: number,
+    skeleton?: GlyphSkeleton,
+    source?: RevisionSource
+  ) => void;
   clearGlyph: (unicode: number) => void;
+  addGlyphAlternate: (
+    unicode: number,
+    path: Path,
+    advanceWidth?: number,
+    skeleton?: GlyphSkeleton,
+    source?: RevisionSource
+  ) => void;
+  removeGlyphAlternate: (unicode: number, id: string) => void;
+  promoteGlyphAlternate: (unicode: number, id: string) => void;
+  // Tag an alternate with a stylistic set, mark it as picked at random (rand), or pass
+  // null to cycle it through calt again
+  setGlyphAlternateSet: (unicode: number, id: string, stylisticSet: number | 'rand' | null) => void;
+  // Place an anchor, or pass null to go back to the guessed position
+  setGlyphAnchor: (unicode: number, name: AnchorName, point: AnchorPoint | null) => void;
+  // Draw a positional form, or pass null to remove it
+  setGlyphForm: (unicode: number, form: PositionalForm, path: Path | null, advanceWidth?: number) => void;
+  // Saved versions of a glyph's outline, oldest first
+  getGlyphRevisions: (unicode: number) => Promise<GlyphRevision[]>;
+  // Make a saved version the glyph's outline again, as a new revision
+  restoreGlyphRevision: (revision: GlyphRevision) => void;
+  // Tidy every drawn outline (glyphs, alternates, forms, ligatures) and report the points removed
+  cleanupOutlines: () => GlyphCleanupReport[];
+  // Respace drawn glyphs from their shapes (all glyphs and ligatures, or only the given
+  // characters) and report the side bearings before and after
+  autoSpace: (unicodes?: number[]) => GlyphSpacingReport[];
+  // Fix side bearings auto spacing keeps, or pass null to compute both again
+  setGlyphSpacingOverride: (unicode: number, override: Partial<Sidebearings> | null) => void;
 
   // Ligatures
   ligatures: LigatureDefinition[];
-  addLigature: (sequence: string) => void;
+  addLigature: (sequence: string, feature?: LigatureFeature) => void;
   removeLigature: (id: string) => void;
   setLigaturePath: (id: string, path: Path) => void;
+  setLigatureFeature: (id: string, feature: LigatureFeature) => void;
+
+  // Kerning
+  kerning: KerningData;
+  setKerningPair: (left: number | string, right: number | string, value: number) => void;
+  removeKerningPair: (left: number | string, right: number | string) => void;
+  setKerningClass: (kerningClass: KerningClass) => void;
+  removeKerningClass: (id: string) => void;
+  // Add accepted auto kerning: the classes first, then the pairs, replacing pairs on the same sides
+  acceptKerningSuggestions: (classes: KerningClass[], pairs: KerningPair[]) => void;
 
   // Navigation
   currentCharacterIndex: number;
@@ -31,6 +139,40 @@ interface FontStore {
 
   // Reset
   resetProject: () => void;
+
+  // Projects: the open one is edited through the rest of the store, the
+  // others are only listed until opened
+  projectId: string;
+  projectName: string;
+  projectCreatedAt: number;
+  projects: ProjectSummary[];
+  createProject: (name: string) => Promise<void>;
+  // Copy a project under a new name; the open project stays open
+  duplicateProject: (id: string) => Promise<void>;
+  renameProject: (id: string, name: string) => Promise<void>;
+  // The open project is only deleted when there is another one to open instead
+  deleteProject: (id: string) => Promise<void>;
+  openProject: (id: string) => Promise<void>;
+  // Keep a scan traced into the open project, with the cells its glyphs were cut from
+  addScan: (scan: ProjectScan, crops: GlyphCrop[]) => Promise<void>;
+  // A project with its scans as a .fontmaker file
+  exportProject: (id: string) => Promise<Blob>;
+  // Add the project in a .fontmaker file and open it; throws when the file is not a valid one
+  importProject: (data: Uint8Array, fileName: string) => Promise<void>;
+
+  // Saved projects are loaded from IndexedDB after the page starts; changes
+  // are only written back once they have been
+  isHydrated: boolean;
+  hydrate: () => Promise<void>;
+
+  // History: every edit to the open project, oldest first, and the edits
+  // undone since, the next one to redo last. Opening a project starts afresh.
+  history: HistoryEntry[];
+  future: HistoryEntry[];
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  // Run several edits as one history entry, e.g. every glyph of a scan page
+  transaction: (label: string, run: () => void) => void;
 }
 
 // Initialize glyphs from character definitions
@@ -49,61 +191,483 @@ function initializeGlyphs(): Record<number, GlyphData> {
   return glyphs;
 }
 
+function initializeKerning(): KerningData {
+  return {
+    pairs: [],
+    classes: buildKerningClassesFromCharacters(),
+  };
+}
+
+// Changes are written to IndexedDB once the data has been still this long, ms
+const SAVE_DELAY = 500;
+
+// The one load from IndexedDB, shared by every caller of hydrate
+let hydration: Promise<void> | null = null;
+
+// Pending debounced write of the open project
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Edits kept for undo per project
+const HISTORY_LIMIT = 100;
+
+// Edits with the same label this close together become one entry (typing,
+// dragging a slider or kerning pair), ms
+const COALESCE_DELAY = 1000;
+
+let nextHistoryId = 1;
+
+// Revisions saved since the open project was last written, written along with it
+let pendingRevisions: GlyphRevision[] = [];
+
+// The transaction being run: its edits are recorded together when it ends
+let openTransaction: { label: string; before: FontDocument } | null = null;
+
 const initialSettings: FontSettings = {
   familyName: 'My Handwriting',
   styleName: 'Regular',
   metrics: DEFAULT_METRICS,
+  metadata: DEFAULT_METADATA,
+  cursive: false,
+  stylisticSetNames: {},
+  cleanupOutlines: false,
+  curveFitTolerance: DEFAULT_CURVE_FIT_TOLERANCE,
+  monolinePen: DEFAULT_PEN,
+  variableWeight: false,
+  weightMasters: DEFAULT_WEIGHT_MASTERS,
+  slant: DEFAULT_SLANT,
+  spacingTightness: DEFAULT_SPACING_TIGHTNESS,
+  hinting: true,
 };
 
+function newProjectId(): string {
+  return `project_${Date.now()}`;
+}
+
+// Settings saved before a field existed get the defaults for it
+function withDefaultSettings(saved: Partial<FontSettings> | undefined): FontSettings {
+  return {
+    ...initialSettings,
+    ...saved,
+    metadata: { ...initialSettings.metadata, ...saved?.metadata },
+    monolinePen: { ...initialSettings.monolinePen, ...saved?.monolinePen },
+    slant: { ...initialSettings.slant, ...saved?.slant },
+  };
+}
+
+function emptyProject(name: string): ProjectData {
+  const now = Date.now();
+  return {
+    id: newProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    settings: { ...initialSettings, familyName: name },
+    glyphs: initializeGlyphs(),
+    ligatures: [],
+    kerning: initializeKerning(),
+  };
+}
+
+// Store state with a project open
+function projectState(project: ProjectData): Partial<FontStore> {
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    projectCreatedAt: project.createdAt,
+    settings: withDefaultSettings(project.settings),
+    // Characters added since the project was saved start out empty
+    glyphs: { ...initializeGlyphs(), ...project.glyphs },
+    ligatures: project.ligatures,
+    kerning: project.kerning,
+    history: [],
+    future: [],
+  };
+}
+
+function fontDocument(state: FontDocument): FontDocument {
+  return { settings: state.settings, glyphs: state.glyphs, ligatures: state.ligatures, kerning: state.kerning };
+}
+
+function sameDocument(a: FontDocument, b: FontDocument): boolean {
+  return a.settings === b.settings && a.glyphs === b.glyphs && a.ligatures === b.ligatures && a.kerning === b.kerning;
+}
+
+function glyphLabel(unicode: number): string {
+  return `“${String.fromCodePoint(unicode)}”`;
+}
+
+function kerningSideLabel(kerning: KerningData, side: number | string): string {
+  if (typeof side === 'number') return String.fromCodePoint(side);
+  const kerningClass = kerning.classes.find((c) => c.id === side);
+  return kerningClass ? `[${kerningClass.name}]` : side;
+}
+
+function kerningPairLabel(kerning: KerningData, left: number | string, right: number | string): string {
+  return `${kerningSideLabel(kerning, left)} ${kerningSideLabel(kerning, right)}`;
+}
+
+// Add a change to the history, merged into the last entry when it continues it
+function recordHistory(label: string, before: FontDocument, coalesce: boolean): void {
+  const state = useFontStore.getState();
+  const after = fontDocument(state);
+  if (sameDocument(before, after)) return;
+  const now = Date.now();
+  const last = state.history[state.history.length - 1];
+  if (coalesce && last && last.label === label && now - last.time < COALESCE_DELAY) {
+    useFontStore.setState({ history: [...state.history.slice(0, -1), { ...last, time: now, after }], future: [] });
+    return;
+  }
+  const entry: HistoryEntry = { id: nextHistoryId++, label, time: now, before, after };
+  useFontStore.setState({ history: [...state.history, entry].slice(-HISTORY_LIMIT), future: [] });
+}
+
+// Keep a glyph's outline, as it is now, as a revision
+function recordRevision(glyph: GlyphData, source: RevisionSource): void {
+  if (!glyph.path) return;
+  const time = Date.now();
+  pendingRevisions.push({
+    id: `rev_${glyph.unicode}_${time}_${pendingRevisions.length}`,
+    unicode: glyph.unicode,
+    time,
+    source,
+    path: glyph.path,
+    advanceWidth: glyph.advanceWidth,
+    skeleton: glyph.skeleton,
+  });
+}
+
+// Change the font and record it in the history under a label
+function edit(label: string, update: (state: FontStore) => Partial<FontStore>): void {
+  const before = fontDocument(useFontStore.getState());
+  useFontStore.setState(update);
+  if (!openTransaction) recordHistory(label, before, true);
+}
+
+function withSummary(projects: ProjectSummary[], summary: ProjectSummary): ProjectSummary[] {
+  return [...projects.filter((project) => project.id !== summary.id), summary];
+}
+
+function cancelPendingSave(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+}
+
+// Write the open project now rather than when its pending write is due
+async function saveOpenProject(): Promise<void> {
+  cancelPendingSave();
+  const state = useFontStore.getState();
+  const summary = await saveProject({
+    id: state.projectId,
+    name: state.projectName,
+    createdAt: state.projectCreatedAt,
+    updatedAt: Date.now(),
+    settings: state.settings,
+    glyphs: state.glyphs,
+    ligatures: state.ligatures,
+    kerning: state.kerning,
+  });
+  useFontStore.setState((current) => ({ projects: withSummary(current.projects, summary) }));
+  // Pending until written, so the revision drawer lists them meanwhile
+  const revisions = pendingRevisions;
+  await addGlyphRevisions(state.projectId, revisions);
+  pendingRevisions = pendingRevisions.filter((revision) => !revisions.includes(revision));
+}
+
 export const useFontStore = create<FontStore>()(
   persist(
     (set, get) => ({
       settings: initialSettings,
       glyphs: initializeGlyphs(),
       ligatures: [],
+      kerning: initializeKerning(),
       currentCharacterIndex: 0,
 
       setSettings: (newSettings) =>
-        set((state) => ({
+        edit('Change font settings', (state) => ({
           settings: { ...state.settings, ...newSettings },
         })),
 
+      setMetadata: (metadata) =>
+        edit('Change font info', (state) => ({
+          settings: {
+            ...state.settings,
+            metadata: { ...state.settings.metadata, ...metadata },
+          },
+        })),
+
+      setStylisticSetName: (stylisticSet, name) =>
+        edit(`Rename stylistic set ${stylisticSet}`, (state) => ({
+          settings: {
+            ...state.settings,
+            stylisticSetNames: { ...state.settings.stylisticSetNames, [stylisticSet]: name },
+          },
+        })),
+
       setGlyph: (unicode, data) =>
-        set((state) => ({
+        edit(`Edit ${glyphLabel(unicode)}`, (state) => ({
           glyphs: {
             ...state.glyphs,
             [unicode]: { ...state.glyphs[unicode], ...data },
           },
         })),
 
-      setGlyphPath: (unicode, path, advanceWidth?) =>
-        set((state) => ({
+      setGlyphPath: (unicode, path, advanceWidth?, skeleton?, source = { type: 'drawn' }) => {
+        edit(`${source.type === 'restored' ? 'Restore' : 'Draw'} ${glyphLabel(unicode)}`, (state) => ({
           glyphs: {
             ...state.glyphs,
             [unicode]: {
               ...state.glyphs[unicode],
               path,
+              skeleton,
               isComplete: true,
               // Use provided advanceWidth or keep existing
               advanceWidth: advanceWidth ?? state.glyphs[unicode]?.advanceWidth ?? 500,
             },
           },
-        })),
+        }));
+        recordRevision(get().glyphs[unicode], source);
+      },
 
       clearGlyph: (unicode) =>
-        set((state) => ({
+        edit(`Clear ${glyphLabel(unicode)}`, (state) => ({
           glyphs: {
             ...state.glyphs,
             [unicode]: {
               ...state.glyphs[unicode],
               path: null,
+              skeleton: undefined,
               isComplete: false,
+              alternates: [],
+              anchors: {},
+              forms: {},
             },
           },
         })),
 
-      addLigature: (sequence) =>
-        set((state) => ({
+      addGlyphAlternate: (unicode, path, advanceWidth?, skeleton?, source = { type: 'drawn' }) => {
+        const first = !get().glyphs[unicode]?.isComplete;
+        edit(`Add alternate ${glyphLabel(unicode)}`, (state) => {
+          const glyph = state.glyphs[unicode];
+          const width = advanceWidth ?? glyph?.advanceWidth ?? 500;
+          // The first drawing of a character becomes its default form
+          if (!glyph?.isComplete) {
+            return {
+              glyphs: {
+                ...state.glyphs,
+                [unicode]: { ...glyph, path, skeleton, advanceWidth: width, isComplete: true },
+              },
+            };
+          }
+          return {
+            glyphs: {
+              ...state.glyphs,
+              [unicode]: {
+                ...glyph,
+                alternates: [
+                  ...(glyph.alternates ?? []),
+                  {
+                    id: `alt_${unicode}_${Date.now()}_${glyph.alternates?.length ?? 0}`,
+                    path,
+                    advanceWidth: width,
+                    skeleton,
+                  },
+                ],
+              },
+            },
+          };
+        });
+        if (first) recordRevision(get().glyphs[unicode], source);
+      },
+
+      removeGlyphAlternate: (unicode, id) =>
+        edit(`Remove alternate ${glyphLabel(unicode)}`, (state) => ({
+          glyphs: {
+            ...state.glyphs,
+            [unicode]: {
+              ...state.glyphs[unicode],
+              alternates: (state.glyphs[unicode]?.alternates ?? []).filter((a) => a.id !== id),
+            },
+          },
+        })),
+
+      // Swap an alternate with the default form; the old default joins no stylistic set and is cycled by calt
+      promoteGlyphAlternate: (unicode, id) =>
+        edit(`Make alternate default ${glyphLabel(unicode)}`, (state) => {
+          const glyph = state.glyphs[unicode];
+          const alternate = glyph?.alternates?.find((a) => a.id === id);
+          if (!glyph?.path || !alternate) return {};
+          return {
+            glyphs: {
+              ...state.glyphs,
+              [unicode]: {
+                ...glyph,
+                path: alternate.path,
+                advanceWidth: alternate.advanceWidth,
+                skeleton: alternate.skeleton,
+                alternates: glyph.alternates!.map((a) =>
+                  a.id === id
+                    ? {
+                        ...a,
+                        path: glyph.path!,
+                        advanceWidth: glyph.advanceWidth,
+                        skeleton: glyph.skeleton,
+                        stylisticSet: undefined,
+                        random: undefined,
+                      }
+                    : a
+                ),
+              },
+            },
+          };
+        }),
+
+      setGlyphAlternateSet: (unicode, id, stylisticSet) =>
+        edit(`Change stylistic set ${glyphLabel(unicode)}`, (state) => ({
+          glyphs: {
+            ...state.glyphs,
+            [unicode]: {
+              ...state.glyphs[unicode],
+              alternates: (state.glyphs[unicode]?.alternates ?? []).map((a) =>
+                a.id === id
+                  ? {
+                      ...a,
+                      stylisticSet: typeof stylisticSet === 'number' ? stylisticSet : undefined,
+                      random: stylisticSet === 'rand' || undefined,
+                    }
+                  : a
+              ),
+            },
+          },
+        })),
+
+      setGlyphAnchor: (unicode, name, point) =>
+        edit(`Move ${name} anchor ${glyphLabel(unicode)}`, (state) => {
+          const anchors = { ...state.glyphs[unicode]?.anchors };
+          if (point) {
+            anchors[name] = { x: Math.round(point.x), y: Math.round(point.y) };
+          } else {
+            delete anchors[name];
+          }
+          return {
+            glyphs: {
+              ...state.glyphs,
+              [unicode]: { ...state.glyphs[unicode], anchors },
+            },
+          };
+        }),
+
+      setGlyphForm: (unicode, form, path, advanceWidth?) =>
+        edit(`${path ? 'Draw' : 'Remove'} ${form} form ${glyphLabel(unicode)}`, (state) => {
+          const glyph = state.glyphs[unicode];
+          const forms = { ...glyph?.forms };
+          if (path) {
+            forms[form] = { path, advanceWidth: advanceWidth ?? glyph?.advanceWidth ?? 500 };
+          } else {
+            delete forms[form];
+          }
+          return {
+            glyphs: {
+              ...state.glyphs,
+              [unicode]: { ...glyph, forms },
+            },
+          };
+        }),
+
+      getGlyphRevisions: async (unicode) => {
+        const saved = await loadGlyphRevisions(get().projectId, unicode);
+        const savedIds = new Set(saved.map((revision) => revision.id));
+        return [
+          ...saved,
+          ...pendingRevisions.filter((revision) => revision.unicode === unicode && !savedIds.has(revision.id)),
+        ];
+      },
+
+      restoreGlyphRevision: (revision) =>
+        get().setGlyphPath(revision.unicode, revision.path, revision.advanceWidth, revision.skeleton, {
+          type: 'restored',
+          revisionId: revision.id,
+          time: revision.time,
+        }),
+
+      // Overlapping strokes are merged first, the same way they are on export;
+      // glyphs that keep their overlaps keep their contour directions too
+      cleanupOutlines: () => {
+        const { glyphs, ligatures } = get();
+        const report: GlyphCleanupReport[] = [];
+        const clean = (name: string, path: Path, keepOverlaps?: boolean): Path => {
+          const result = cleanupOutline(path, keepOverlaps ? { fixDirection: false } : { removeOverlaps: true });
+          report.push({ name, pointsBefore: result.pointsBefore, pointsAfter: result.pointsAfter });
+          return result.path;
+        };
+
+        const cleanedGlyphs: Record<number, GlyphData> = {};
+        for (const glyph of Object.values(glyphs)) {
+          if (!glyph.isComplete || !glyph.path || glyph.unicode === 32) {
+            cleanedGlyphs[glyph.unicode] = glyph;
+            continue;
+          }
+          const forms: GlyphData['forms'] = {};
+          for (const [form, formGlyph] of Object.entries(glyph.forms ?? {}) as Array<[PositionalForm, GlyphForm]>) {
+            forms[form] = { ...formGlyph, path: clean(`${glyph.name}.${form}`, formGlyph.path, glyph.keepOverlaps) };
+          }
+          cleanedGlyphs[glyph.unicode] = {
+            ...glyph,
+            path: clean(glyph.name, glyph.path, glyph.keepOverlaps),
+            alternates: glyph.alternates?.map((alternate, i) => ({
+              ...alternate,
+              path: clean(`${glyph.name}.alt${i + 1}`, alternate.path, glyph.keepOverlaps),
+            })),
+            forms: glyph.forms ? forms : undefined,
+          };
+        }
+        const cleanedLigatures = ligatures.map((lig) =>
+          lig.isComplete && lig.path ? { ...lig, path: clean(lig.name, lig.path) } : lig
+        );
+
+        edit('Clean up outlines', () => ({ glyphs: cleanedGlyphs, ligatures: cleanedLigatures }));
+        return report;
+      },
+
+      // The reference letters are measured before any glyph moves
+      autoSpace: (unicodes) => {
+        const { glyphs, ligatures, settings } = get();
+        const model = createSpacingModel(glyphs, settings.metrics, settings.spacingTightness);
+        const report: GlyphSpacingReport[] = [];
+
+        const spacedGlyphs: Record<number, GlyphData> = { ...glyphs };
+        for (const glyph of Object.values(glyphs)) {
+          if (unicodes && !unicodes.includes(glyph.unicode)) continue;
+          const spaced = autoSpaceGlyph(glyph, model);
+          spacedGlyphs[glyph.unicode] = spaced.glyph;
+          report.push(...spaced.report);
+        }
+        const spacedLigatures = unicodes
+          ? ligatures
+          : ligatures.map((lig) => {
+              const spaced = autoSpaceLigature(lig, model);
+              report.push(...spaced.report);
+              return spaced.ligature;
+            });
+
+        edit('Auto space', () => ({ glyphs: spacedGlyphs, ligatures: spacedLigatures }));
+        return report;
+      },
+
+      setGlyphSpacingOverride: (unicode, override) =>
+        edit(`Change spacing ${glyphLabel(unicode)}`, (state) => {
+          const glyph = state.glyphs[unicode];
+          if (!glyph) return state;
+          const fixed = override && Object.values(override).some((value) => value !== undefined);
+          return {
+            glyphs: {
+              ...state.glyphs,
+              [unicode]: { ...glyph, spacingOverride: fixed ? override : undefined },
+            },
+          };
+        }),
+
+      addLigature: (sequence, feature = 'liga') =>
+        edit(`Add ligature ${sequence}`, (state) => ({
           ligatures: [
             ...state.ligatures,
             {
@@ -113,22 +677,83 @@ export const useFontStore = create<FontStore>()(
               path: null,
               advanceWidth: 600,
               isComplete: false,
+              feature,
             },
           ],
         })),
 
       removeLigature: (id) =>
-        set((state) => ({
+        edit(`Remove ligature ${get().ligatures.find((l) => l.id === id)?.sequence ?? ''}`, (state) => ({
           ligatures: state.ligatures.filter((l) => l.id !== id),
         })),
 
       setLigaturePath: (id, path) =>
-        set((state) => ({
+        edit(`Draw ligature ${get().ligatures.find((l) => l.id === id)?.sequence ?? ''}`, (state) => ({
           ligatures: state.ligatures.map((l) =>
             l.id === id ? { ...l, path, isComplete: true } : l
           ),
         })),
 
+      setLigatureFeature: (id, feature) =>
+        edit(`Change ligature ${get().ligatures.find((l) => l.id === id)?.sequence ?? ''}`, (state) => ({
+          ligatures: state.ligatures.map((l) =>
+            l.id === id ? { ...l, feature } : l
+          ),
+        })),
+
+      setKerningPair: (left, right, value) =>
+        edit(`Kern ${kerningPairLabel(get().kerning, left, right)}`, (state) => ({
+          kerning: {
+            ...state.kerning,
+            pairs: [
+              ...state.kerning.pairs.filter((p) => p.left !== left || p.right !== right),
+              { left, right, value },
+            ],
+          },
+        })),
+
+      removeKerningPair: (left, right) =>
+        edit(`Remove kerning ${kerningPairLabel(get().kerning, left, right)}`, (state) => ({
+          kerning: {
+            ...state.kerning,
+            pairs: state.kerning.pairs.filter((p) => p.left !== left || p.right !== right),
+          },
+        })),
+
+      setKerningClass: (kerningClass) =>
+        edit(`Edit kerning class [${kerningClass.name}]`, (state) => {
+          // A glyph belongs to at most one class per side
+          const classes = state.kerning.classes.map((c) =>
+            c.id === kerningClass.id
+              ? kerningClass
+              : c.side === kerningClass.side
+              ? { ...c, members: c.members.filter((m) => !kerningClass.members.includes(m)) }
+              : c
+          );
+          if (!classes.some((c) => c.id === kerningClass.id)) {
+            classes.push(kerningClass);
+          }
+          return { kerning: { ...state.kerning, classes } };
+        }),
+
+      removeKerningClass: (id) =>
+        edit(`Remove kerning class ${kerningSideLabel(get().kerning, id)}`, (state) => ({
+          kerning: {
+            pairs: state.kerning.pairs.filter((p) => p.left !== id && p.right !== id),
+            classes: state.kerning.classes.filter((c) => c.id !== id),
+          },
+        })),
+
+      acceptKerningSuggestions: (classes, pairs) =>
+        get().transaction('Accept kerning suggestions', () => {
+          const { setKerningClass, setKerningPair } = get();
+          const used = new Set(pairs.flatMap((pair) => [pair.left, pair.right]));
+          for (const kerningClass of classes) {
+            if (used.has(kerningClass.id)) setKerningClass(kerningClass);
+          }
+          for (const pair of pairs) setKerningPair(pair.left, pair.right, pair.value);
+        }),
+
       setCurrentCharacterIndex: (index) =>
         set({ currentCharacterIndex: index }),
 
@@ -151,20 +776,224 @@ export const useFontStore = create<FontStore>()(
       },
 
       resetProject: () =>
-        set({
+        edit('Reset project', () => ({
           settings: initialSettings,
           glyphs: initializeGlyphs(),
           ligatures: [],
+          kerning: initializeKerning(),
           currentCharacterIndex: 0,
-        }),
+        })),
+
+      projectId: newProjectId(),
+      projectName: initialSettings.familyName,
+      projectCreatedAt: Date.now(),
+      projects: [],
+
+      createProject: async (name) => {
+        await saveOpenProject();
+        const project = emptyProject(name);
+        const summary = await saveProject(project);
+        set((state) => ({
+          ...projectState(project),
+          currentCharacterIndex: 0,
+          projects: withSummary(state.projects, summary),
+        }));
+      },
+
+      duplicateProject: async (id) => {
+        if (id === get().projectId) await saveOpenProject();
+        const source = await loadProject(id);
+        if (!source) return;
+        const now = Date.now();
+        const copyId = newProjectId();
+        const summary = await saveProject({
+          ...source,
+          id: copyId,
+          name: `${source.name} copy`,
+          createdAt: now,
+          updatedAt: now,
+        });
+        await saveProjectImages(copyId, await loadProjectImages(id));
+        await addGlyphRevisions(copyId, await loadGlyphRevisions(id));
+        set((state) => ({ projects: withSummary(state.projects, summary) }));
+      },
+
+      renameProject: async (id, name) => {
+        if (id === get().projectId) {
+          set({ projectName: name });
+          await saveOpenProject();
+          return;
+        }
+        const project = await loadProject(id);
+        if (!project) return;
+        const summary = await saveProject({ ...project, name });
+        set((state) => ({ projects: withSummary(state.projects, summary) }));
+      },
+
+      deleteProject: async (id) => {
+        const others = get().projects.filter((project) => project.id !== id);
+        if (others.length === 0) return;
+        if (id === get().projectId) {
+          cancelPendingSave();
+          pendingRevisions = [];
+          const next = others.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+          const project = await loadProject(next.id);
+          if (!project) return;
+          set({ ...projectState(project), currentCharacterIndex: 0 });
+        }
+        await removeProject(id);
+        set((state) => ({ projects: state.projects.filter((project) => project.id !== id) }));
+      },
+
+      openProject: async (id) => {
+        if (id === get().projectId) return;
+        await saveOpenProject();
+        const project = await loadProject(id);
+        if (project) set({ ...projectState(project), currentCharacterIndex: 0 });
+      },
+
+      addScan: (scan, crops) => addProjectScan(get().projectId, scan, crops),
+
+      exportProject: async (id) => {
+        if (id === get().projectId) await saveOpenProject();
+        const project = await loadProject(id);
+        if (!project) throw new Error('Project not found');
+        return writeProjectArchive(project, await loadProjectImages(id), await loadGlyphRevisions(id));
+      },
+
+      importProject: async (data, fileName) => {
+        const archive = readProjectArchive(data);
+        await saveOpenProject();
+        // A new id, so importing the same file twice gives two projects
+        const project = { ...archive.project, id: newProjectId() };
+        const summary = await saveProject(project);
+        await saveProjectImages(project.id, archive.images);
+        // Glyphs the file has no revisions of start their history with the import
+        const revised = new Set(archive.revisions.map((revision) => revision.unicode));
+        const now = Date.now();
+        const imported: GlyphRevision[] = Object.values(project.glyphs)
+          .filter((glyph) => glyph.isComplete && glyph.path && !revised.has(glyph.unicode))
+          .map((glyph) => ({
+            id: `rev_${glyph.unicode}_${now}_import`,
+            unicode: glyph.unicode,
+            time: now,
+            source: { type: 'imported', fileName },
+            path: glyph.path!,
+            advanceWidth: glyph.advanceWidth,
+            skeleton: glyph.skeleton,
+          }));
+        await addGlyphRevisions(project.id, [...archive.revisions, ...imported]);
+        set((state) => ({
+          ...projectState(project),
+          currentCharacterIndex: 0,
+          projects: withSummary(state.projects, summary),
+        }));
+      },
+
+      history: [],
+      future: [],
+
+      undo: (steps = 1) => {
+        const { history, future } = get();
+        if (openTransaction || steps < 1 || history.length === 0) return;
+        const kept = history.slice(0, Math.max(0, history.length - steps));
+        const undone = history.slice(kept.length);
+        // Back to before the earliest edit undone
+        set({ ...undone[0].before, history: kept, future: [...future, ...undone.slice().reverse()] });
+      },
+
+      redo: (steps = 1) => {
+        const { history, future } = get();
+        if (openTransaction || steps < 1 || future.length === 0) return;
+        const kept = future.slice(0, Math.max(0, future.length - steps));
+        const redone = future.slice(kept.length).reverse();
+        set({ ...redone[redone.length - 1].after, history: [...history, ...redone], future: kept });
+      },
+
+      transaction: (label, run) => {
+        // Nested transactions are part of the outer one
+        if (openTransaction) {
+          run();
+          return;
+        }
+        openTransaction = { label, before: fontDocument(get()) };
+        try {
+          run();
+        } finally {
+          const { before } = openTransaction;
+          openTransaction = null;
+          recordHistory(label, before, false);
+        }
+      },
+
+      isHydrated: false,
+
+      hydrate: () =>
+        (hydration ??= (async () => {
+          const projects = await loadProjectIndex();
+          if (projects.length > 0) {
+            const open =
+              projects.find((project) => project.id === get().projectId) ??
+              projects.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+            const project = await loadProject(open.id);
+            set({ ...(project ? projectState(project) : {}), projects });
+            return;
+          }
+
+          // First start, or glyphs saved before there were projects: they become the first project
+          const legacy = await loadLegacyFontData();
+          if (legacy) {
+            set({
+              glyphs: { ...initializeGlyphs(), ...legacy.glyphs },
+              ligatures: legacy.ligatures,
+              kerning: legacy.kerning,
+            });
+          }
+          set({ projectName: get().settings.familyName });
+          await saveOpenProject();
+          if (legacy) await clearLegacyFontData();
+        })()
+          .catch((error) => console.error('Failed to load saved projects:', error))
+          .finally(() => set({ isHydrated: true }))),
     }),
     {
       name: 'font-storage',
       partialize: (state) => ({
         settings: state.settings,
-        // Note: Paths cannot be serialized directly, we'll handle this separately
+        // Projects hold Paths and go to IndexedDB instead (see hydrate); this is the open one
+        projectId: state.projectId,
         currentCharacterIndex: state.currentCharacterIndex,
       }),
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<FontStore>;
+        return { ...current, ...saved, settings: withDefaultSettings(saved.settings) };
+      },
     }
   )
 );
+
+// Debounced writes of the open project, flushed when the page is hidden
+if (typeof window !== 'undefined') {
+  const save = () => {
+    saveOpenProject().catch((error) => console.error('Failed to save project:', error));
+  };
+
+  useFontStore.subscribe((state, previous) => {
+    // Opening another project replaces everything without changing it
+    if (!state.isHydrated || state.projectId !== previous.projectId) return;
+    if (
+      state.glyphs === previous.glyphs &&
+      state.ligatures === previous.ligatures &&
+      state.kerning === previous.kerning &&
+      state.settings === previous.settings &&
+      state.projectName === previous.projectName
+    ) {
+      return;
+    }
+    cancelPendingSave();
+    saveTimer = setTimeout(save, SAVE_DELAY);
+  });
+  window.addEventListener('pagehide', () => {
+    if (saveTimer) save();
+  });
+}
@@ -1,5 +1,46 @@
 import type { Path } from 'opentype.js';
 
+// Centrelines of a glyph read as monoline strokes (font units), kept so the
+// glyph can be swept again with other pens, and the pen width it was swept with
+export interface GlyphSkeleton {
+  strokes: Array<Array<{ x: number; y: number }>>;
+  penWidth: number;
+}
+
+export interface GlyphAlternate {
+  id: string;
+  path: Path;
+  advanceWidth: number;
+  skeleton?: GlyphSkeleton;
+  // Stylistic set (1-20) the alternate belongs to; untagged alternates are cycled by calt
+  stylisticSet?: number;
+  // Picked at random by 'rand' instead of cycled by 'calt'
+  random?: boolean;
+}
+
+// 'top'/'bottom' are where marks attach; '_top'/'_bottom' are how a mark attaches;
+// 'entry'/'exit' join letters in connected scripts
+export type AnchorName = 'top' | 'bottom' | '_top' | '_bottom' | 'entry' | 'exit';
+
+export interface AnchorPoint {
+  x: number;
+  y: number;
+}
+
+// Initial, medial, final and isolated forms for connected scripts
+export type PositionalForm = 'init' | 'medi' | 'fina' | 'isol';
+
+export interface GlyphForm {
+  path: Path;
+  advanceWidth: number;
+}
+
+// Space between the outline and the origin (left) or advance (right), font units
+export interface Sidebearings {
+  left: number;
+  right: number;
+}
+
 export interface GlyphData {
   unicode: number;
   name: string;
@@ -7,8 +48,43 @@ export interface GlyphData {
   path: Path | null;
   advanceWidth: number;
   isComplete: boolean;
+  // Set when the outline was swept from centrelines, cleared when it is redrawn
+  skeleton?: GlyphSkeleton;
+  // Extra drawings of the same character, cycled through by the 'calt' feature
+  alternates?: GlyphAlternate[];
+  // Anchors placed in the anchor editor; missing ones are guessed from the outline
+  anchors?: Partial<Record<AnchorName, AnchorPoint>>;
+  // Optional variants used at the start, middle or end of a word, or standing alone
+  forms?: Partial<Record<PositionalForm, GlyphForm>>;
+  // Export the outline as drawn instead of merging overlapping contours
+  keepOverlaps?: boolean;
+  // Side bearings auto spacing keeps instead of computing them
+  spacingOverride?: Partial<Sidebearings>;
+}
+
+// Where a saved version of a glyph came from
+export type RevisionSource =
+  | { type: 'drawn' }
+  // Template scan, with the PDF page it was on (photos have none)
+  | { type: 'scan'; scanId: string; page?: number }
+  // Project file the glyph was imported with
+  | { type: 'imported'; fileName: string }
+  // An earlier revision brought back, by id and when it was saved
+  | { type: 'restored'; revisionId: string; time: number };
+
+// A version of a glyph's default outline, kept every time one is saved
+export interface GlyphRevision {
+  id: string;
+  unicode: number;
+  time: number;
+  source: RevisionSource;
+  path: Path;
+  advanceWidth: number;
+  skeleton?: GlyphSkeleton;
 }
 
+export type LigatureFeature = 'liga' | 'dlig';
+
 export interface LigatureDefinition {
   id: string;
   sequence: string;
@@ -16,6 +92,28 @@ export interface LigatureDefinition {
   path: Path | null;
   advanceWidth: number;
   isComplete: boolean;
+  // Standard ligatures ('liga') are on by default, discretionary ones ('dlig') must be enabled
+  feature?: LigatureFeature;
+}
+
+export interface KerningClass {
+  id: string;
+  name: string;
+  // Left classes group glyphs by their right edge, right classes by their left edge
+  side: 'left' | 'right';
+  members: number[]; // unicode values
+}
+
+export interface KerningPair {
+  // Either a glyph (unicode value) or the id of a KerningClass on that side
+  left: number | string;
+  right: number | string;
+  value: number; // font units, negative tightens
+}
+
+export interface KerningData {
+  pairs: KerningPair[];
+  classes: KerningClass[];
 }
 
 export interface FontMetrics {
@@ -26,17 +124,83 @@ export interface FontMetrics {
   xHeight: number;
 }
 
+export interface FontMetadata {
+  version: string; // e.g. "1.000", written as "Version 1.000" and head.fontRevision
+  designer: string;
+  designerUrl: string;
+  manufacturer: string;
+  vendorUrl: string;
+  vendorId: string; // OS/2 achVendID, up to 4 ASCII characters
+  copyright: string;
+  trademark: string;
+  description: string;
+  license: string;
+  licenseUrl: string;
+  weightClass: number; // OS/2 usWeightClass, 100-900
+  widthClass: number; // OS/2 usWidthClass, 1 (ultra-condensed) - 9 (ultra-expanded)
+}
+
+export type PenShape = 'round' | 'ellipse' | 'broad';
+export type StrokeEnd = 'round' | 'square';
+
+// Pen swept along the centrelines of monoline scans
+export interface PenOptions {
+  shape: PenShape;
+  width: number; // font units
+  // Angle of the pen's long axis, counter-clockwise from horizontal (ellipse and broad nib)
+  angle: number; // degrees
+  cap: StrokeEnd;
+  join: StrokeEnd;
+}
+
+// How a slanted companion of the upright drawings is exported: not at all,
+// as the font's own Italic style, or as the far end of a 'slnt' axis
+export type SlantOutput = 'none' | 'italic' | 'axis';
+
+export interface SlantSettings {
+  angle: number; // degrees leaning right
+  // Widen the slanted glyphs so stems keep their thickness across the slant
+  compensate: boolean;
+  output: SlantOutput;
+}
+
+// A pen width the weight axis of a variable font is built from
+export interface WeightMaster {
+  weight: number; // usWeightClass scale, 1-1000
+  penWidth: number; // font units
+}
+
 export interface FontSettings {
   familyName: string;
   styleName: string;
   metrics: FontMetrics;
+  metadata: FontMetadata;
+  // Connected script: letters are joined through their entry/exit anchors
+  cursive: boolean;
+  // Friendly names of stylistic sets by set number, e.g. { 1: 'Messy' }
+  stylisticSetNames: Record<number, string>;
+  // Tidy outlines on export: redundant points, curve merging, extrema, direction
+  cleanupOutlines: boolean;
+  // How far curves fitted to scanned outlines may stray from the trace, in font units
+  curveFitTolerance: number;
+  // Pen used when scans are read as monoline strokes instead of traced outlines
+  monolinePen: PenOptions;
+  // Export a variable font whose weight axis sweeps monoline glyphs with each master's pen
+  variableWeight: boolean;
+  weightMasters: WeightMaster[];
+  // Italic generated by skewing every glyph
+  slant: SlantSettings;
+  // How closely auto spacing sets glyphs, from 0 (loose) to 100 (tight)
+  spacingTightness: number;
+  // Autohint TrueType exports so small text is fitted to the pixel grid
+  hinting: boolean;
 }
 
 export interface CharacterDefinition {
   unicode: number;
   name: string;
   character: string;
-  category: 'uppercase' | 'lowercase' | 'number' | 'punctuation' | 'accented' | 'symbol';
+  category: 'uppercase' | 'lowercase' | 'number' | 'punctuation' | 'accented' | 'symbol' | 'mark';
   required: boolean;
 }
 
@@ -50,8 +214,9 @@ export interface ProjectData {
   createdAt: number;
   updatedAt: number;
   settings: FontSettings;
-  glyphs: Map<number, GlyphData>;
+  glyphs: Record<number, GlyphData>;
   ligatures: LigatureDefinition[];
+  kerning: KerningData;
 }
 
 export type InputMethod = 'draw' | 'upload';